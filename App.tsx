@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Home, DollarSign, FileBarChart, Settings, CloudDownload, Wrench, Clock } from 'lucide-react';
+import { Home, DollarSign, FileBarChart, Settings, CloudDownload, CloudUpload, Wrench, Clock } from 'lucide-react';
 import HomeTab from './components/HomeTab';
 import AdvancesTab from './components/AdvancesTab';
 import ReportsTab from './components/ReportsTab';
@@ -8,10 +8,13 @@ import ExpensesTab from './components/ExpensesTab'; // Added ExpensesTab
 import ToolsTab from './components/ToolsTab'; // Added ToolsTab
 import PontoTab from './components/PontoTab'; // Added PontoTab
 import AuthPage from './components/AuthPage';
-import { getSettings, getLastNotificationDate, setLastNotificationDate, getWorkEntries, fetchAllFromSupabase, clearLocalData } from './services/storageService';
+import SyncConflictsScreen from './components/SyncConflictsScreen';
+import { getSettings, getLastNotificationDate, setLastNotificationDate, getWorkEntries, fetchAllFromSupabase, applyMergePlan, clearLocalData, MergePlan } from './services/storageService';
+import { ConflictChoice } from './services/mergeService';
 import { UserSettings, WorkStatus } from './types';
 import { format } from 'date-fns';
 import { supabase } from './services/supabaseClient';
+import { getOutbox, subscribeToOutbox, retryOutboxNow } from './services/syncService';
 
 type Tab = 'home' | 'advances' | 'reports' | 'settings' | 'expenses' | 'tools' | 'ponto';
 
@@ -24,6 +27,10 @@ const App: React.FC = () => {
   const [settings, setSettings] = useState<UserSettings>(getSettings());
   const [dataVersion, setDataVersion] = useState(0);
   const [dateToEdit, setDateToEdit] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState(getOutbox().length);
+  const [conflictPlan, setConflictPlan] = useState<MergePlan | null>(null);
+
+  useEffect(() => subscribeToOutbox(pending => setPendingChanges(pending.length)), []);
 
   useEffect(() => {
     // Check active session
@@ -50,14 +57,28 @@ const App: React.FC = () => {
 
   const syncData = async () => {
     setIsSyncing(true);
-    // Baixa dados do Supabase e atualiza local storage (limpa dados antigos antes)
-    await fetchAllFromSupabase();
+    // Baixa e mescla os dados da nuvem antes de enviar o que ficou pendente offline
+    const plan = await fetchAllFromSupabase();
+    if (plan && plan.conflicts.length > 0) {
+      setConflictPlan(plan);
+    } else {
+      await retryOutboxNow();
+    }
     // Atualiza estados locais para refletir os novos dados
     setSettings(getSettings());
     setDataVersion(v => v + 1);
     setIsSyncing(false);
   };
 
+  const handleResolveConflicts = (choices: Record<string, ConflictChoice>) => {
+    if (!conflictPlan) return;
+    applyMergePlan(conflictPlan, choices);
+    setConflictPlan(null);
+    retryOutboxNow();
+    setSettings(getSettings());
+    setDataVersion(v => v + 1);
+  };
+
   useEffect(() => {
     setSettings(getSettings());
   }, []);
@@ -112,14 +133,15 @@ const App: React.FC = () => {
     setSettings(newSettings);
     handleDataUpdate();
   };
-  const handleEditEntry = (date: string) => {
+  // Abre a data no Registro Diário ou no Controle de Ponto (relatórios e calendário do mês)
+  const handleEditEntry = (date: string, tab: 'home' | 'ponto' = 'home') => {
     setDateToEdit(date);
-    setActiveTab('home');
+    setActiveTab(tab);
   };
   
   const handleLogout = async () => {
     // 1. Limpa dados locais para evitar que o próximo usuário veja dados deste usuário
-    clearLocalData();
+    await clearLocalData();
     
     // 2. Limpa sessão
     setSession(null); 
@@ -143,15 +165,19 @@ const App: React.FC = () => {
       return <AuthPage />;
   }
 
+  if (conflictPlan) {
+      return <SyncConflictsScreen plan={conflictPlan} onResolve={handleResolveConflicts} />;
+  }
+
   const renderTab = () => {
     switch (activeTab) {
-      case 'home': return <HomeTab settings={settings} onUpdate={handleDataUpdate} initialDate={dateToEdit} onClearInitialDate={() => setDateToEdit(null)} />;
-      case 'advances': return <AdvancesTab onUpdate={handleDataUpdate} />;
+      case 'home': return <HomeTab settings={settings} onUpdate={handleDataUpdate} initialDate={dateToEdit} onClearInitialDate={() => setDateToEdit(null)} onOpenPonto={date => handleEditEntry(date, 'ponto')} />;
+      case 'advances': return <AdvancesTab settings={settings} onUpdate={handleDataUpdate} />;
       case 'reports': return <ReportsTab settings={settings} onEdit={handleEditEntry} dataVersion={dataVersion} />;
-      case 'settings': return <SettingsTab settings={settings} onSave={handleSettingsUpdate} onLogout={handleLogout} />;
-      case 'expenses': return <ExpensesTab onUpdate={handleDataUpdate} />; // Added ExpensesTab
-      case 'tools': return <ToolsTab onUpdate={handleDataUpdate} />; // Added ToolsTab
-      case 'ponto': return <PontoTab onUpdate={handleDataUpdate} />; // Added PontoTab
+      case 'settings': return <SettingsTab settings={settings} onSave={handleSettingsUpdate} onUpdate={handleDataUpdate} onLogout={handleLogout} />;
+      case 'expenses': return <ExpensesTab settings={settings} onUpdate={handleDataUpdate} />; // Added ExpensesTab
+      case 'tools': return <ToolsTab settings={settings} onUpdate={handleDataUpdate} />; // Added ToolsTab
+      case 'ponto': return <PontoTab onUpdate={handleDataUpdate} onSettingsChange={handleSettingsUpdate} initialDate={dateToEdit} onClearInitialDate={() => setDateToEdit(null)} onOpenRegistro={date => handleEditEntry(date, 'home')} />; // Added PontoTab
       default: return null;
     }
   };
@@ -174,6 +200,17 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 flex flex-col font-sans">
       {/* Top Decorative Bar */}
       <div className="h-1.5 w-full bg-gradient-to-r from-violet-500 via-fuchsia-500 to-indigo-500 fixed top-0 z-50"></div>
+
+      {pendingChanges > 0 && (
+        <button
+          onClick={() => retryOutboxNow()}
+          className="fixed top-3 right-3 z-50 flex items-center gap-1.5 bg-amber-100 text-amber-800 dark:bg-amber-900/60 dark:text-amber-200 border border-amber-200 dark:border-amber-800 px-3 py-1 rounded-full text-xs font-bold shadow-sm"
+          title="Toque para tentar enviar agora"
+        >
+          <CloudUpload className="w-3.5 h-3.5" />
+          {pendingChanges} {pendingChanges === 1 ? 'alteração pendente' : 'alterações pendentes'}
+        </button>
+      )}
       
       <main className="flex-1 p-4 pb-24 max-w-md mx-auto w-full mt-2">{renderTab()}</main>
       
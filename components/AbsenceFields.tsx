@@ -0,0 +1,136 @@
+import React from 'react';
+import { Camera, FileHeart, X } from 'lucide-react';
+import { AbsenceType } from '../types';
+import { Card } from './ui/Card';
+import { getAbsenceTypes, getAbsenceType, describeAbsenceType } from '../services/absences';
+
+// Falta justificada em edição no Registro Diário ('' em typeId = falta comum)
+export interface AbsenceDraft {
+  typeId: string;
+  startDate: string;
+  endDate: string;
+  includePonto: boolean;
+  photo: string | null; // data URL da foto do documento
+}
+
+interface AbsenceFieldsProps {
+  types?: AbsenceType[];
+  value: AbsenceDraft;
+  onChange: (draft: AbsenceDraft) => void;
+  allowPonto?: boolean; // o Controle de Ponto é só do empregador principal
+}
+
+// Lado maior da foto guardada: o suficiente para ler um atestado sem pesar no armazenamento do aparelho
+const MAX_PHOTO_SIZE = 1280;
+// Tamanho máximo do data URL (~300 KB): acima disso a foto é regravada com menos qualidade e depois menor,
+// para caber também no localStorage, que tem poucos MB no total
+const MAX_PHOTO_LENGTH = 400_000;
+
+// JPEG do maior tamanho e qualidade que cabem no limite
+const compressPhoto = (image: HTMLImageElement): string => {
+  let side = Math.min(MAX_PHOTO_SIZE, Math.max(image.width, image.height));
+  let dataUrl = '';
+  while (true) {
+    const scale = side / Math.max(image.width, image.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    for (const quality of [0.8, 0.6, 0.45]) {
+      dataUrl = canvas.toDataURL('image/jpeg', quality);
+      if (dataUrl.length <= MAX_PHOTO_LENGTH) return dataUrl;
+    }
+    if (side <= 480) return dataUrl;
+    side = Math.round(side * 0.75);
+  }
+};
+
+const readPhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const image = new Image();
+      image.onerror = () => reject(new Error('Imagem inválida'));
+      image.onload = () => resolve(compressPhoto(image));
+      image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+const AbsenceFields: React.FC<AbsenceFieldsProps> = ({ types, value, onChange, allowPonto = true }) => {
+  const update = (changes: Partial<AbsenceDraft>) => onChange({ ...value, ...changes });
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ photo: await readPhoto(file) });
+    } catch {
+      alert('Não foi possível ler a foto.');
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-to-br from-rose-50 to-white border-rose-200 shadow-md dark:bg-rose-950/30 dark:border-rose-900 dark:from-slate-900 dark:to-slate-900">
+      <div className="flex items-center space-x-3 mb-3 border-b border-rose-100 dark:border-rose-900 pb-3">
+        <div className="bg-rose-100 dark:bg-rose-900 p-2 rounded-full">
+          <FileHeart className="w-5 h-5 text-rose-600 dark:text-rose-300" />
+        </div>
+        <label className="block text-sm font-bold text-rose-800 dark:text-rose-200">Falta Justificada (Opcional)</label>
+      </div>
+
+      <div className="space-y-3">
+        <select
+          value={value.typeId}
+          onChange={(e) => update({ typeId: e.target.value })}
+          className="block w-full p-3 border-2 border-rose-100 dark:border-rose-900 rounded-xl bg-white dark:bg-slate-950 text-slate-900 dark:text-white"
+        >
+          <option value="">Sem justificativa</option>
+          {getAbsenceTypes(types).map(type => (
+            <option key={type.id} value={type.id}>{type.name}</option>
+          ))}
+        </select>
+
+        {value.typeId && (
+          <>
+            <p className="text-xs text-rose-700 dark:text-rose-300 font-medium">{describeAbsenceType(getAbsenceType(value.typeId, types))}</p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-bold uppercase text-rose-600 dark:text-rose-400 mb-1">De</label>
+                <input type="date" value={value.startDate} onChange={(e) => update({ startDate: e.target.value })} className="block w-full p-2 border-2 border-rose-100 dark:border-rose-900 rounded-xl bg-white dark:bg-slate-950 text-slate-900 dark:text-white" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold uppercase text-rose-600 dark:text-rose-400 mb-1">Até</label>
+                <input type="date" value={value.endDate} min={value.startDate} onChange={(e) => update({ endDate: e.target.value })} className="block w-full p-2 border-2 border-rose-100 dark:border-rose-900 rounded-xl bg-white dark:bg-slate-950 text-slate-900 dark:text-white" />
+              </div>
+            </div>
+            {allowPonto && (
+              <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                <input type="checkbox" checked={value.includePonto} onChange={(e) => update({ includePonto: e.target.checked })} />
+                Lançar também no Controle de Ponto
+              </label>
+            )}
+
+            {value.photo ? (
+              <div className="relative inline-block">
+                <img src={value.photo} alt="Documento" className="h-24 rounded-lg border border-rose-200 dark:border-rose-900" />
+                <button onClick={() => update({ photo: null })} className="absolute -top-2 -right-2 bg-white dark:bg-slate-800 rounded-full p-0.5 shadow text-rose-600" title="Remover foto">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <label className="flex items-center justify-center gap-2 p-3 border-2 border-dashed border-rose-200 dark:border-rose-900 rounded-xl text-xs font-bold text-rose-600 dark:text-rose-400 cursor-pointer">
+                <Camera className="w-4 h-4" /> Foto do documento (fica só neste aparelho)
+                <input type="file" accept="image/*" capture="environment" onChange={handlePhoto} className="hidden" />
+              </label>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default AbsenceFields;
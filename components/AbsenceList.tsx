@@ -0,0 +1,61 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileHeart, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { Absence, AbsenceType } from '../types';
+import { Card } from './ui/Card';
+import { getAbsenceType, describeAbsenceType } from '../services/absences';
+import { getAbsencePhoto } from '../services/storageService';
+
+interface AbsenceListProps {
+  absences: Absence[];
+  types?: AbsenceType[];
+  onEdit: (date: string) => void;
+  onDelete: (absence: Absence) => void;
+}
+
+const openPhoto = (dataUrl: string) => {
+  const tab = window.open();
+  if (tab) tab.document.write(`<img src="${dataUrl}" style="max-width:100%">`);
+};
+
+// Ausências justificadas lançadas, das mais recentes para as mais antigas
+const AbsenceList: React.FC<AbsenceListProps> = ({ absences, types, onEdit, onDelete }) => {
+  if (absences.length === 0) return null;
+
+  return (
+    <Card title="Ausências Justificadas">
+      <div className="space-y-2">
+        {[...absences].sort((a, b) => b.startDate.localeCompare(a.startDate)).map(absence => {
+          const type = getAbsenceType(absence.typeId, types);
+          const photo = getAbsencePhoto(absence.id);
+          return (
+            <div key={absence.id} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+              <button onClick={() => onEdit(absence.startDate)} className="flex-1 text-left min-w-0">
+                <p className="text-sm font-bold text-slate-800 dark:text-slate-200 flex items-center gap-1.5">
+                  <FileHeart className="w-4 h-4 text-rose-500 shrink-0" />
+                  {type.name}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {format(parseISO(absence.startDate), 'dd/MM/yyyy')}
+                  {absence.endDate !== absence.startDate && ` a ${format(parseISO(absence.endDate), 'dd/MM/yyyy')}`}
+                  {' · '}{describeAbsenceType(type)}
+                </p>
+                {absence.note && <p className="text-xs text-slate-400 truncate">{absence.note}</p>}
+              </button>
+              {photo && (
+                <button onClick={() => openPhoto(photo)} className="p-1 text-slate-400 hover:text-violet-600" title="Ver documento">
+                  <ImageIcon className="w-5 h-5" />
+                </button>
+              )}
+              <button onClick={() => onDelete(absence)} className="p-1 text-slate-300 hover:text-rose-600">
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default AbsenceList;
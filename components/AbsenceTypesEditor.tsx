@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AbsenceType } from '../types';
+import { Card } from './ui/Card';
+import { getAbsenceTypes, createAbsenceType } from '../services/absences';
+
+interface AbsenceTypesEditorProps {
+  types?: AbsenceType[];
+  onChange: (types: AbsenceType[]) => void;
+}
+
+const toggleClass = (on: boolean) =>
+  `w-24 py-2 rounded-lg text-xs font-bold ${on ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-300' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300'}`;
+
+const AbsenceTypesEditor: React.FC<AbsenceTypesEditorProps> = ({ types, onChange }) => {
+  const list = getAbsenceTypes(types);
+  const [name, setName] = useState('');
+
+  const updateType = (id: string, changes: Partial<AbsenceType>) => {
+    onChange(list.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onChange(createAbsenceType(list, name, true, false));
+    setName('');
+  };
+
+  const handleRemove = (type: AbsenceType) => {
+    if (list.length === 1) {
+      alert('Mantenha ao menos um tipo de ausência.');
+      return;
+    }
+    if (confirm(`Excluir o tipo "${type.name}"? Ausências já lançadas continuam com os dias e valores gravados.`)) {
+      onChange(list.filter(t => t.id !== type.id));
+    }
+  };
+
+  return (
+    <Card title="Ausências Justificadas">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Tipos de falta justificada (atestado, luto, casamento...). Pago: o dia entra no valor como dia inteiro. Banco: a jornada prevista do dia é descontada do banco de horas do ponto. As regras valem para as ausências lançadas a partir de agora.
+      </p>
+
+      <div className="space-y-2">
+        {list.map(type => (
+          <div key={type.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={type.name}
+              onChange={(e) => updateType(type.id, { name: e.target.value })}
+              className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+            />
+            <button onClick={() => updateType(type.id, { paid: !type.paid })} className={toggleClass(type.paid)}>
+              {type.paid ? 'Pago' : 'Não pago'}
+            </button>
+            <button
+              onClick={() => updateType(type.id, { countsAgainstBalance: !type.countsAgainstBalance })}
+              className={toggleClass(!type.countsAgainstBalance)}
+            >
+              {type.countsAgainstBalance ? 'Desc. banco' : 'Sem desc.'}
+            </button>
+            <button onClick={() => handleRemove(type)} className="p-1 text-slate-400 hover:text-rose-600">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Novo tipo (ex: Vestibular)"
+          className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+        />
+        <button
+          onClick={handleAdd}
+          className="p-2 bg-violet-600 text-white rounded-lg"
+          title="Adicionar tipo"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default AbsenceTypesEditor;
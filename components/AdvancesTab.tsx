@@ -2,19 +2,23 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, DollarSign, Trash2, Edit, X, ArrowDown } from 'lucide-react';
 import { format } from 'date-fns';
-import { AdvanceEntry } from '../types';
+import { AdvanceEntry, UserSettings } from '../types';
 import { getAdvances, saveAdvance, deleteAdvance } from '../services/storageService';
+import { MAIN_EMPLOYER_ID, getEmployerId, getEmployerName, hasMultipleEmployers, toEmployerField } from '../services/employers';
 import { Card } from './ui/Card';
+import EmployerSelect from './EmployerSelect';
 
 interface AdvancesTabProps {
+  settings: UserSettings;
   onUpdate: () => void;
 }
 
-const AdvancesTab: React.FC<AdvancesTabProps> = ({ onUpdate }) => {
+const AdvancesTab: React.FC<AdvancesTabProps> = ({ settings, onUpdate }) => {
   const [advances, setAdvances] = useState<AdvanceEntry[]>([]);
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [note, setNote] = useState('');
+  const [employerId, setEmployerId] = useState(MAIN_EMPLOYER_ID);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -33,7 +37,8 @@ const AdvancesTab: React.FC<AdvancesTabProps> = ({ onUpdate }) => {
       id: editingId || Date.now().toString(),
       date,
       amount: parseFloat(amount),
-      note
+      note,
+      employerId: toEmployerField(employerId)
     };
     saveAdvance(newAdvance);
     setAmount('');
@@ -49,6 +54,7 @@ const AdvancesTab: React.FC<AdvancesTabProps> = ({ onUpdate }) => {
     setAmount(item.amount.toString());
     setDate(item.date);
     setNote(item.note || '');
+    setEmployerId(getEmployerId(item));
     setShowForm(true);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -110,6 +116,7 @@ const AdvancesTab: React.FC<AdvancesTabProps> = ({ onUpdate }) => {
                         <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full p-3 border-2 rounded-xl bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-white border-slate-200 dark:border-slate-800" />
                     </div>
                 </div>
+                <EmployerSelect settings={settings} value={employerId} onChange={setEmployerId} />
                 <div>
                     <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Descrição</label>
                     <input type="text" value={note} onChange={(e) => setNote(e.target.value)} className="w-full p-3 border-2 rounded-xl bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-white border-slate-200 dark:border-slate-800" placeholder="Ex: Gasolina, Almoço..." />
@@ -136,6 +143,7 @@ const AdvancesTab: React.FC<AdvancesTabProps> = ({ onUpdate }) => {
                         <p className="font-bold text-slate-800 dark:text-white text-lg">R$ {item.amount.toFixed(2)}</p>
                         <p className="text-xs text-slate-500 dark:text-slate-500 font-medium">
                             {format(new Date(item.date + 'T00:00:00'), 'dd/MM')} {item.note && `• ${item.note}`}
+                            {hasMultipleEmployers(settings) && ` • ${getEmployerName(getEmployerId(item), settings)}`}
                         </p>
                     </div>
                 </div>
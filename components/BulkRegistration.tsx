@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { CalendarPlus, ChevronDown, ChevronUp, CheckCircle } from 'lucide-react';
+import { UserSettings, WorkEntry, WorkStatus } from '../types';
+import { Card } from './ui/Card';
+import { translateStatus } from './ReportsTab';
+import { getWorkEntries, loadRecordsFrom } from '../services/storageService';
+import { WEEKDAY_SHORT } from '../services/workSchedule';
+import {
+  BulkDay, TEMPLATE_STATUSES, buildBulkEntries, getCopyWeeks, getWorkTemplates, planCopyLastWeek, planRange, planTemplate
+} from '../services/bulkEntries';
+
+type BulkMode = 'range' | 'copy' | 'template';
+
+interface BulkRegistrationProps {
+  settings: UserSettings; // configurações do empregador (getEmployerSettings)
+  employerId: string;
+  selectedDate: string;
+  onConfirm: (entries: WorkEntry[]) => void;
+}
+
+const MODE_LABELS: Record<BulkMode, string> = {
+  range: 'Período',
+  copy: 'Copiar semana',
+  template: 'Modelo'
+};
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm';
+
+// Lançamento de vários dias de uma vez, com prévia dos dias e do valor antes de gravar
+const BulkRegistration: React.FC<BulkRegistrationProps> = ({ settings, employerId, selectedDate, onConfirm }) => {
+  const templates = getWorkTemplates(settings.workTemplates);
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<BulkMode>('range');
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [status, setStatus] = useState<WorkStatus>(WorkStatus.WORKED);
+  const [templateId, setTemplateId] = useState(templates[0].id);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [, setRecordsVersion] = useState(0);
+
+  const template = templates.find(t => t.id === templateId) ?? templates[0];
+  const workEntries = getWorkEntries();
+  const plan: BulkDay[] =
+    mode === 'range' ? planRange(startDate, endDate, status, settings, workEntries, employerId)
+      : mode === 'copy' ? planCopyLastWeek(selectedDate, settings, workEntries, employerId)
+        : planTemplate(template, startDate, endDate, settings, workEntries, employerId);
+  const confirmed = plan.filter(day => !excluded.has(day.date));
+  const total = confirmed.reduce((acc, day) => acc + day.value, 0);
+  const copyWeeks = getCopyWeeks(selectedDate);
+
+  // Dias já lançados antes do período carregado na abertura também ficam fora do lote
+  useEffect(() => {
+    loadRecordsFrom(mode === 'copy' ? copyWeeks.source.startDate : startDate).then(loaded => { if (loaded) setRecordsVersion(v => v + 1); });
+  }, [mode, startDate, selectedDate]);
+
+  // Qualquer mudança nos filtros refaz a prévia com todos os dias marcados
+  const change = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setExcluded(new Set());
+  };
+
+  const toggleDay = (date: string) => {
+    const next = new Set(excluded);
+    if (next.has(date)) next.delete(date);
+    else next.add(date);
+    setExcluded(next);
+  };
+
+  const handleConfirm = () => {
+    if (confirmed.length === 0) return;
+    onConfirm(buildBulkEntries(confirmed, settings, employerId));
+    setExcluded(new Set());
+  };
+
+  const shortDate = (date: string) => format(parseISO(date), 'dd/MM');
+
+  return (
+    <Card>
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center justify-between">
+        <span className="text-sm font-bold text-slate-800 dark:text-slate-100 flex items-center gap-1.5">
+          <CalendarPlus className="w-4 h-4 text-violet-500" /> Lançar Vários Dias
+        </span>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-3">
+          <div className="flex bg-slate-100 dark:bg-slate-800 rounded-lg p-1">
+            {(Object.keys(MODE_LABELS) as BulkMode[]).map(key => (
+              <button
+                key={key}
+                onClick={() => change(setMode)(key)}
+                className={`flex-1 py-1.5 rounded-md text-xs font-bold ${mode === key ? 'bg-white dark:bg-slate-900 text-violet-700 dark:text-violet-300 shadow-sm' : 'text-slate-500'}`}
+              >
+                {MODE_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          {mode !== 'copy' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">De</label>
+                <input type="date" value={startDate} onChange={(e) => change(setStartDate)(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Até</label>
+                <input type="date" value={endDate} min={startDate} onChange={(e) => change(setEndDate)(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+          )}
+
+          {mode === 'range' && (
+            <>
+              <select value={status} onChange={(e) => change(setStatus)(e.target.value as WorkStatus)} className={inputClass}>
+                {TEMPLATE_STATUSES.map(s => <option key={s} value={s}>{translateStatus(s)}</option>)}
+              </select>
+              <p className="text-xs text-slate-500 dark:text-slate-400">Só dias úteis (segunda a sexta com expediente na jornada, fora feriados) ainda sem registro.</p>
+            </>
+          )}
+
+          {mode === 'copy' && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Repete na semana de {shortDate(copyWeeks.target.startDate)} a {shortDate(copyWeeks.target.endDate)} os dias lançados
+              de {shortDate(copyWeeks.source.startDate)} a {shortDate(copyWeeks.source.endDate)}. Faltas e serviços extras não são copiados.
+              Para outra semana, escolha a data no topo.
+            </p>
+          )}
+
+          {mode === 'template' && (
+            <>
+              <select value={template.id} onChange={(e) => change(setTemplateId)(e.target.value)} className={inputClass}>
+                {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {WEEKDAY_SHORT.map((name, weekday) => template.days[weekday] ? `${name}: ${translateStatus(template.days[weekday]!)}` : null).filter(Boolean).join(' · ')}
+              </p>
+            </>
+          )}
+
+          {plan.length === 0 ? (
+            <p className="text-xs text-slate-500 dark:text-slate-400 italic">Nenhum dia sem registro para lançar.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-1 border border-slate-100 dark:border-slate-800 rounded-lg p-2">
+              {plan.map(day => (
+                <label key={day.date} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200">
+                  <input type="checkbox" checked={!excluded.has(day.date)} onChange={() => toggleDay(day.date)} />
+                  <span className="w-20 font-semibold">{WEEKDAY_SHORT[parseISO(day.date).getDay()]} {shortDate(day.date)}</span>
+                  <span className="flex-1">{translateStatus(day.status)}</span>
+                  <span className="font-bold">{formatMoney(day.value)}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleConfirm}
+            disabled={confirmed.length === 0}
+            className="w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 bg-violet-600 text-white disabled:bg-slate-200 disabled:text-slate-400 dark:disabled:bg-slate-800"
+          >
+            <CheckCircle className="w-4 h-4" />
+            Lançar {confirmed.length} {confirmed.length === 1 ? 'dia' : 'dias'} · {formatMoney(total)}
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default BulkRegistration;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { UserSettings } from '../types';
+import { ALL_EMPLOYERS, getEmployers, hasMultipleEmployers } from '../services/employers';
+
+interface EmployerSelectProps {
+  settings: UserSettings;
+  value: string;
+  onChange: (employerId: string) => void;
+  allowAll?: boolean; // opção "Todos" (relatórios)
+  className?: string;
+}
+
+// Seletor de empregador/contrato. Só aparece quando há mais de um cadastrado.
+const EmployerSelect: React.FC<EmployerSelectProps> = ({ settings, value, onChange, allowAll = false, className = '' }) => {
+  if (!hasMultipleEmployers(settings)) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Building2 className="w-4 h-4 text-slate-400 shrink-0" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm font-semibold text-slate-700 dark:text-slate-200"
+      >
+        {allowAll && <option value={ALL_EMPLOYERS}>Todos os empregadores</option>}
+        {getEmployers(settings).map(employer => <option key={employer.id} value={employer.id}>{employer.name}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default EmployerSelect;
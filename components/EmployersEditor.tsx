@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Building2, ChevronDown, ChevronUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { EmployerProfile, PayRule, UserSettings, WorkSchedule, WorkStatus } from '../types';
+import { Card } from './ui/Card';
+import PayRulesFields from './PayRulesFields';
+import WorkScheduleEditor from './WorkScheduleEditor';
+import { getPayRule } from '../services/payRules';
+
+interface EmployersEditorProps {
+  settings: UserSettings;
+  onChange: (employers: EmployerProfile[]) => void;
+  onCloseCycle: (employerId: string) => void;
+}
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-950';
+
+// Empregadores e contratos além do principal (que continua nos campos "Valores" e "Dados para o Relatório")
+const EmployersEditor: React.FC<EmployersEditorProps> = ({ settings, onChange, onCloseCycle }) => {
+  const employers = settings.employers || [];
+  const [name, setName] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+
+  const update = (id: string, changes: Partial<EmployerProfile>) => {
+    onChange(employers.map(e => (e.id === id ? { ...e, ...changes } : e)));
+  };
+
+  const handleRuleChange = (employer: EmployerProfile, status: WorkStatus, changes: Partial<PayRule>) => {
+    const rule = { ...getPayRule(status, { ...settings, payRules: employer.payRules }), ...changes };
+    update(employer.id, { payRules: { ...employer.payRules, [status]: rule } });
+  };
+
+  // Novo empregador começa com a diária do principal
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    const employer: EmployerProfile = { id: Date.now().toString(), name: name.trim(), dailyRate: settings.dailyRate };
+    onChange([...employers, employer]);
+    setName('');
+    setOpenId(employer.id);
+  };
+
+  const handleRemove = (employer: EmployerProfile) => {
+    if (confirm(`Excluir "${employer.name}"? Os registros lançados para ele continuam salvos e aparecem em "Todos os empregadores" nos relatórios.`)) {
+      onChange(employers.filter(e => e.id !== employer.id));
+    }
+  };
+
+  return (
+    <Card title="Empregadores e Contratos">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Para quem trabalha para mais de um contratante. Cada um tem diária, regras, jornada e ciclo de pagamento próprios, e o registro,
+        os vales e as ferramentas passam a pedir o empregador. O principal é o dos dados acima; o Controle de Ponto é dele.
+      </p>
+
+      <div className="space-y-3">
+        {employers.map(employer => {
+          const open = openId === employer.id;
+          return (
+            <div key={employer.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-3">
+              <div className="flex items-center gap-2">
+                <Building2 className="w-4 h-4 text-slate-400 shrink-0" />
+                <button onClick={() => setOpenId(open ? null : employer.id)} className="flex-1 min-w-0 flex items-center justify-between text-left">
+                  <span className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{employer.name}</span>
+                  <span className="flex items-center gap-1 text-xs text-slate-500">
+                    R$ {employer.dailyRate.toFixed(2).replace('.', ',')}
+                    {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </span>
+                </button>
+                <button onClick={() => handleRemove(employer)} className="p-1 text-slate-400 hover:text-rose-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {open && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="col-span-2">
+                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Nome</label>
+                      <input type="text" value={employer.name} onChange={(e) => update(employer.id, { name: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">CNPJ / CPF</label>
+                      <input type="text" inputMode="numeric" value={employer.document || ''} onChange={(e) => update(employer.id, { document: e.target.value || undefined })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Diária (R$)</label>
+                      <input type="number" step="0.01" value={employer.dailyRate} onChange={(e) => update(employer.id, { dailyRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                    </div>
+                  </div>
+
+                  <PayRulesFields
+                    dailyRate={employer.dailyRate}
+                    getRule={status => getPayRule(status, { ...settings, payRules: employer.payRules })}
+                    isCustom={status => !!employer.payRules?.[status]}
+                    onChange={(status, changes) => handleRuleChange(employer, status, changes)}
+                  />
+
+                  <div className="flex items-end gap-2">
+                    <div className="flex-1">
+                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Início do ciclo atual</label>
+                      <input
+                        type="date"
+                        value={employer.billingCycleStartDate || ''}
+                        onChange={(e) => update(employer.id, { billingCycleStartDate: e.target.value || undefined })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <button onClick={() => onCloseCycle(employer.id)} className="p-2 bg-emerald-600 text-white rounded-lg text-xs font-bold flex items-center gap-1">
+                      <RotateCcw className="w-4 h-4" /> Encerrar ciclo
+                    </button>
+                  </div>
+
+                  <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={!!employer.workSchedules}
+                      onChange={(e) => update(employer.id, { workSchedules: e.target.checked ? [] : undefined })}
+                    />
+                    Jornada própria (dias úteis do lançamento em lote)
+                  </label>
+                  {employer.workSchedules && (
+                    <button onClick={() => setScheduleId(scheduleId === employer.id ? null : employer.id)} className="text-xs font-bold text-violet-600 dark:text-violet-400">
+                      {scheduleId === employer.id ? 'Fechar jornada' : 'Editar jornada'}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {open && employer.workSchedules && scheduleId === employer.id && (
+                <WorkScheduleEditor
+                  title={`Jornada · ${employer.name}`}
+                  schedules={employer.workSchedules}
+                  onChange={(workSchedules: WorkSchedule[]) => update(employer.id, { workSchedules })}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Novo empregador (ex: Construtora XYZ)"
+          className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+        />
+        <button onClick={handleAdd} className="p-2 bg-violet-600 text-white rounded-lg" title="Adicionar empregador">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default EmployersEditor;
@@ -2,19 +2,23 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, ShoppingBag, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
-import { ExpenseEntry } from '../types';
+import { ExpenseEntry, UserSettings } from '../types';
 import { getExpenses, saveExpense, deleteExpense } from '../services/storageService';
+import { getProjectName, toProjectField } from '../services/projects';
 import { Card } from './ui/Card';
+import ProjectSelect from './ProjectSelect';
 
 interface ExpensesTabProps {
+  settings: UserSettings;
   onUpdate: () => void;
 }
 
-const ExpensesTab: React.FC<ExpensesTabProps> = ({ onUpdate }) => {
+const ExpensesTab: React.FC<ExpensesTabProps> = ({ settings, onUpdate }) => {
   const [expenses, setExpenses] = useState<ExpenseEntry[]>([]);
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [note, setNote] = useState('');
+  const [projectId, setProjectId] = useState('');
   const [showForm, setShowForm] = useState(false);
 
   useEffect(() => {
@@ -33,7 +37,8 @@ const ExpensesTab: React.FC<ExpensesTabProps> = ({ onUpdate }) => {
       id: Date.now().toString(),
       date,
       amount: parseFloat(amount),
-      note
+      note,
+      projectId: toProjectField(projectId)
     };
 
     saveExpense(newExpense);
@@ -105,6 +110,8 @@ const ExpensesTab: React.FC<ExpensesTabProps> = ({ onUpdate }) => {
                 />
             </div>
 
+            <ProjectSelect settings={settings} value={projectId} onChange={setProjectId} />
+
             <button
               onClick={handleAdd}
               className="w-full bg-orange-600 text-white py-3 rounded-lg font-semibold shadow hover:bg-orange-700 transition-colors"
@@ -132,6 +139,7 @@ const ExpensesTab: React.FC<ExpensesTabProps> = ({ onUpdate }) => {
                         <p className="font-bold text-slate-800 dark:text-white">R$ {item.amount.toFixed(2)}</p>
                         <p className="text-xs text-slate-500 dark:text-slate-400">
                             {format(new Date(item.date + 'T00:00:00'), 'dd/MM/yyyy')} {item.note && `• ${item.note}`}
+                            {getProjectName(item.projectId, settings) && ` • ${getProjectName(item.projectId, settings)}`}
                         </p>
                     </div>
                 </div>
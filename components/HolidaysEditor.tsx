@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { CustomHoliday, UserSettings } from '../types';
+import { Card } from './ui/Card';
+import { getHolidays, getHolidayPremiumPercent, HOLIDAY_KIND_LABELS } from '../services/holidays';
+
+type HolidaySettings = Pick<UserSettings, 'customHolidays' | 'optionalHolidays' | 'holidayPremiumPercent'>;
+
+interface HolidaysEditorProps {
+  settings: UserSettings;
+  onChange: (changes: HolidaySettings) => void;
+}
+
+const inputClass = 'p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-950';
+
+const HolidaysEditor: React.FC<HolidaysEditorProps> = ({ settings, onChange }) => {
+  const custom = settings.customHolidays || [];
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [recurring, setRecurring] = useState(true);
+  const year = new Date().getFullYear();
+  const holidays = getHolidays(year, settings);
+
+  const handleAdd = () => {
+    if (!date || !name.trim()) return;
+    const holiday: CustomHoliday = { id: Date.now().toString(), date, name: name.trim(), recurring };
+    onChange({ customHolidays: [...custom, holiday].sort((a, b) => a.date.localeCompare(b.date)) });
+    setDate('');
+    setName('');
+  };
+
+  const handleRemove = (holiday: CustomHoliday) => {
+    if (confirm(`Excluir o feriado "${holiday.name}"? Os dias já registrados não mudam.`)) {
+      onChange({ customHolidays: custom.filter(h => h.id !== holiday.id) });
+    }
+  };
+
+  const describeDate = (holiday: CustomHoliday) =>
+    holiday.recurring ? `${format(parseISO(holiday.date), 'dd/MM')} · todo ano` : format(parseISO(holiday.date), 'dd/MM/yyyy');
+
+  return (
+    <Card title="Feriados">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Feriados nacionais e móveis são calculados no aparelho. Em feriado a jornada prevista é zero e o dia trabalhado recebe o adicional abaixo.
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <label className="text-sm font-medium text-slate-700 dark:text-slate-300">Adicional por trabalho em feriado (%)</label>
+          <input
+            type="number"
+            min={0}
+            value={getHolidayPremiumPercent(settings)}
+            onChange={(e) => onChange({ holidayPremiumPercent: Math.max(0, Number(e.target.value) || 0) })}
+            className={`${inputClass} w-24 text-right`}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={settings.optionalHolidays !== false}
+            onChange={(e) => onChange({ optionalHolidays: e.target.checked })}
+          />
+          Considerar pontos facultativos (Carnaval e Corpus Christi)
+        </label>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+        <p className="text-xs font-bold text-slate-500 uppercase mb-2">Feriados estaduais e municipais</p>
+        {custom.length === 0 ? (
+          <p className="text-xs text-slate-500 dark:text-slate-400 italic mb-2">Nenhum cadastrado.</p>
+        ) : (
+          <div className="space-y-1 mb-2">
+            {custom.map(holiday => (
+              <div key={holiday.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                <span className="w-32 text-xs font-semibold">{describeDate(holiday)}</span>
+                <span className="flex-1 min-w-0 truncate">{holiday.name}</span>
+                <button onClick={() => handleRemove(holiday)} className="p-1 text-slate-400 hover:text-rose-600">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClass} w-36`} />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome (ex: Aniversário da cidade)"
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <button onClick={handleAdd} className="p-2 bg-fuchsia-600 text-white rounded-lg" title="Adicionar feriado">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400 mt-2">
+          <input type="checkbox" checked={recurring} onChange={(e) => setRecurring(e.target.checked)} />
+          Repete todo ano na mesma data
+        </label>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+        <p className="text-xs font-bold text-slate-500 uppercase mb-2">Feriados de {year}</p>
+        <div className="space-y-1">
+          {holidays.map(holiday => (
+            <div key={`${holiday.date}-${holiday.name}`} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200">
+              <span className="w-12 font-semibold">{format(parseISO(holiday.date), 'dd/MM')}</span>
+              <span className="flex-1 min-w-0 truncate">{holiday.name}</span>
+              <span className="text-[10px] text-slate-400">{HOLIDAY_KIND_LABELS[holiday.kind]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default HolidaysEditor;
@@ -1,20 +1,34 @@
 
-import React, { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, CheckCircle, XCircle, Save, Clock, PlusCircle, Hammer, Coffee } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Calendar as CalendarIcon, CheckCircle, XCircle, Save, Clock, PlusCircle, Hammer, Coffee, Fingerprint, PartyPopper } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { WorkEntry, WorkStatus, UserSettings } from '../types';
-import { saveWorkEntry, getWorkEntries } from '../services/storageService';
+import { WorkEntry, WorkStatus, UserSettings, Absence } from '../types';
+import { saveWorkEntry, getWorkEntries, getPontoEntries, getAbsences, saveAbsence, deleteAbsence, getAbsencePhoto, saveAbsencePhoto, loadRecordsFrom } from '../services/storageService';
+import { calculateDayValueOn, getDailyRateOn, WORKING_STATUSES } from '../services/payRules';
+import { getHoliday, getHolidayPremiumPercent } from '../services/holidays';
+import { getAbsenceDays } from '../services/absences';
+import { suggestWorkStatus, isSameWorkGroup } from '../services/reconciliation';
 import { Card } from './ui/Card';
+import AbsenceFields, { AbsenceDraft } from './AbsenceFields';
+import AbsenceList from './AbsenceList';
+import MonthCalendar, { CalendarTarget } from './MonthCalendar';
+import BulkRegistration from './BulkRegistration';
+import { translateStatus } from './ReportsTab';
+import EmployerSelect from './EmployerSelect';
+import ProjectSelect from './ProjectSelect';
+import { toProjectField } from '../services/projects';
+import { MAIN_EMPLOYER_ID, getEmployerId, getEmployerSettings, getWorkEntryId, toEmployerField } from '../services/employers';
 
 interface HomeTabProps {
   settings: UserSettings;
   onUpdate: () => void;
   initialDate?: string | null;
   onClearInitialDate?: () => void;
+  onOpenPonto?: (date: string) => void;
 }
 
-const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onClearInitialDate }) => {
+const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onClearInitialDate, onOpenPonto }) => {
   const [selectedDate, setSelectedDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
   const [status, setStatus] = useState<WorkStatus | null>(null);
   const [note, setNote] = useState('');
@@ -27,6 +41,23 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
   const [isSaved, setIsSaved] = useState(false);
   const [hasExistingEntry, setHasExistingEntry] = useState(false);
 
+  // Empregador do registro: valores pela diária e regras dele
+  const [employerId, setEmployerId] = useState(MAIN_EMPLOYER_ID);
+  const employerSettings = getEmployerSettings(settings, employerId);
+
+  // Obra do dia trabalhado ou do serviço extra. Fica selecionada de um dia para o outro.
+  const [projectId, setProjectId] = useState('');
+  const takesProject = (dayStatus: WorkStatus | null) =>
+    !dayStatus || dayStatus === WorkStatus.EXTRA_SERVICE || WORKING_STATUSES.includes(dayStatus);
+
+  // Falta justificada: ausência sendo editada (o dia selecionado faz parte dela) e os campos do formulário
+  const [absences, setAbsences] = useState<Absence[]>(getAbsences());
+  const [editingAbsenceId, setEditingAbsenceId] = useState<string | null>(null);
+  const emptyAbsenceDraft = (date: string): AbsenceDraft => ({
+    typeId: '', startDate: date, endDate: date, includePonto: getPontoEntries().length > 0, photo: null
+  });
+  const [absenceDraft, setAbsenceDraft] = useState<AbsenceDraft>(emptyAbsenceDraft(selectedDate));
+
   // Se receber uma data para editar vinda do relatório, atualiza o estado
   useEffect(() => {
     if (initialDate) {
@@ -37,7 +68,14 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
     }
   }, [initialDate, onClearInitialDate]);
 
+  // Dia mais antigo que os carregados na abertura: lê os registros a partir dele e recarrega o formulário
+  const [recordsVersion, setRecordsVersion] = useState(0);
+  useEffect(() => {
+    loadRecordsFrom(selectedDate).then(loaded => { if (loaded) setRecordsVersion(v => v + 1); });
+  }, [selectedDate]);
+
   // Load existing entry for selected date
+  const loadedDate = useRef<string | null>(null);
   useEffect(() => {
     // Só busca registro existente se NÃO for serviço extra (pois serviço extra não vincula com dia único)
     if (status === WorkStatus.EXTRA_SERVICE) {
@@ -45,13 +83,29 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
         return;
     }
 
-    const entries = getWorkEntries();
-    const entry = entries.find(e => e.date === selectedDate);
+    // Cada empregador tem o seu registro do dia
+    const dayEntries = getWorkEntries().filter(e => e.date === selectedDate && e.status !== WorkStatus.EXTRA_SERVICE);
+    const entry = dayEntries.find(e => getEmployerId(e) === employerId);
+    const dateChanged = loadedDate.current !== selectedDate;
+    loadedDate.current = selectedDate;
+    // Ao trocar de dia, abre o registro de outro empregador se o selecionado não tiver registro nesse dia
+    if (!entry && dateChanged && dayEntries.length > 0) {
+      setEmployerId(getEmployerId(dayEntries[0]));
+      return;
+    }
     
+    // Dia lançado por uma ausência justificada: edita a ausência inteira
+    const absence = entry?.absenceId ? getAbsences().find(a => a.id === entry.absenceId) : undefined;
+    setEditingAbsenceId(absence?.id ?? null);
+    setAbsenceDraft(absence
+      ? { typeId: absence.typeId, startDate: absence.startDate, endDate: absence.endDate, includePonto: !!absence.includePonto, photo: getAbsencePhoto(absence.id) }
+      : emptyAbsenceDraft(selectedDate));
+
     // Se encontrar um registro que NÃO seja serviço extra na data selecionada
-    if (entry && entry.status !== WorkStatus.EXTRA_SERVICE) {
+    if (entry) {
       setStatus(entry.status);
-      setNote(entry.note || '');
+      setProjectId(entry.projectId ?? '');
+      setNote(absence ? absence.note || '' : entry.note || '');
       setOvertime(entry.overtimeValue ? entry.overtimeValue.toString() : '');
       setHasExistingEntry(true);
     } else if (!entry) {
@@ -66,12 +120,56 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
        setHasExistingEntry(false);
     }
     setIsSaved(false);
-  }, [selectedDate]); // Removemos 'status' da dependência para evitar loop, controlamos na lógica interna
+  }, [selectedDate, employerId, recordsVersion]); // Removemos 'status' da dependência para evitar loop, controlamos na lógica interna
+
+  // Falta justificada: grava a ausência, que lança cada dia previsto do intervalo
+  const handleSaveAbsence = async () => {
+    const { typeId, startDate, endDate, includePonto, photo } = absenceDraft;
+    if (!startDate || !endDate || endDate < startDate) {
+      alert('Informe um período válido para a ausência.');
+      return;
+    }
+    const absence: Absence = { id: editingAbsenceId || Date.now().toString(), typeId, startDate, endDate, includePonto, employerId: toEmployerField(employerId) };
+    if (note.trim()) absence.note = note.trim();
+    if (getAbsenceDays(absence, settings).length === 0) {
+      alert('Nenhum dia com expediente previsto nesse período.');
+      return;
+    }
+
+    await saveAbsence(absence);
+    saveAbsencePhoto(absence.id, photo);
+    setAbsences(getAbsences());
+    setEditingAbsenceId(absence.id);
+    setIsSaved(true);
+    setHasExistingEntry(true);
+    onUpdate();
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleDeleteAbsence = async (absence: Absence) => {
+    if (!confirm('Excluir esta ausência? Os dias lançados por ela também serão apagados (no ponto, os horários registrados continuam).')) return;
+    await deleteAbsence(absence.id);
+    setAbsences(getAbsences());
+    if (absence.id === editingAbsenceId) {
+      setEditingAbsenceId(null);
+      setStatus(null);
+      setNote('');
+      setHasExistingEntry(false);
+      setAbsenceDraft(emptyAbsenceDraft(selectedDate));
+    }
+    onUpdate();
+  };
 
   const handleSave = () => {
     if (!status) return;
+    if (status === WorkStatus.MISSED && absenceDraft.typeId) {
+      handleSaveAbsence();
+      return;
+    }
 
-    let rateToSave = settings.dailyRate;
+    let rateToSave = getDailyRateOn(selectedDate, employerSettings, employerId);
+    // Valor do dia conforme a regra de pagamento do empregador em vigor na data para o status
+    let valueToSave = calculateDayValueOn(status, selectedDate, employerSettings, employerId);
     
     // Se for serviço extra, o valor do snapshot é o valor digitado
     if (status === WorkStatus.EXTRA_SERVICE) {
@@ -80,20 +178,20 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
             return;
         }
         rateToSave = parseFloat(serviceValue);
-    } else if (status === WorkStatus.SATURDAY_FULL) {
-        rateToSave = 125;
-    } else if (status === WorkStatus.SUNDAY) {
-        rateToSave = 150;
+        valueToSave = rateToSave;
     }
 
     const entry: WorkEntry = {
-      id: status === WorkStatus.EXTRA_SERVICE ? Date.now().toString() : selectedDate, // ID único para serviços
+      id: status === WorkStatus.EXTRA_SERVICE ? Date.now().toString() : getWorkEntryId(selectedDate, employerId), // ID único para serviços
       date: selectedDate,
       status,
       note,
       dailyRateSnapshot: rateToSave,
+      valueSnapshot: valueToSave,
       overtimeValue: (status === WorkStatus.WORKED || status === WorkStatus.HALF_DAY) && overtime ? parseFloat(overtime) : undefined,
-      serviceTitle: status === WorkStatus.EXTRA_SERVICE ? serviceTitle : undefined
+      serviceTitle: status === WorkStatus.EXTRA_SERVICE ? serviceTitle : undefined,
+      employerId: toEmployerField(employerId),
+      projectId: takesProject(status) ? toProjectField(projectId) : undefined
     };
 
     saveWorkEntry(entry);
@@ -114,6 +212,44 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
     setTimeout(() => setIsSaved(false), 2000);
   };
 
+  const formatDayValue = (dayStatus: WorkStatus) => {
+    const value = calculateDayValueOn(dayStatus, selectedDate, employerSettings, employerId);
+    return `${value > 0 ? '+ ' : ''}R$ ${value.toFixed(2).replace('.', ',')}`;
+  };
+
+  // Lançamento em lote: os dias confirmados na prévia (todos ainda sem registro)
+  const handleBulkConfirm = (bulkEntries: WorkEntry[]) => {
+    bulkEntries.forEach(entry => saveWorkEntry({
+      ...entry,
+      projectId: takesProject(entry.status) ? toProjectField(projectId) : undefined
+    }));
+    const selected = bulkEntries.find(e => e.date === selectedDate);
+    if (selected) {
+      setStatus(selected.status);
+      setHasExistingEntry(true);
+    }
+    onUpdate();
+    alert(`${bulkEntries.length} ${bulkEntries.length === 1 ? 'dia lançado' : 'dias lançados'}.`);
+  };
+
+  // Calendário do mês: o dia abre aqui mesmo ou no Controle de Ponto
+  const handleOpenDay = (date: string, target: CalendarTarget) => {
+    if (target === 'ponto') {
+      if (onOpenPonto) onOpenPonto(date);
+      return;
+    }
+    setSelectedDate(date);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Feriado na data: dia sem trabalho é "Feriado" e o trabalho recebe o adicional configurado
+  const holiday = getHoliday(selectedDate, settings);
+
+  // Status sugerido pelas marcações do Controle de Ponto no dia selecionado
+  const pontoDay = getPontoEntries().find(e => e.date === selectedDate);
+  const pontoSuggestion = pontoDay && status !== WorkStatus.EXTRA_SERVICE ? suggestWorkStatus(pontoDay, settings) : null;
+  const contradictsPonto = !!(pontoSuggestion && status && !isSameWorkGroup(status, pontoSuggestion));
+
   // FIX: Adiciona T00:00:00 para garantir a interpretação do fuso horário local em vez de UTC
   const formattedDateDisplay = format(new Date(selectedDate + 'T00:00:00'), "EEEE, d 'de' MMMM", { locale: ptBR });
 
@@ -149,6 +285,38 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
         </div>
       )}
 
+      <EmployerSelect settings={settings} value={employerId} onChange={setEmployerId} />
+
+      {takesProject(status) && <ProjectSelect settings={settings} value={projectId} onChange={setProjectId} />}
+
+      {holiday && status !== WorkStatus.EXTRA_SERVICE && (
+        <div className="flex items-center gap-2 p-3 rounded-xl border text-xs font-medium bg-fuchsia-50 border-fuchsia-200 text-fuchsia-800 dark:bg-fuchsia-950/30 dark:border-fuchsia-900 dark:text-fuchsia-200">
+          <PartyPopper className="w-4 h-4 shrink-0" />
+          <span>
+            Feriado: <strong>{holiday.name}</strong>
+            {getHolidayPremiumPercent(settings) > 0 && ` · trabalho no dia com adicional de ${getHolidayPremiumPercent(settings)}%`}
+          </span>
+        </div>
+      )}
+
+      {pontoSuggestion && (
+        <div className={`flex items-center justify-between gap-2 p-3 rounded-xl border text-xs font-medium ${
+          contradictsPonto
+            ? 'bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-950/30 dark:border-amber-900 dark:text-amber-200'
+            : 'bg-sky-50 border-sky-200 text-sky-800 dark:bg-sky-950/30 dark:border-sky-900 dark:text-sky-200'
+        }`}>
+          <span className="flex items-center gap-1.5">
+            <Fingerprint className="w-4 h-4 shrink-0" />
+            {contradictsPonto ? 'O ponto do dia indica' : 'Pelo ponto do dia'}: <strong>{translateStatus(pontoSuggestion)}</strong>
+          </span>
+          {status !== pontoSuggestion && (
+            <button onClick={() => setStatus(pontoSuggestion)} className="px-2 py-1 bg-white dark:bg-slate-900 rounded-lg border border-current font-bold">
+              Usar
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-3">
         {/* Full Day */}
         <button
@@ -164,7 +332,7 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
           </div>
           <span className="font-bold text-base">Dia Inteiro</span>
           <span className="text-xs font-bold bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200 px-3 py-1 rounded-full">
-            + R$ {settings.dailyRate}
+            {formatDayValue(WorkStatus.WORKED)}
           </span>
         </button>
 
@@ -182,7 +350,7 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
            </div>
           <span className="font-bold text-base">Meio Período</span>
           <span className="text-xs font-bold bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 px-3 py-1 rounded-full">
-            + R$ {settings.dailyRate / 2}
+            {formatDayValue(WorkStatus.HALF_DAY)}
           </span>
         </button>
 
@@ -205,7 +373,7 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
            </div>
           <span className="font-bold text-base">Folga</span>
           <span className="text-xs font-bold bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300 px-3 py-1 rounded-full">
-            R$ 0,00
+            {formatDayValue(WorkStatus.DAY_OFF)}
           </span>
         </button>
 
@@ -228,7 +396,7 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
            </div>
           <span className="font-bold text-base">Falta</span>
           <span className="text-xs font-bold bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200 px-3 py-1 rounded-full">
-            R$ 0,00
+            {formatDayValue(WorkStatus.MISSED)}
           </span>
         </button>
 
@@ -246,7 +414,7 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
            </div>
           <span className="font-bold text-base">Sábado Dia Inteiro</span>
           <span className="text-xs font-bold bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200 px-3 py-1 rounded-full">
-            + R$ 125,00
+            {formatDayValue(WorkStatus.SATURDAY_FULL)}
           </span>
         </button>
 
@@ -264,10 +432,31 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
            </div>
           <span className="font-bold text-base">Domingo</span>
           <span className="text-xs font-bold bg-emerald-100 text-emerald-800 dark:bg-emerald-900 dark:text-emerald-200 px-3 py-1 rounded-full">
-            + R$ 150,00
+            {formatDayValue(WorkStatus.SUNDAY)}
           </span>
         </button>
 
+        {/* Holiday - só em feriado (ou registro já salvo como feriado) */}
+        {(holiday || status === WorkStatus.HOLIDAY) && (
+          <button
+            onClick={() => {
+              setStatus(WorkStatus.HOLIDAY);
+              setOvertime('');
+            }}
+            className={`col-span-2 p-4 rounded-2xl border-2 flex flex-row items-center justify-center space-x-4 transition-all duration-300 ${
+              status === WorkStatus.HOLIDAY
+                ? 'border-fuchsia-500 bg-fuchsia-50 text-fuchsia-700 shadow-lg shadow-fuchsia-100 transform scale-[1.02] dark:bg-fuchsia-900/20 dark:text-fuchsia-300 dark:border-fuchsia-500 dark:shadow-none'
+                : 'border-slate-100 bg-white text-slate-500 hover:border-fuchsia-200 hover:bg-fuchsia-50/50 hover:text-fuchsia-600 dark:bg-slate-900 dark:border-slate-800 dark:text-slate-400 dark:hover:bg-slate-800'
+            }`}
+          >
+            <PartyPopper className="w-6 h-6" />
+            <span className="font-bold text-base">Feriado (sem trabalho)</span>
+            <span className="text-xs font-bold bg-fuchsia-100 text-fuchsia-800 dark:bg-fuchsia-900 dark:text-fuchsia-200 px-3 py-1 rounded-full">
+              {formatDayValue(WorkStatus.HOLIDAY)}
+            </span>
+          </button>
+        )}
+
         {/* Extra Service - Full Width Row */}
         <button
           onClick={() => {
@@ -343,6 +532,12 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
          </div>
       )}
 
+      {status === WorkStatus.MISSED && (
+        <div className="animate-in fade-in slide-in-from-top-4 duration-300">
+          <AbsenceFields types={settings.absenceTypes} value={absenceDraft} onChange={setAbsenceDraft} allowPonto={employerId === MAIN_EMPLOYER_ID} />
+        </div>
+      )}
+
       {/* Overtime Section - Only show if worked or half day */}
       {(status === WorkStatus.WORKED || status === WorkStatus.HALF_DAY) && (
         <div className="animate-in fade-in slide-in-from-top-4 duration-300">
@@ -411,6 +606,17 @@ const HomeTab: React.FC<HomeTabProps> = ({ settings, onUpdate, initialDate, onCl
           </>
         )}
       </button>
+
+      <BulkRegistration settings={employerSettings} employerId={employerId} selectedDate={selectedDate} onConfirm={handleBulkConfirm} />
+
+      <MonthCalendar settings={settings} selectedDate={selectedDate} onOpenDay={handleOpenDay} />
+
+      <AbsenceList
+        absences={absences}
+        types={settings.absenceTypes}
+        onEdit={setSelectedDate}
+        onDelete={handleDeleteAbsence}
+      />
     </div>
   );
 };
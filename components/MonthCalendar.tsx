@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO, addMonths, subMonths, startOfMonth, startOfWeek } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ChevronLeft, ChevronRight, CalendarDays, Clock, Home } from 'lucide-react';
+import { UserSettings, WorkEntry, WorkStatus } from '../types';
+import { getWorkEntries, getPontoEntries, getAdvances, getTools, loadRecordsFrom } from '../services/storageService';
+import { buildMonthCalendar, CalendarDay } from '../services/calendar';
+import { formatMinutesToHuman } from '../services/calculations';
+import { WEEKDAY_SHORT } from '../services/workSchedule';
+import { Card } from './ui/Card';
+import { describeWorkEntry } from './ReportsTab';
+
+export type CalendarTarget = 'home' | 'ponto';
+
+interface MonthCalendarProps {
+  settings: UserSettings;
+  selectedDate: string;
+  onOpenDay: (date: string, target: CalendarTarget) => void;
+}
+
+const STATUS_STYLES: Record<WorkStatus, string> = {
+  [WorkStatus.WORKED]: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200',
+  [WorkStatus.HALF_DAY]: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  [WorkStatus.MISSED]: 'bg-rose-100 text-rose-800 dark:bg-rose-900/50 dark:text-rose-200',
+  [WorkStatus.DAY_OFF]: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+  [WorkStatus.SATURDAY_FULL]: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/50 dark:text-indigo-200',
+  [WorkStatus.SUNDAY]: 'bg-teal-100 text-teal-800 dark:bg-teal-900/50 dark:text-teal-200',
+  [WorkStatus.HOLIDAY]: 'bg-fuchsia-100 text-fuchsia-800 dark:bg-fuchsia-900/50 dark:text-fuchsia-200',
+  [WorkStatus.EXTRA_SERVICE]: 'bg-violet-100 text-violet-800 dark:bg-violet-900/50 dark:text-violet-200'
+};
+
+// Falta justificada: mesma cor da falta, mais clara
+const JUSTIFIED_STYLE = 'bg-rose-50 text-rose-500 border border-dashed border-rose-300 dark:bg-rose-950/30 dark:text-rose-300 dark:border-rose-800';
+
+const dayStyle = (day: CalendarDay): string => {
+  if (day.work) return day.work.absenceId ? JUSTIFIED_STYLE : STATUS_STYLES[day.work.status];
+  if (day.missing) return 'bg-white text-slate-600 border-2 border-dashed border-rose-300 dark:bg-slate-900 dark:text-slate-300 dark:border-rose-800';
+  return 'bg-slate-50 text-slate-600 dark:bg-slate-800/50 dark:text-slate-300';
+};
+
+const signedMinutes = (minutes: number) => `${minutes < 0 ? '-' : '+'}${formatMinutesToHuman(Math.abs(minutes))}`;
+
+// Saldo curto para caber na célula: -25m, +1h, -2h10
+const compactMinutes = (minutes: number) => {
+  const abs = Math.abs(minutes);
+  const rest = abs % 60;
+  const text = abs < 60 ? `${abs}m` : `${Math.floor(abs / 60)}h${rest ? String(rest).padStart(2, '0') : ''}`;
+  return `${minutes < 0 ? '-' : '+'}${text}`;
+};
+
+const sumAmounts = (list: { amount: number }[]) => list.reduce((acc, item) => acc + item.amount, 0);
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+const serviceLabel = (entry: WorkEntry) => entry.serviceTitle || 'Serviço extra';
+
+// Mês em grade: cor do registro diário, saldo do ponto e marcadores de vales, ferramentas e serviços extras.
+// Dias úteis já passados sem nenhum registro ficam tracejados.
+const MonthCalendar: React.FC<MonthCalendarProps> = ({ settings, selectedDate, onOpenDay }) => {
+  const [month, setMonth] = useState(() => startOfMonth(parseISO(selectedDate)));
+  const [focusDate, setFocusDate] = useState<string | null>(null);
+  const [, setRecordsVersion] = useState(0);
+
+  // Mês mais antigo que os carregados na abertura: redesenha quando os registros chegarem
+  useEffect(() => {
+    loadRecordsFrom(format(startOfWeek(month), 'yyyy-MM-dd')).then(loaded => { if (loaded) setRecordsVersion(v => v + 1); });
+  }, [month]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const days = buildMonthCalendar(month, {
+    workEntries: getWorkEntries(),
+    pontoEntries: getPontoEntries(),
+    advances: getAdvances(),
+    tools: getTools()
+  }, settings, today);
+  const missingCount = days.filter(d => d.inMonth && d.missing).length;
+  const focused = days.find(d => d.date === focusDate);
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between mb-3">
+        <button onClick={() => setMonth(subMonths(month, 1))} className="p-1 text-slate-400 hover:text-violet-600">
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <h2 className="text-sm font-bold text-slate-800 dark:text-slate-100 capitalize flex items-center gap-1.5">
+          <CalendarDays className="w-4 h-4 text-violet-500" />
+          {format(month, "MMMM 'de' yyyy", { locale: ptBR })}
+        </h2>
+        <button onClick={() => setMonth(addMonths(month, 1))} className="p-1 text-slate-400 hover:text-violet-600">
+          <ChevronRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_SHORT.map(name => (
+          <span key={name} className="text-[10px] font-bold uppercase text-slate-400">{name}</span>
+        ))}
+        {days.map(day => (
+          <button
+            key={day.date}
+            onClick={() => setFocusDate(day.date)}
+            className={`relative h-12 rounded-lg flex flex-col items-center justify-start pt-1 text-xs font-bold transition-all ${dayStyle(day)} ${
+              day.inMonth ? '' : 'opacity-40'
+            } ${day.date === (focusDate ?? selectedDate) ? 'ring-2 ring-violet-500' : ''}`}
+          >
+            <span className={`${day.date === today ? 'underline' : ''} ${day.holiday && !day.work ? 'text-fuchsia-600 dark:text-fuchsia-400' : ''}`}>
+              {parseISO(day.date).getDate()}
+            </span>
+            {day.saldoMinutos !== null && day.saldoMinutos !== 0 && (
+              <span className={`text-[8px] leading-none mt-0.5 ${day.saldoMinutos < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-700 dark:text-emerald-300'}`}>
+                {compactMinutes(day.saldoMinutos)}
+              </span>
+            )}
+            <span className="absolute bottom-1 flex gap-0.5">
+              {day.holiday && <span className="w-1.5 h-1.5 rounded-full bg-fuchsia-500" />}
+              {day.ponto && <span className="w-1.5 h-1.5 rounded-full bg-sky-500" />}
+              {day.extraServices.length > 0 && <span className="w-1.5 h-1.5 rounded-full bg-violet-500" />}
+              {day.advances.length > 0 && <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />}
+              {day.tools.length > 0 && <span className="w-1.5 h-1.5 rounded-full bg-slate-500" />}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3 text-[10px] text-slate-500 dark:text-slate-400">
+        <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-fuchsia-500" /> Feriado</span>
+        <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-sky-500" /> Ponto</span>
+        <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-violet-500" /> Serviço extra</span>
+        <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-amber-500" /> Vale</span>
+        <span className="flex items-center gap-1"><span className="w-1.5 h-1.5 rounded-full bg-slate-500" /> Ferramenta</span>
+        {missingCount > 0 && (
+          <span className="text-rose-600 dark:text-rose-400 font-bold">{missingCount} {missingCount === 1 ? 'dia útil sem registro' : 'dias úteis sem registro'}</span>
+        )}
+      </div>
+
+      {focused && (
+        <div className="mt-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-1 text-xs text-slate-600 dark:text-slate-300">
+          <p className="font-bold text-slate-800 dark:text-slate-100 capitalize">
+            {format(parseISO(focused.date), "EEEE, d 'de' MMMM", { locale: ptBR })}
+          </p>
+          {focused.holiday && <p className="text-fuchsia-700 dark:text-fuchsia-300 font-semibold">Feriado: {focused.holiday.name}</p>}
+          <p>Registro: {focused.work ? describeWorkEntry(focused.work) : focused.missing ? 'nenhum (dia útil sem registro)' : 'nenhum'}</p>
+          {focused.ponto && (
+            <p>Ponto: {focused.ponto.intervals.length} {focused.ponto.intervals.length === 1 ? 'intervalo' : 'intervalos'} · saldo {signedMinutes(focused.saldoMinutos ?? 0)}</p>
+          )}
+          {focused.extraServices.map(entry => (
+            <p key={entry.id}>{serviceLabel(entry)}: {formatMoney(entry.dailyRateSnapshot)}</p>
+          ))}
+          {focused.advances.length > 0 && <p>Vales: {formatMoney(sumAmounts(focused.advances))}</p>}
+          {focused.tools.length > 0 && <p>Ferramentas: {focused.tools.map(t => t.name).join(', ')} ({formatMoney(sumAmounts(focused.tools))})</p>}
+          <div className="flex gap-2 pt-2">
+            <button onClick={() => onOpenDay(focused.date, 'home')} className="flex-1 flex items-center justify-center gap-1 py-2 bg-violet-600 text-white rounded-lg font-bold">
+              <Home className="w-3.5 h-3.5" /> Registro
+            </button>
+            <button onClick={() => onOpenDay(focused.date, 'ponto')} className="flex-1 flex items-center justify-center gap-1 py-2 bg-indigo-600 text-white rounded-lg font-bold">
+              <Clock className="w-3.5 h-3.5" /> Ponto
+            </button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default MonthCalendar;
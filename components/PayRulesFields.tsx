@@ -0,0 +1,46 @@
+import React from 'react';
+import { PayRule, PayRuleType, WorkStatus } from '../types';
+import { translateStatus } from './ReportsTab';
+import { applyPayRule, CONFIGURABLE_STATUSES } from '../services/payRules';
+
+interface PayRulesFieldsProps {
+  dailyRate: number;
+  getRule: (status: WorkStatus) => PayRule;
+  isCustom?: (status: WorkStatus) => boolean; // destaca os status com regra própria
+  onChange: (status: WorkStatus, changes: Partial<PayRule>) => void;
+}
+
+const inputClass = 'p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900';
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Regras de pagamento em forma compacta (reajustes e empregadores adicionais)
+const PayRulesFields: React.FC<PayRulesFieldsProps> = ({ dailyRate, getRule, isCustom, onChange }) => (
+  <div className="space-y-1">
+    {CONFIGURABLE_STATUSES.map(status => {
+      const rule = getRule(status);
+      return (
+        <div key={status} className="grid grid-cols-[1fr_auto_5rem_5rem] items-center gap-2">
+          <span className={`text-xs ${isCustom?.(status) ? 'font-bold text-violet-700 dark:text-violet-300' : 'text-slate-600 dark:text-slate-300'}`}>
+            {translateStatus(status)}
+          </span>
+          <select value={rule.type} onChange={(e) => onChange(status, { type: e.target.value as PayRuleType })} className={inputClass}>
+            <option value="fixed">Fixo</option>
+            <option value="multiplier">× Diária</option>
+            <option value="hourly">Por hora</option>
+          </select>
+          <input
+            type="number"
+            step="0.01"
+            value={rule.value}
+            onChange={(e) => onChange(status, { value: parseFloat(e.target.value) || 0 })}
+            className={inputClass}
+          />
+          <span className="text-[10px] font-bold text-emerald-600 dark:text-emerald-400 text-right">{formatMoney(applyPayRule(rule, dailyRate))}</span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default PayRulesFields;
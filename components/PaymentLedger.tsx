@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Banknote, Plus, Trash2 } from 'lucide-react';
+import { EmployerProfile, PaymentEntry, PaymentMethod } from '../types';
+import { Card } from './ui/Card';
+import { CycleBalance, PAYMENT_METHOD_LABELS } from '../services/payments';
+import { toEmployerField } from '../services/employers';
+import { roundCurrency } from '../services/calculations';
+
+export interface EmployerLedger {
+  employer: EmployerProfile;
+  rows: CycleBalance[]; // do ciclo mais antigo ao atual
+}
+
+interface PaymentLedgerProps {
+  ledgers: EmployerLedger[];
+  showEmployer: boolean;
+  onSave: (payment: PaymentEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2)}`;
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm';
+
+const rowKey = (employerId: string, row: CycleBalance) => row.cycle?.id ?? `atual:${employerId}`;
+
+const rowPeriod = (row: CycleBalance) =>
+  row.endDate
+    ? `${format(parseISO(row.startDate), 'dd/MM/yy')} a ${format(parseISO(row.endDate), 'dd/MM/yy')}`
+    : `Ciclo atual, desde ${format(parseISO(row.startDate), 'dd/MM/yy')}`;
+
+// positivo = a receber, negativo = recebido a mais
+const balanceColor = (value: number) =>
+  value > 0 ? 'text-amber-600 dark:text-amber-400' : value < 0 ? 'text-sky-600 dark:text-sky-400' : 'text-emerald-600 dark:text-emerald-400';
+
+// Extrato de pagamentos: o que cada ciclo rendeu, o que foi recebido e o saldo que passa para o seguinte
+const PaymentLedger: React.FC<PaymentLedgerProps> = ({ ledgers, showEmployer, onSave, onDelete }) => {
+  // Ciclos atuais primeiro, depois os encerrados do mais novo ao mais antigo
+  const options = ledgers
+    .flatMap(({ employer, rows }) => rows.map(row => ({ key: rowKey(employer.id, row), employer, row })))
+    .sort((a, b) => Number(!!a.row.endDate) - Number(!!b.row.endDate) || b.row.startDate.localeCompare(a.row.startDate));
+  const [target, setTarget] = useState('');
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+  const [note, setNote] = useState('');
+
+  // Sem escolha, o pagamento vai para o ciclo mais recente com saldo a receber
+  const selected = options.find(o => o.key === target) ?? options.find(o => o.row.balance > 0) ?? options[0];
+  const openTotal = roundCurrency(ledgers.reduce((acc, { rows }) => acc + rows[rows.length - 1].carriedIn, 0));
+
+  const handleAdd = () => {
+    if (!selected || !date) return;
+    // Valor em branco = quitar o saldo do ciclo escolhido
+    const value = amount ? parseFloat(amount.replace(',', '.')) : selected.row.balance;
+    if (!value || value <= 0) return;
+    onSave({
+      id: Date.now().toString(),
+      date,
+      amount: value,
+      method,
+      cycleId: selected.row.cycle?.id,
+      employerId: toEmployerField(selected.employer.id),
+      note: note.trim() || undefined
+    });
+    setAmount('');
+    setNote('');
+  };
+
+  const handleDelete = (payment: PaymentEntry) => {
+    if (confirm(`Excluir o pagamento de ${formatMoney(payment.amount)} de ${format(parseISO(payment.date), 'dd/MM/yyyy')}?`)) onDelete(payment.id);
+  };
+
+  return (
+    <Card title="Em aberto">
+      <div className="flex justify-between items-end mb-1">
+        <p className="text-xs text-slate-500 dark:text-slate-400">Saldo dos ciclos encerrados</p>
+        <p className={`text-xl font-extrabold ${balanceColor(openTotal)}`}>{formatMoney(openTotal)}</p>
+      </div>
+      <p className="text-[11px] text-slate-400 mb-3">
+        {openTotal > 0 ? 'Ainda a receber; soma ao ciclo atual.' : openTotal < 0 ? 'Recebido a mais; desconta do ciclo atual.' : 'Tudo recebido.'}
+      </p>
+      {showEmployer && (
+        <div className="space-y-1 mb-3">
+          {ledgers.map(({ employer, rows }) => (
+            <div key={employer.id} className="flex justify-between text-sm">
+              <span className="text-slate-600 dark:text-slate-300">{employer.name}</span>
+              <span className={`font-bold ${balanceColor(rows[rows.length - 1].carriedIn)}`}>{formatMoney(rows[rows.length - 1].carriedIn)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {options.map(({ key, employer, row }) => (
+          <div key={key} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+            <div className="flex justify-between items-start mb-2">
+              <div>
+                <p className="text-xs font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-wider">{rowPeriod(row)}</p>
+                {showEmployer && <p className="text-xs text-slate-500">{employer.name}</p>}
+              </div>
+              <span className={`text-sm font-bold ${balanceColor(row.balance)}`}>{formatMoney(row.balance)}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center text-xs">
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase">Saldo anterior</p>
+                <p className="font-bold text-slate-600 dark:text-slate-300">{formatMoney(row.carriedIn)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase">Líquido</p>
+                <p className="font-bold text-slate-600 dark:text-slate-300">{formatMoney(row.total)}</p>
+              </div>
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase">Recebido</p>
+                <p className="font-bold text-emerald-600 dark:text-emerald-400">{formatMoney(row.paid)}</p>
+              </div>
+            </div>
+            {row.payments.length > 0 && (
+              <div className="mt-2 pt-2 border-t border-slate-200 dark:border-slate-700 space-y-1">
+                {row.payments.map(payment => (
+                  <div key={payment.id} className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-500 shrink-0">{format(parseISO(payment.date), 'dd/MM/yy')}</span>
+                    <select
+                      value={payment.method}
+                      onChange={(e) => onSave({ ...payment, method: e.target.value as PaymentMethod })}
+                      className="min-w-0 bg-transparent text-slate-600 dark:text-slate-300 font-semibold"
+                    >
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                    </select>
+                    <span className="flex-1 min-w-0 truncate text-slate-400">{payment.note}</span>
+                    <span className="font-bold text-emerald-600 dark:text-emerald-400 shrink-0">{formatMoney(payment.amount)}</span>
+                    <button onClick={() => handleDelete(payment)} className="p-1 text-slate-300 hover:text-rose-600">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 space-y-2">
+        <p className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1.5"><Banknote className="w-4 h-4" /> Registrar pagamento</p>
+        <select value={selected ? selected.key : ''} onChange={(e) => setTarget(e.target.value)} className={inputClass}>
+          {options.map(({ key, employer, row }) => (
+            <option key={key} value={key}>{showEmployer ? `${employer.name} · ${rowPeriod(row)}` : rowPeriod(row)}</option>
+          ))}
+        </select>
+        <div className="grid grid-cols-3 gap-2">
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+          <input
+            type="number"
+            step="0.01"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={selected && selected.row.balance > 0 ? selected.row.balance.toFixed(2) : 'Valor'}
+            className={inputClass}
+          />
+          <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)} className={inputClass}>
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Observação (opcional)" className={inputClass} />
+          <button onClick={handleAdd} className="p-2 bg-emerald-600 text-white rounded-lg shrink-0" title="Registrar pagamento">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default PaymentLedger;
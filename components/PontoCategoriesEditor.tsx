@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { PontoCategory } from '../types';
+import { Card } from './ui/Card';
+import { getPontoCategories, createPontoCategory } from '../services/pontoCategories';
+
+interface PontoCategoriesEditorProps {
+  categories?: PontoCategory[];
+  onChange: (categories: PontoCategory[]) => void;
+}
+
+const PontoCategoriesEditor: React.FC<PontoCategoriesEditorProps> = ({ categories, onChange }) => {
+  const list = getPontoCategories(categories);
+  const [name, setName] = useState('');
+  const [paid, setPaid] = useState(false);
+
+  const updateCategory = (id: string, changes: Partial<PontoCategory>) => {
+    onChange(list.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onChange(createPontoCategory(list, name, paid));
+    setName('');
+    setPaid(false);
+  };
+
+  const handleRemove = (category: PontoCategory) => {
+    if (list.length === 1) {
+      alert('Mantenha ao menos uma categoria.');
+      return;
+    }
+    if (confirm(`Excluir a categoria "${category.name}"? Dias que já usam essa categoria continuam com os minutos, contados como desconto.`)) {
+      onChange(list.filter(c => c.id !== category.id));
+    }
+  };
+
+  return (
+    <Card title="Ajustes do Ponto">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Categorias para lançar minutos fora dos atrasos (buscar filho, médico, banco...). Abonado: os minutos contam como tempo trabalhado. Descontado: os minutos saem do saldo do banco de horas.
+      </p>
+
+      <div className="space-y-2">
+        {list.map(category => (
+          <div key={category.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={category.name}
+              onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+              className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+            />
+            <button
+              onClick={() => updateCategory(category.id, { paid: !category.paid })}
+              className={`w-24 py-2 rounded-lg text-xs font-bold ${category.paid ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-300' : 'bg-amber-100 text-amber-700 dark:bg-amber-950/60 dark:text-amber-300'}`}
+            >
+              {category.paid ? 'Abonado' : 'Descontado'}
+            </button>
+            <button onClick={() => handleRemove(category)} className="p-1 text-slate-400 hover:text-rose-600">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nova categoria (ex: Curso)"
+          className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+        />
+        <label className="flex items-center gap-1.5 text-xs text-slate-500">
+          <input type="checkbox" checked={paid} onChange={(e) => setPaid(e.target.checked)} />
+          Abonado
+        </label>
+        <button
+          onClick={handleAdd}
+          className="p-2 bg-violet-600 text-white rounded-lg"
+          title="Adicionar categoria"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default PontoCategoriesEditor;
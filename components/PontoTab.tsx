@@ -1,197 +1,113 @@
 import React, { useState, useEffect } from 'react';
-import { Clock, Calendar as CalendarIcon, Save, RotateCcw, Trash2, HelpCircle, Info, TrendingDown, TrendingUp, CheckCircle, FileText, Download, Calculator, DollarSign, UserCheck } from 'lucide-react';
+import { Clock, Fingerprint, FileCode, Calendar as CalendarIcon, Save, Archive, Trash2, HelpCircle, Info, TrendingDown, TrendingUp, CheckCircle, FileText, Download, Calculator, DollarSign, UserCheck } from 'lucide-react';
 import { format, parseISO, addDays, differenceInDays } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { PontoEntry } from '../types';
-import { getPontoEntries, savePontoEntry, deletePontoEntry, getSettings } from '../services/storageService';
+import { PontoEntry, PontoInterval, PontoMark, PontoAdjustment, DaySchedule, TimeBankArchive, TimeBankTransaction, UserSettings, WorkEntry } from '../types';
+import { getPontoEntries, savePontoEntry, deletePontoEntry, getSettings, saveSettings, getTimeBankArchives, saveTimeBankArchive, deleteTimeBankArchive, getTimeBankTransactions, saveTimeBankTransaction, deleteTimeBankTransaction, getAbsences, getWorkEntries, saveWorkEntry, deleteWorkEntry, loadRecordsFrom } from '../services/storageService';
+import { getAbsenceType } from '../services/absences';
+import { getHoliday } from '../services/holidays';
+import { calculateDayDetails, calculateEntryDetails, buildPontoEntry, summarizePonto, formatMinutesToHuman, roundCurrency } from '../services/calculations';
+import { getScheduleForDate, describeWeek, describeDaySchedule, dayScheduleMinutes, getMinuteRate, getTolerance, describeTolerance } from '../services/workSchedule';
+import { getNextMark, getEditedMarks, applyPunch, describeInterval, punchTime, getPunchDate, PONTO_MARKS } from '../services/pontoPunches';
+import { getPontoCategories, normalizeAdjustments } from '../services/pontoCategories';
+import { buildTimeBankLedger } from '../services/timeBank';
+import { reconcileWorkAndPonto, syncWorkEntryFromPonto, buildWorkEntryFromPonto, ReconciliationIssue } from '../services/reconciliation';
+import { buildOfficialFile, toLatin1Bytes, OfficialFileKind, OfficialFileResult } from '../services/afdAejService';
+import { getWorkEntryId } from '../services/employers';
 import { Card } from './ui/Card';
+import TimeBankArchives from './TimeBankArchives';
+import TimeBankLedger from './TimeBankLedger';
+import WorkPontoReconciliation from './WorkPontoReconciliation';
+import MonthCalendar, { CalendarTarget } from './MonthCalendar';
 
 interface PontoTabProps {
   onUpdate?: () => void;
+  onSettingsChange?: (settings: UserSettings) => void;
+  initialDate?: string | null;
+  onClearInitialDate?: () => void;
+  onOpenRegistro?: (date: string) => void;
 }
 
-const TARGET_MORNING = '08:00';
-const TARGET_LUNCH_OUT = '12:00';
-const TARGET_LUNCH_IN = '13:30';
-const TARGET_AFTERNOON_OUT = '17:00';
-const DAILY_RATE = 75.0; // R$ 75,00 por dia
-const TARGET_DAILY_MINUTES = 450; // 7h 30min
-const RATE_PER_MINUTE = DAILY_RATE / TARGET_DAILY_MINUTES; // R$ 0,166666...
-
-const parseTimeToMinutes = (timeStr: string): number => {
-  if (!timeStr) return 0;
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  return (hours || 0) * 60 + (minutes || 0);
-};
-
-const formatMinutesToHuman = (totalMinutes: number): string => {
-  const absMinutes = Math.abs(totalMinutes);
-  const hours = Math.floor(absMinutes / 60);
-  const minutes = absMinutes % 60;
-  let res = '';
-  if (hours > 0) {
-    res += `${hours}h `;
-  }
-  res += `${minutes}min`;
-  return res;
-};
-
-export interface DayCalculationDetails {
-  jornadaPrevista: number; // 450 min
-  tempoRegistrado: number; // minutos trabalhados
-  atrasoEntrada: number;
-  atrasoSaidaAlmoco: number;
-  atrasoVoltaAlmoco: number;
-  atrasoSaidaTarde: number;
-  atrasos: number; // soma dos atrasos
-  buscarFilho: number; // schoolMinutes
-  creditoPermanencia: number; // tempo alem das 17:00
-  tempoConsiderado: number; // tempoRegistrado - atrasos - buscarFilho
-  saldoMinutos: number; // creditoPermanencia - atrasos - buscarFilho
-  descontoDia: number; // valor em R$ de desconto
-  explicacao: string;
+// Período de uma exportação (PDF, AFD/AEJ)
+interface ExportPeriod {
+  startDate: Date;
+  endDate: Date;
+  referenceLabel: string;
+  fileNameSuffix: string;
 }
 
-export const calculateDayDetails = (
-  mArrival: string,
-  mExit: string,
-  aArrival: string,
-  aExit: string,
-  schoolMin: number = 0
-): DayCalculationDetails => {
-  const targetMArr = parseTimeToMinutes(TARGET_MORNING); // 480 (08:00)
-  const targetMExt = parseTimeToMinutes(TARGET_LUNCH_OUT); // 720 (12:00)
-  const targetAArr = parseTimeToMinutes(TARGET_LUNCH_IN); // 810 (13:30)
-  const targetAExt = parseTimeToMinutes(TARGET_AFTERNOON_OUT); // 1020 (17:00)
-
-  // Tempo registrado bruto (tempo trabalhado de manha + tempo trabalhado a tarde)
-  let morningWorked = 0;
-  if (mArrival && mExit) {
-    morningWorked = Math.max(0, parseTimeToMinutes(mExit) - parseTimeToMinutes(mArrival));
-  }
-  
-  let afternoonWorked = 0;
-  if (aArrival && aExit) {
-    afternoonWorked = Math.max(0, parseTimeToMinutes(aExit) - parseTimeToMinutes(aArrival));
-  }
-  
-  const tempoRegistrado = morningWorked + afternoonWorked;
-
-  // Atrasos e saídas antecipadas
-  let atrasoEntrada = 0;
-  let atrasoSaidaAlmoco = 0;
-  let creditoManhaEntrada = 0;
-  let creditoManhaSaida = 0;
-
-  if (mArrival) {
-    const arr = parseTimeToMinutes(mArrival);
-    atrasoEntrada = Math.max(0, arr - targetMArr);
-    creditoManhaEntrada = Math.max(0, targetMArr - arr);
-  }
-
-  if (mExit) {
-    const ext = parseTimeToMinutes(mExit);
-    atrasoSaidaAlmoco = Math.max(0, targetMExt - ext);
-    creditoManhaSaida = Math.max(0, ext - targetMExt);
-  }
-
-  let atrasoVoltaAlmoco = 0;
-  let atrasoSaidaTarde = 0;
-  let creditoTardeEntrada = 0;
-  let creditoTardeSaida = 0;
-
-  if (aArrival) {
-    const arr = parseTimeToMinutes(aArrival);
-    atrasoVoltaAlmoco = Math.max(0, arr - targetAArr);
-    creditoTardeEntrada = Math.max(0, targetAArr - arr);
-  }
-
-  if (aExit) {
-    const ext = parseTimeToMinutes(aExit);
-    atrasoSaidaTarde = Math.max(0, targetAExt - ext);
-    creditoTardeSaida = Math.max(0, ext - targetAExt);
-  }
-
-  const atrasos = atrasoEntrada + atrasoSaidaAlmoco + atrasoVoltaAlmoco + atrasoSaidaTarde;
-  const buscarFilho = Math.max(0, schoolMin || 0);
-
-  // Crédito de permanência (tempo extra trabalhado além dos horários previstos da jornada)
-  const creditoPermanencia = creditoManhaEntrada + creditoManhaSaida + creditoTardeEntrada + creditoTardeSaida;
-
-  // Tempo considerado para pagamento = Tempo registrado - Buscar filho (atrasos já não estão no tempo registrado)
-  const tempoConsiderado = Math.max(0, tempoRegistrado - buscarFilho);
-
-  // Saldo do banco de horas no dia = Créditos - Atrasos - Buscar filho
-  const saldoMinutos = creditoPermanencia - atrasos - buscarFilho;
-
-  let expectedMinutes = 0;
-  if (mArrival || mExit) {
-    expectedMinutes += (targetMExt - targetMArr); // 240 min (Manhã)
-  }
-  if (aArrival || aExit) {
-    expectedMinutes += (targetAExt - targetAArr); // 210 min (Tarde)
-  }
-
-  // Desconto financeiro do dia = Calculado com base no saldo devedor do banco de horas
-  const missingMinutes = Math.max(0, expectedMinutes - tempoConsiderado);
-  const descontoDia = saldoMinutos < 0 ? Math.abs(saldoMinutos) * RATE_PER_MINUTE : 0;
-
-  // Texto explicativo
-  let explicacao = `Saldo do Banco: +${creditoPermanencia}m (crédito permanência) - ${atrasos}m (atrasos) - ${buscarFilho}m (buscar filho) = ${saldoMinutos < 0 ? `-${Math.abs(saldoMinutos)} min` : `+${saldoMinutos} min`}. `;
-  if (saldoMinutos < 0) {
-    explicacao += `Saldo devedor de ${Math.abs(saldoMinutos)}m, gerando desconto diário de R$ ${descontoDia.toFixed(2).replace('.', ',')}.`;
-  } else {
-    explicacao += `Saldo em dia ou positivo. Sem descontos financeiros no salário.`;
-  }
-
-  return {
-    jornadaPrevista: expectedMinutes,
-    tempoRegistrado,
-    atrasoEntrada,
-    atrasoSaidaAlmoco,
-    atrasoVoltaAlmoco,
-    atrasoSaidaTarde,
-    atrasos,
-    buscarFilho,
-    creditoPermanencia,
-    tempoConsiderado,
-    saldoMinutos,
-    descontoDia,
-    explicacao
-  };
-};
+// Intervalos sugeridos para um dia sem registro: os períodos previstos pela jornada
+const scheduledIntervals = (day: DaySchedule | null): PontoInterval[] =>
+  day
+    ? [{ start: day.morningStart, end: day.morningEnd }, { start: day.afternoonStart, end: day.afternoonEnd }]
+        .filter(i => i.start && i.end)
+    : [];
 
-const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
+const PontoTab: React.FC<PontoTabProps> = ({ onUpdate, onSettingsChange, initialDate, onClearInitialDate, onOpenRegistro }) => {
   const [selectedDate, setSelectedDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
   const [pdfFilterType, setPdfFilterType] = useState<'month' | 'period'>('month');
   const [selectedPdfMonth, setSelectedPdfMonth] = useState<string>(format(new Date(), 'yyyy-MM'));
   const [pdfStartDate, setPdfStartDate] = useState<string>(format(new Date(new Date().getFullYear(), new Date().getMonth(), 1), 'yyyy-MM-dd'));
   const [pdfEndDate, setPdfEndDate] = useState<string>(format(new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0), 'yyyy-MM-dd'));
-  const [morningArrival, setMorningArrival] = useState<string>('08:00');
-  const [morningExit, setMorningExit] = useState<string>('12:00');
-  const [afternoonArrival, setAfternoonArrival] = useState<string>('13:30');
-  const [afternoonExit, setAfternoonExit] = useState<string>('17:00');
-  const [schoolMinutes, setSchoolMinutes] = useState<number>(0);
+  const schedules = getSettings().workSchedules;
+  const pontoCategories = getSettings().pontoCategories;
+  // Jornada vigente na data selecionada (horários alvo e valor do minuto); feriado é folga prevista
+  const selectedHoliday = getHoliday(selectedDate, getSettings());
+  const dayTarget = getScheduleForDate(selectedDate, schedules, !!selectedHoliday);
+  const [intervals, setIntervals] = useState<PontoInterval[]>(scheduledIntervals(dayTarget.day));
+  const [adjustments, setAdjustments] = useState<PontoAdjustment[]>([]);
   const [isSaved, setIsSaved] = useState(false);
   const [entries, setEntries] = useState<PontoEntry[]>(getPontoEntries());
+  const [entryMode, setEntryMode] = useState<'punch' | 'manual'>('manual');
+  const [clock, setClock] = useState<Date>(new Date());
+  const [officialExport, setOfficialExport] = useState<OfficialFileResult | null>(null);
+  const [punchLabel, setPunchLabel] = useState<string>('');
+  const [archives, setArchives] = useState<TimeBankArchive[]>(getTimeBankArchives());
+  const [closingDate, setClosingDate] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<TimeBankTransaction[]>(getTimeBankTransactions());
+  const [workEntries, setWorkEntries] = useState<WorkEntry[]>(getWorkEntries());
+  // Banco de horas atual: pontos a partir do dia seguinte ao último fechamento
+  const timeBankStart = getSettings().timeBankStartDate || '';
+
+  // Banco de horas (sem fechamento: desde o primeiro ponto), dia selecionado e período dos relatórios
+  // podem ser mais antigos que os registros carregados na abertura
+  useEffect(() => {
+    const reportStart = pdfFilterType === 'month' ? `${selectedPdfMonth}-01` : pdfStartDate;
+    loadRecordsFrom([timeBankStart, selectedDate, reportStart].sort()[0]).then(loaded => {
+      if (!loaded) return;
+      setEntries(getPontoEntries());
+      setWorkEntries(getWorkEntries());
+    });
+  }, [timeBankStart, selectedDate, pdfFilterType, selectedPdfMonth, pdfStartDate]);
+
+  // Data vinda do calendário do Registro Diário
+  useEffect(() => {
+    if (initialDate) {
+      setEntryMode('manual');
+      setSelectedDate(initialDate);
+      if (onClearInitialDate) onClearInitialDate();
+    }
+  }, [initialDate, onClearInitialDate]);
+
+  // Relógio do modo "Bater ponto"
+  useEffect(() => {
+    if (entryMode !== 'punch') return;
+    setSelectedDate(getPunchDate(entries, new Date()));
+    const timer = setInterval(() => setClock(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [entryMode]);
 
   // Carrega registro existente na data selecionada
   useEffect(() => {
     const existingEntry = entries.find(e => e.date === selectedDate);
     if (existingEntry) {
-      setMorningArrival(existingEntry.morningArrival !== undefined ? existingEntry.morningArrival : '08:00');
-      setMorningExit(existingEntry.morningExit !== undefined ? existingEntry.morningExit : '12:00');
-      setAfternoonArrival(existingEntry.afternoonArrival !== undefined ? existingEntry.afternoonArrival : '13:30');
-      setAfternoonExit(existingEntry.afternoonExit !== undefined ? existingEntry.afternoonExit : '17:00');
-      setSchoolMinutes(existingEntry.schoolMinutes || 0);
+      setIntervals(existingEntry.intervals);
+      setAdjustments(existingEntry.adjustments || []);
     } else {
-      setMorningArrival('08:00');
-      setMorningExit('12:00');
-      setAfternoonArrival('13:30');
-      setAfternoonExit('17:00');
-      setSchoolMinutes(0);
+      setIntervals(scheduledIntervals(dayTarget.day));
+      setAdjustments([]);
     }
     setIsSaved(false);
   }, [selectedDate, entries]);
@@ -199,87 +115,248 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
   const refreshEntries = () => {
     const fresh = getPontoEntries();
     setEntries(fresh);
+    setWorkEntries(getWorkEntries());
     if (onUpdate) onUpdate();
   };
 
-  const handleSave = () => {
-    const details = calculateDayDetails(
-      morningArrival,
-      morningExit,
-      afternoonArrival,
-      afternoonExit,
-      schoolMinutes
+  // Monta o registro do dia com os desvios calculados pela jornada vigente na data
+  // (mantém a ausência justificada do dia; em feriado todo o trabalho vira crédito)
+  const buildEntry = (date: string, dayIntervals: PontoInterval[], dayAdjustments: PontoAdjustment[]): PontoEntry =>
+    buildPontoEntry(
+      date, dayIntervals, dayAdjustments, schedules, pontoCategories,
+      entries.find(e => e.date === date)?.absence, getHoliday(date, getSettings())?.name
     );
 
-    const totalDelay = (details.atrasos + details.buscarFilho) - details.creditoPermanencia;
-    const valueEquivalent = details.descontoDia;
-
-    const entry: PontoEntry = {
-      id: selectedDate,
-      date: selectedDate,
-      morningArrival,
-      morningExit,
-      afternoonArrival,
-      afternoonExit,
-      morningDelay: details.atrasoEntrada,
-      morningExitDelay: details.atrasoSaidaAlmoco,
-      afternoonDelay: details.atrasoVoltaAlmoco,
-      afternoonExitDelay: details.atrasoSaidaTarde,
-      schoolMinutes,
-      totalDelay,
-      valueEquivalent
-    };
+  // Registro diário acompanhando o ponto do dia, quando a opção estiver ligada
+  const syncWorkDay = (entry: PontoEntry) => {
+    const settings = getSettings();
+    if (!settings.autoWorkEntryFromPonto) return;
+    const workEntry = syncWorkEntryFromPonto(entry, settings, getWorkEntries());
+    if (workEntry) saveWorkEntry(workEntry);
+  };
+
+  // Edição dos intervalos do formulário (as batidas originais de cada intervalo vão junto)
+  const updateInterval = (index: number, changes: Partial<PontoInterval>) => {
+    setIntervals(prev => prev.map((interval, i) => (i === index ? { ...interval, ...changes } : interval)));
+  };
+
+  const addInterval = () => {
+    // Novo intervalo começa onde o último terminou
+    const last = intervals[intervals.length - 1];
+    setIntervals([...intervals, { start: last?.end || '', end: '' }]);
+  };
+
+  const removeInterval = (index: number) => {
+    if (intervals[index].punches && !confirm('Este intervalo tem batidas do relógio. Remover mesmo assim?')) return;
+    setIntervals(intervals.filter((_, i) => i !== index));
+  };
+
+  const updateAdjustment = (index: number, changes: Partial<PontoAdjustment>) => {
+    setAdjustments(prev => prev.map((adjustment, i) => (i === index ? { ...adjustment, ...changes } : adjustment)));
+  };
+
+  const handleSave = () => {
+    // Correção manual: as batidas originais continuam guardadas em cada intervalo.
+    // Intervalos totalmente vazios são descartados; os demais ficam na ordem digitada, que é a que vale para
+    // o turno noturno (ordenar pelo texto "HH:MM" poria 03:00 antes de 22:00).
+    const cleaned = intervals
+      .filter(i => i.start || i.end || i.punches)
+      .map(({ label, ...rest }) => (label?.trim() ? { ...rest, label: label.trim() } : rest));
+    const entry = buildEntry(selectedDate, cleaned, normalizeAdjustments(adjustments));
 
     savePontoEntry(entry);
+    syncWorkDay(entry);
     setIsSaved(true);
     refreshEntries();
     setTimeout(() => setIsSaved(false), 2000);
   };
 
+  // Bater ponto: fecha o intervalo aberto ou abre um novo com o horário do aparelho (turno noturno fica no dia em que começou)
+  const handlePunch = () => {
+    const now = new Date();
+    const today = getPunchDate(entries, now);
+    const existingEntry = entries.find(e => e.date === today);
+    const punched = applyPunch(existingEntry?.intervals || [], now.toISOString(), punchLabel);
+
+    const entry = buildEntry(today, punched, existingEntry?.adjustments || []);
+    savePontoEntry(entry);
+    syncWorkDay(entry);
+    setPunchLabel('');
+    setSelectedDate(today);
+    refreshEntries();
+  };
+
   const handleDelete = (id: string) => {
     deletePontoEntry(id);
+    // O registro diário criado pelo ponto (do principal, id pela data do ponto) sai junto; os lançados à mão ficam
+    const workId = getWorkEntryId(id);
+    if (workEntries.find(e => e.id === workId)?.fromPonto) deleteWorkEntry(workId);
+    refreshEntries();
+  };
+
+  // Encerra o banco de horas: guarda uma cópia dos pontos e do saldo até a data escolhida
+  // e recomeça o banco no dia seguinte. Nenhum ponto é apagado.
+  const handleCloseTimeBank = () => {
+    if (!closingDate) return;
+    if (timeBankStart && closingDate < timeBankStart) {
+      alert(`O banco atual começa em ${format(parseISO(timeBankStart), 'dd/MM/yyyy')}. Escolha uma data a partir dela.`);
+      return;
+    }
+    const bankEntries = entries.filter(e => e.date >= timeBankStart && e.date <= closingDate);
+    if (bankEntries.length === 0) {
+      alert('Nenhum ponto no banco de horas até essa data.');
+      return;
+    }
+    const bankTransactions = transactions.filter(t => t.date >= timeBankStart && t.date <= closingDate);
+    const settings = getSettings();
+    const summary = summarizePonto(bankEntries, schedules, pontoCategories);
+    const ledger = buildTimeBankLedger(bankEntries, bankTransactions, {
+      schedules, categories: pontoCategories, policy: settings.timeBankPolicy, until: closingDate
+    });
+    saveTimeBankArchive({
+      id: Date.now().toString(),
+      startDate: timeBankStart || bankEntries.map(e => e.date).sort()[0],
+      endDate: closingDate,
+      closedAt: new Date().toISOString(),
+      entries: bankEntries,
+      transactions: bankTransactions,
+      balanceMinutes: ledger.saldo,
+      discountValue: summary.desconto,
+      workerName: settings.workerName,
+      employerName: settings.employerName
+    });
+
+    const newSettings = { ...settings, timeBankStartDate: format(addDays(parseISO(closingDate), 1), 'yyyy-MM-dd') };
+    saveSettings(newSettings);
+    if (onSettingsChange) onSettingsChange(newSettings);
+    setArchives(getTimeBankArchives());
+    setClosingDate(null);
+    refreshEntries();
+    alert(`Banco de horas encerrado em ${format(parseISO(closingDate), 'dd/MM/yyyy')}. Os pontos continuam no histórico e o fechamento pode ser consultado e reexportado abaixo.`);
+  };
+
+  const handleAddTransaction = (transaction: TimeBankTransaction) => {
+    saveTimeBankTransaction(transaction);
+    setTransactions(getTimeBankTransactions());
+  };
+
+  const handleDeleteTransaction = (id: string) => {
+    deleteTimeBankTransaction(id);
+    setTransactions(getTimeBankTransactions());
+  };
+
+  // Calendário do mês: o dia abre aqui mesmo ou no Registro Diário
+  const handleOpenDay = (date: string, target: CalendarTarget) => {
+    if (target === 'home') {
+      if (onOpenRegistro) onOpenRegistro(date);
+      return;
+    }
+    setEntryMode('manual');
+    setSelectedDate(date);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleToggleAutoWorkEntry = (enabled: boolean) => {
+    const newSettings = { ...getSettings(), autoWorkEntryFromPonto: enabled };
+    saveSettings(newSettings);
+    if (onSettingsChange) onSettingsChange(newSettings);
     refreshEntries();
   };
 
-  const handleResetTimeBank = () => {
-    entries.forEach(e => deletePontoEntry(e.id));
+  // Conciliação: grava no registro diário o status sugerido pelo ponto
+  const handleApplySuggestion = (issue: ReconciliationIssue) => {
+    if (!issue.suggested) return;
+    saveWorkEntry(buildWorkEntryFromPonto(issue.date, issue.suggested, getSettings(), issue.work));
     refreshEntries();
   };
 
-  const handleDownloadPdf = () => {
-    let startDate: Date;
-    let endDate: Date;
-    let referenceLabel: string;
-    let fileNameSuffix: string;
+  const handleDeleteArchive = (id: string) => {
+    deleteTimeBankArchive(id);
+    setArchives(getTimeBankArchives());
+  };
+
+  // Período de um banco encerrado, para reexportar com os pontos arquivados
+  const getArchivePeriod = (archive: TimeBankArchive): ExportPeriod => {
+    const startDate = parseISO(archive.startDate);
+    const endDate = parseISO(archive.endDate);
+    return {
+      startDate,
+      endDate,
+      referenceLabel: `BANCO ENCERRADO: ${format(startDate, 'dd/MM/yyyy')} ATÉ ${format(endDate, 'dd/MM/yyyy')}`,
+      fileNameSuffix: `banco_${format(startDate, 'dd-MM-yyyy')}_a_${format(endDate, 'dd-MM-yyyy')}`
+    };
+  };
 
+  // Período escolhido no cartão de exportação (mês ou intervalo), usado pelo PDF e pelos arquivos AFD/AEJ
+  const getExportPeriod = (): ExportPeriod | null => {
     if (pdfFilterType === 'month') {
-      if (!selectedPdfMonth) return;
+      if (!selectedPdfMonth) return null;
       const [yearStr, monthStr] = selectedPdfMonth.split('-');
       const yearInt = parseInt(yearStr, 10);
       const monthInt = parseInt(monthStr, 10);
-      startDate = new Date(yearInt, monthInt - 1, 1);
-      endDate = new Date(yearInt, monthInt, 0); // Last day of month
-      referenceLabel = format(startDate, "MMMM 'de' yyyy", { locale: ptBR }).toUpperCase();
-      fileNameSuffix = selectedPdfMonth;
-    } else {
-      if (!pdfStartDate || !pdfEndDate) return;
-      startDate = parseISO(pdfStartDate);
-      endDate = parseISO(pdfEndDate);
-      if (startDate > endDate) {
-        alert('Data inicial deve ser anterior à data final.');
-        return;
-      }
-      referenceLabel = `${format(startDate, 'dd/MM/yyyy')} ATÉ ${format(endDate, 'dd/MM/yyyy')}`;
-      fileNameSuffix = `${format(startDate, 'dd-MM-yyyy')}_a_${format(endDate, 'dd-MM-yyyy')}`;
+      const startDate = new Date(yearInt, monthInt - 1, 1);
+      return {
+        startDate,
+        endDate: new Date(yearInt, monthInt, 0), // Last day of month
+        referenceLabel: format(startDate, "MMMM 'de' yyyy", { locale: ptBR }).toUpperCase(),
+        fileNameSuffix: selectedPdfMonth
+      };
     }
-    
+    if (!pdfStartDate || !pdfEndDate) return null;
+    const startDate = parseISO(pdfStartDate);
+    const endDate = parseISO(pdfEndDate);
+    if (startDate > endDate) {
+      alert('Data inicial deve ser anterior à data final.');
+      return null;
+    }
+    return {
+      startDate,
+      endDate,
+      referenceLabel: `${format(startDate, 'dd/MM/yyyy')} ATÉ ${format(endDate, 'dd/MM/yyyy')}`,
+      fileNameSuffix: `${format(startDate, 'dd-MM-yyyy')}_a_${format(endDate, 'dd-MM-yyyy')}`
+    };
+  };
+
+  // AFD/AEJ: só baixa se o arquivo gerado passar no validador. Com um banco encerrado, usa os pontos arquivados.
+  const handleDownloadOfficial = (kind: OfficialFileKind, archive?: TimeBankArchive) => {
+    const period = archive ? getArchivePeriod(archive) : getExportPeriod();
+    if (!period) return;
+    const settings = getSettings();
+    const result = buildOfficialFile(kind, {
+      entries: archive ? archive.entries : entries,
+      settings: archive ? { ...settings, workerName: archive.workerName, employerName: archive.employerName } : settings,
+      schedules,
+      startDate: format(period.startDate, 'yyyy-MM-dd'),
+      endDate: format(period.endDate, 'yyyy-MM-dd')
+    });
+    setOfficialExport(result);
+    if (result.issues.length > 0) return;
+
+    const blob = new Blob([toLatin1Bytes(result.content)], { type: 'text/plain;charset=iso-8859-1' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadPdf = (archive?: TimeBankArchive) => {
+    const period = archive ? getArchivePeriod(archive) : getExportPeriod();
+    if (!period) return;
+    const { startDate, endDate, referenceLabel, fileNameSuffix } = period;
+    const sourceEntries = archive ? archive.entries : entries;
+
     const issueDateLabel = format(new Date(), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
     
     const settings = getSettings();
-    const workerName = settings.workerName || 'Não informado';
-    const employerName = settings.employerName || 'Não informado';
+    const workerName = (archive ? archive.workerName : settings.workerName) || 'Não informado';
+    const employerName = (archive ? archive.employerName : settings.employerName) || 'Não informado';
     
     const tableRows: any[] = [];
+    const correctionNotes: string[] = []; // marcações corrigidas à mão, com a batida original
         
     const getDayNamePT = (dayIndex: number): string => {
       const days = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
@@ -290,17 +367,8 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
       return days[dayIndex];
     };
     
-    let totalDiasTrabalhados = 0;
-    let sumJornadaPrevista = 0;
-    let sumTempoRegistrado = 0;
-    let sumAtrasos = 0;
-    let sumBuscarFilho = 0;
-    let sumCreditos = 0;
-    let sumTempoConsiderado = 0;
-    let sumSaldoMinutos = 0;
-    let totalDescontoFinanceiro = 0;
-
     const daysCount = differenceInDays(endDate, startDate) + 1;
+    const absences = getAbsences();
     
     for (let i = 0; i < daysCount; i++) {
       const dayDate = addDays(startDate, i);
@@ -310,51 +378,39 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
       const dayOfWeekName = getDayNamePT(dayOfWeekIndex);
       const fullDayOfWeekName = getFullDayNamePT(dayOfWeekIndex);
       
-      const dayEntry = entries.find(e => e.date === fullDateStr);
+      const dayEntry = sourceEntries.find(e => e.date === fullDateStr);
       
       if (dayEntry) {
-        const details = calculateDayDetails(
-          dayEntry.morningArrival,
-          dayEntry.morningExit,
-          dayEntry.afternoonArrival,
-          dayEntry.afternoonExit,
-          dayEntry.schoolMinutes || 0
-        );
-
-        let dayFraction = 0;
-        if (dayEntry.morningArrival || dayEntry.morningExit) dayFraction += 0.5;
-        if (dayEntry.afternoonArrival || dayEntry.afternoonExit) dayFraction += 0.5;
-        
-        if (dayFraction > 0) {
-          totalDiasTrabalhados += dayFraction;
-        }
-
-        sumJornadaPrevista += details.jornadaPrevista;
-        sumTempoRegistrado += details.tempoRegistrado;
-        sumAtrasos += details.atrasos;
-        sumBuscarFilho += details.buscarFilho;
-        sumCreditos += details.creditoPermanencia;
-        sumTempoConsiderado += details.tempoConsiderado;
-        sumSaldoMinutos += details.saldoMinutos;
+        const details = calculateEntryDetails(dayEntry, schedules, pontoCategories);
+        const editedMarks = getEditedMarks(dayEntry);
+        editedMarks.forEach(({ index, mark }) => {
+          const interval = dayEntry.intervals[index];
+          const label = PONTO_MARKS.find(m => m.mark === mark)!.label;
+          correctionNotes.push(`${format(dayDate, 'dd/MM')} ${label} ${index + 1}: batida ${punchTime(interval.punches![mark]!)}, corrigida para ${interval[mark] || 'sem horário'}`);
+        });
 
         let statusCell = 'No horário';
-        if (details.saldoMinutos < 0) {
+        if (dayEntry.holiday && details.tempoRegistrado === 0) {
+          statusCell = 'FERIADO';
+        } else if (details.ausencia && details.tempoRegistrado === 0) {
+          statusCell = `${details.ausencia.name}${details.ausencia.countsAgainstBalance ? ` (-${formatMinutesToHuman(details.minutosAusencia)} banco)` : ' (abonado)'}`;
+        } else if (details.saldoMinutos < 0) {
           statusCell = `Devendo ${formatMinutesToHuman(Math.abs(details.saldoMinutos))}`;
         } else if (details.saldoMinutos > 0) {
           statusCell = `+${formatMinutesToHuman(details.saldoMinutos)} banco`;
         }
+        if (details.toleranciaMinutos > 0) statusCell += ` (tol. ${details.toleranciaMinutos}m)`;
+        else if (details.toleranciaExcedida) statusCell += ' (acima da tol.)';
+        if (dayEntry.holiday && details.tempoRegistrado > 0) statusCell = `Feriado: ${statusCell}`;
 
         tableRows.push([
           dayStr,
           dayOfWeekName,
-          dayEntry.morningArrival || '-',
-          dayEntry.morningExit || '-',
-          dayEntry.afternoonArrival || '-',
-          dayEntry.afternoonExit || '-',
+          dayEntry.intervals.length > 0 ? dayEntry.intervals.map(describeInterval).join('\n') : '-',
           formatMinutesToHuman(details.jornadaPrevista),
           formatMinutesToHuman(details.tempoRegistrado),
           details.atrasos > 0 ? `${details.atrasos}m` : '0m',
-          details.buscarFilho > 0 ? `${details.buscarFilho}m` : '0m',
+          details.ajustes.length > 0 ? details.ajustes.map(a => `${a.nome} ${a.abonado ? '+' : '-'}${a.minutos}m`).join('\n') : '0m',
           details.creditoPermanencia > 0 ? `${details.creditoPermanencia}m` : '0m',
           formatMinutesToHuman(details.tempoConsiderado),
           details.saldoMinutos < 0 ? `-${Math.abs(details.saldoMinutos)}m` : `+${details.saldoMinutos}m`,
@@ -363,9 +419,14 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
 
         
                       } else {
+        // Ausência justificada lançada só no registro diário (sem dia no ponto)
+        const absence = absences.find(a => a.startDate <= fullDateStr && a.endDate >= fullDateStr);
         let textStatus = 'Sem registro';
-        if (dayOfWeekIndex === 0) textStatus = 'DOMINGO';
+        if (absence) textStatus = getAbsenceType(absence.typeId, settings.absenceTypes).name;
+        else if (getHoliday(fullDateStr, settings)) textStatus = 'FERIADO';
+        else if (dayOfWeekIndex === 0) textStatus = 'DOMINGO';
         else if (dayOfWeekIndex === 6) textStatus = 'SÁBADO';
+        else if (!getScheduleForDate(fullDateStr, schedules).day) textStatus = 'FOLGA';
 
         tableRows.push([
           dayStr,
@@ -378,17 +439,42 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
           '-',
           '-',
           '-',
-          '-',
-          '-',
-          '-',
           textStatus
         ]);
       }
     }
     
-    // Calcula o desconto total baseado no saldo global do mês!
-    totalDescontoFinanceiro = sumSaldoMinutos < 0 ? Math.abs(sumSaldoMinutos) * RATE_PER_MINUTE : 0;
+    // Totais pelo mesmo cálculo dos relatórios: desconto sobre o saldo global do período
+    const periodStartStr = format(startDate, 'yyyy-MM-dd');
+    const periodEndStr = format(endDate, 'yyyy-MM-dd');
+    const periodEntries = sourceEntries.filter(e => e.date >= periodStartStr && e.date <= periodEndStr);
+    const {
+      diasTrabalhados: totalDiasTrabalhados,
+      jornadaPrevista: sumJornadaPrevista,
+      tempoRegistrado: sumTempoRegistrado,
+      atrasos: sumAtrasos,
+      minutosDescontados: sumDescontados,
+      minutosAbonados: sumAbonados,
+      porCategoria: subtotaisCategorias,
+      creditoPermanencia: sumCreditos,
+      tempoConsiderado: sumTempoConsiderado,
+      saldoMinutos: sumSaldoMinutos,
+      toleranciaMinutos: sumTolerancia,
+      minutosNoturnos: sumNoturnos,
+      horasNoturnasReduzidas: sumNoturnosReduzidos,
+      adicionalNoturno: totalAdicionalNoturno,
+      desconto: totalDescontoFinanceiro,
+      valorDias: valorBrutoDias
+    } = summarizePonto(periodEntries, schedules, pontoCategories);
     
+    // Jornada vigente no início do período e mudanças dentro dele
+    const periodSchedule = getScheduleForDate(periodStartStr, schedules).schedule;
+    const scheduleChanges = (schedules || [])
+      .filter(sc => sc.effectiveFrom > periodStartStr && sc.effectiveFrom <= periodEndStr)
+      .map(sc => format(parseISO(sc.effectiveFrom), 'dd/MM'));
+    const referenceMinutes = Math.max(0, ...Object.values(periodSchedule.days).map(dayScheduleMinutes));
+    const formatBRL = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
     const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
     const primaryColor: [number, number, number] = [108, 62, 244]; // #6C3EF4 Roxo principal
     
@@ -429,7 +515,7 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
     // Quadro de Regras da Jornada
     doc.setFillColor(248, 250, 252); // Slate 50
     doc.setDrawColor(226, 232, 240); // Slate 200
-    doc.roundedRect(14, 34, 269, 13, 2, 2, 'FD');
+    doc.roundedRect(14, 34, 269, 18, 2, 2, 'FD');
 
     doc.setFontSize(8);
     doc.setFont('Helvetica', 'bold');
@@ -438,13 +524,14 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
 
     doc.setFont('Helvetica', 'normal');
     doc.setTextColor(71, 85, 105);
-    doc.text('Horário Previsto: Entrada 08:00 | Saída Almoço 12:00 | Retorno Almoço 13:30 | Saída 17:00 | Jornada Diária: 7h 30min (450 min)', 55, 39);
-    doc.text('Valor Diário: R$ 75,00 | Valor por Minuto: R$ 0,166667 (R$ 75,00 ÷ 450 min). Todos os atrasos e buscas de filhos são detalhados individualmente.', 18, 44);
+    doc.text(`Horário Previsto: ${describeWeek(periodSchedule)}${scheduleChanges.length > 0 ? ` (jornada alterada em ${scheduleChanges.join(', ')})` : ''}`, 55, 39);
+    doc.text(`Valor Diário: ${formatBRL(periodSchedule.dailyRate)} | Valor por Minuto: R$ ${getMinuteRate(periodSchedule).toFixed(6).replace('.', ',')} (${formatBRL(periodSchedule.dailyRate)} ÷ ${referenceMinutes} min). Todos os atrasos e ajustes (buscar filho, médico...) são detalhados individualmente.`, 18, 44);
+    doc.text(`Tolerância: ${describeTolerance(getTolerance(periodSchedule))}.${sumTolerancia > 0 ? ` Variações desconsideradas no período: ${sumTolerancia} min.` : ''}${periodSchedule.nightShiftPercent ? ` | Adicional noturno: ${periodSchedule.nightShiftPercent}% sobre 22h-5h em hora reduzida (52m30s).` : ''}`, 18, 49);
 
     // TABELA PRINCIPAL
     autoTable(doc, {
-      startY: 49,
-      head: [['Data', 'Dia', 'Entrada', 'S. Almoço', 'V. Almoço', 'Saída', 'J. Prevista', 'T. Registrado', 'Atrasos', 'Buscar Filho', 'Créditos', 'T. Considerado', 'Saldo', 'Situação / Desconto']],
+      startY: 54,
+      head: [['Data', 'Dia', 'Intervalos', 'J. Prevista', 'T. Registrado', 'Atrasos', 'Ajustes', 'Créditos', 'T. Considerado', 'Saldo', 'Situação / Desconto']],
       body: tableRows,
       theme: 'grid',
       headStyles: { 
@@ -458,18 +545,15 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
       columnStyles: {
         0: { fontStyle: 'bold', cellWidth: 12 },
         1: { cellWidth: 14 },
-        2: { cellWidth: 16 },
-        3: { cellWidth: 16 },
-        4: { cellWidth: 16 },
+        2: { cellWidth: 56 },
+        3: { cellWidth: 18 },
+        4: { cellWidth: 20, fontStyle: 'bold' },
         5: { cellWidth: 16 },
-        6: { cellWidth: 18 },
-        7: { cellWidth: 20, fontStyle: 'bold' },
-        8: { cellWidth: 16 },
-        9: { cellWidth: 18 },
-        10: { cellWidth: 16 },
-        11: { cellWidth: 22, fontStyle: 'bold' },
-        12: { cellWidth: 16, fontStyle: 'bold' },
-        13: { cellWidth: 36, fontStyle: 'bold' }
+        6: { cellWidth: 34 },
+        7: { cellWidth: 16 },
+        8: { cellWidth: 22, fontStyle: 'bold' },
+        9: { cellWidth: 16, fontStyle: 'bold' },
+        10: { cellWidth: 36, fontStyle: 'bold' }
       },
       didParseCell: (data) => {
         if (data.section === 'body') {
@@ -480,35 +564,57 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
             data.cell.styles.textColor = [220, 38, 38]; // Vermelho
           } else if (val.includes('crédito') || val.includes('banco')) {
             data.cell.styles.textColor = [22, 163, 74]; // Verde
-          } else if (val === 'DOMINGO' || val === 'SÁBADO') {
+          } else if (val === 'DOMINGO' || val === 'SÁBADO' || val === 'FOLGA') {
             data.cell.styles.textColor = [148, 163, 184];
             data.cell.styles.fontStyle = 'italic';
           }
           
-          // Cores para Atrasos e Buscar Filho (Vermelho)
-          if ((data.column.index === 8 || data.column.index === 9) && val !== '0m' && val !== '-') {
+          // Cores para Atrasos (Vermelho)
+          if (data.column.index === 5 && val !== '0m' && val !== '-') {
              data.cell.styles.textColor = [220, 38, 38];
           }
+
+          // Cores para Ajustes (Âmbar)
+          if (data.column.index === 6 && val !== '0m' && val !== '-') {
+             data.cell.styles.textColor = [217, 119, 6];
+          }
           
           // Cores para Créditos (Verde)
-          if (data.column.index === 10 && val !== '0m' && val !== '-') {
+          if (data.column.index === 7 && val !== '0m' && val !== '-') {
              data.cell.styles.textColor = [22, 163, 74];
           }
+
+          // Marcações corrigidas à mão (Âmbar)
+          if (data.column.index === 2 && data.cell.text.some(line => line.includes('*'))) {
+             data.cell.styles.textColor = [217, 119, 6];
+          }
         }
       }
     });
 
     let currentY = (doc as any).lastAutoTable.finalY + 15;
 
-    // QUADRO RESUMO GERAL DO MÊS
-    if (currentY + 55 > 200) {
+    // Nota das correções manuais sobre batidas registradas no relógio
+    if (correctionNotes.length > 0) {
+      const noteLines = doc.splitTextToSize(`* Horário corrigido manualmente. Batidas originais: ${correctionNotes.join('; ')}.`, 269);
+      doc.setFontSize(7.5);
+      doc.setFont('Helvetica', 'normal');
+      doc.setTextColor(217, 119, 6);
+      doc.text(noteLines, 14, currentY - 9);
+      currentY += noteLines.length * 3.5;
+    }
+
+    // QUADRO RESUMO GERAL DO MÊS (uma linha a mais para o adicional noturno e outra para os ajustes por categoria)
+    const extraLines = [totalAdicionalNoturno > 0, subtotaisCategorias.length > 0].filter(Boolean).length;
+    const summaryHeight = 52 + extraLines * 6;
+    if (currentY + summaryHeight + 3 > 200) {
       doc.addPage();
       currentY = 15;
     }
 
     doc.setFillColor(245, 243, 255); // Violet light 50
     doc.setDrawColor(108, 62, 244);
-    doc.roundedRect(14, currentY, 269, 52, 3, 3, 'FD');
+    doc.roundedRect(14, currentY, 269, summaryHeight, 3, 3, 'FD');
 
     doc.setFontSize(11);
     doc.setFont('Helvetica', 'bold');
@@ -518,8 +624,7 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
     doc.setFontSize(8.5);
     doc.setTextColor(30, 41, 59);
 
-    const valorBrutoDias = totalDiasTrabalhados * DAILY_RATE;
-    const valorLiquido = Math.max(0, valorBrutoDias - totalDescontoFinanceiro);
+    const valorLiquido = Math.max(0, roundCurrency(valorBrutoDias + totalAdicionalNoturno - totalDescontoFinanceiro));
 
     // Coluna 1
     doc.setFont('Helvetica', 'bold');
@@ -549,9 +654,9 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
     doc.text(`${sumAtrasos} min (${formatMinutesToHuman(sumAtrasos)})`, 185, currentY + 16);
 
     doc.setFont('Helvetica', 'bold');
-    doc.text('Total para Buscar Filho:', 140, currentY + 22);
+    doc.text('Ajustes Descontados / Abonados:', 140, currentY + 22);
     doc.setFont('Helvetica', 'normal');
-    doc.text(`${sumBuscarFilho} min (${formatMinutesToHuman(sumBuscarFilho)})`, 185, currentY + 22);
+    doc.text(`-${sumDescontados} min / +${sumAbonados} min`, 195, currentY + 22);
 
     doc.setFont('Helvetica', 'bold');
     doc.text('Total de Créditos de Permanência:', 140, currentY + 28);
@@ -580,18 +685,30 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
     doc.setFontSize(9.5);
     doc.setFont('Helvetica', 'bold');
     doc.setTextColor(30, 41, 59);
-    doc.text(`Valor Bruto (${totalDiasTrabalhados} dias × R$ 75,00): R$ ${valorBrutoDias.toFixed(2).replace('.', ',')}`, 20, currentY + 45);
+    const valorBrutoLabel = scheduleChanges.length > 0 ? `${totalDiasTrabalhados} dias` : `${totalDiasTrabalhados} dias × ${formatBRL(periodSchedule.dailyRate)}`;
+    doc.text(`Valor Bruto (${valorBrutoLabel}): ${formatBRL(valorBrutoDias)}`, 20, currentY + 45);
 
-    const descontoAtraso = sumAtrasos * RATE_PER_MINUTE;
     doc.setTextColor(220, 38, 38);
     doc.text(`(-) Total de Desconto: R$ ${totalDescontoFinanceiro.toFixed(2).replace('.', ',')}`, 125, currentY + 45);
 
     doc.setTextColor(108, 62, 244);
     doc.text(`(=) Valor Líquido: R$ ${valorLiquido.toFixed(2).replace('.', ',')}`, 215, currentY + 45);
 
+    if (totalAdicionalNoturno > 0) {
+      doc.setTextColor(2, 132, 199);
+      doc.text(`(+) Adicional Noturno: ${sumNoturnos} min entre 22h e 5h = ${sumNoturnosReduzidos} min em hora reduzida (52m30s): ${formatBRL(totalAdicionalNoturno)}`, 20, currentY + 52);
+    }
+
+    if (subtotaisCategorias.length > 0) {
+      const categoriasY = currentY + (totalAdicionalNoturno > 0 ? 58 : 52);
+      doc.setFontSize(8.5);
+      doc.setTextColor(217, 119, 6);
+      doc.text(`Ajustes por categoria: ${subtotaisCategorias.map(c => `${c.nome} (${c.abonado ? 'abonado' : 'descontado'}) ${c.minutos} min`).join('; ')}`, 20, categoriasY);
+    }
+
 
     // ASSINATURAS
-    let signatureY = currentY + 62;
+    let signatureY = currentY + summaryHeight + 10;
     if (signatureY + 20 > 200) {
       doc.addPage();
       signatureY = 25;
@@ -612,35 +729,42 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
     doc.save(`Folha_de_Ponto_${workerName.replace(/\s/g, '_')}_${fileNameSuffix}.pdf`);
   };
 
-  // Cálculos acumulados do Banco de Horas Geral
-  const monthToCalculate = entries;
-  const totalStats = monthToCalculate.reduce((acc, curr) => {
-    const d = calculateDayDetails(
-      curr.morningArrival,
-      curr.morningExit,
-      curr.afternoonArrival,
-      curr.afternoonExit,
-      curr.schoolMinutes || 0
-    );
-    acc.atrasos += d.atrasos;
-    acc.buscarFilho += d.buscarFilho;
-    acc.creditoPermanencia += d.creditoPermanencia;
-    acc.saldoMinutos += d.saldoMinutos;
-    return acc;
-  }, { atrasos: 0, buscarFilho: 0, creditoPermanencia: 0, saldoMinutos: 0, desconto: 0 });
+  // Cálculos acumulados do Banco de Horas atual (desde o último fechamento)
+  const bankEntries = entries.filter(e => e.date >= timeBankStart);
+  const totalStats = summarizePonto(bankEntries, schedules, pontoCategories);
+  // Extrato com compensações, pagamentos e vencimentos do banco atual
+  const ledger = buildTimeBankLedger(bankEntries, transactions.filter(t => t.date >= timeBankStart), {
+    schedules, categories: pontoCategories, policy: getSettings().timeBankPolicy, until: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  // Dias do banco atual em que o registro diário e o ponto não batem
+  const reconciliationIssues = reconcileWorkAndPonto(workEntries, entries, getSettings(), timeBankStart, format(new Date(), 'yyyy-MM-dd'));
 
-  totalStats.desconto = totalStats.saldoMinutos < 0 ? Math.abs(totalStats.saldoMinutos) * RATE_PER_MINUTE : 0;
+  const todaySchedule = getScheduleForDate(format(new Date(), 'yyyy-MM-dd'), schedules).schedule;
+  const todayReferenceMinutes = Math.max(0, ...Object.values(todaySchedule.days).map(dayScheduleMinutes));
 
   const formattedDateDisplay = format(new Date(selectedDate + 'T00:00:00'), "EEEE, d 'de' MMMM", { locale: ptBR });
 
   // Detalhes em tempo real da data selecionada
-  const currentDayDetails = calculateDayDetails(
-    morningArrival,
-    morningExit,
-    afternoonArrival,
-    afternoonExit,
-    schoolMinutes
-  );
+  const currentDayDetails = calculateDayDetails(intervals, adjustments, dayTarget, pontoCategories, entries.find(e => e.date === selectedDate)?.absence);
+
+  // Bater ponto: dia de hoje, ou o turno noturno de ontem ainda aberto
+  const todayStr = getPunchDate(entries, clock);
+  const todayEntry = entries.find(e => e.date === todayStr);
+  const nextMark = getNextMark(todayEntry);
+
+  // Batida original abaixo do campo, destacando quando o horário foi corrigido
+  const renderPunchNote = (interval: PontoInterval, mark: PontoMark) => {
+    const punch = interval.punches?.[mark];
+    if (!punch) return null;
+    const value = interval[mark];
+    const edited = punchTime(punch) !== value;
+    return (
+      <p className={`text-[10px] mt-1 font-semibold ${edited ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+        Batida: {punchTime(punch)}{edited ? ' · corrigido' : ''}
+      </p>
+    );
+  };
 
   return (
     <div className="space-y-5 animate-in fade-in duration-500">
@@ -656,18 +780,42 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
         <div className="flex justify-between items-start mb-3">
           <div>
             <h2 className="text-xs font-bold text-indigo-800 dark:text-indigo-300 uppercase tracking-wider">Banco de Horas Acumulado</h2>
-            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">Saldo consolidado de todos os registros de ponto</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+              {timeBankStart ? `Saldo dos pontos desde ${format(parseISO(timeBankStart), 'dd/MM/yyyy')}` : 'Saldo consolidado de todos os registros de ponto'}
+            </p>
           </div>
-          {entries.length > 0 && (
+          {entries.length > 0 && closingDate === null && (
             <button
-              onClick={handleResetTimeBank}
+              onClick={() => setClosingDate(format(new Date(), 'yyyy-MM-dd'))}
               className="text-xs font-semibold text-rose-600 hover:text-rose-800 dark:text-rose-400 dark:hover:text-rose-300 flex items-center gap-1 transition-colors bg-white dark:bg-slate-900 px-2 py-1 rounded-lg border border-rose-100 dark:border-rose-900/50 shadow-sm cursor-pointer"
             >
-              <RotateCcw className="w-3 h-3" /> Zerar Saldo
+              <Archive className="w-3 h-3" /> Encerrar Banco
             </button>
           )}
         </div>
 
+        {closingDate !== null && (
+          <div className="mb-3 p-3 bg-white dark:bg-slate-900 rounded-xl border border-rose-100 dark:border-rose-900/50 space-y-2">
+            <p className="text-xs text-slate-600 dark:text-slate-300">
+              O saldo e os pontos até a data escolhida ficam arquivados (podem ser consultados e reexportados) e o banco recomeça no dia seguinte. Nenhum ponto é apagado.
+            </p>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Encerrar até</label>
+                <input
+                  type="date"
+                  value={closingDate}
+                  min={timeBankStart || undefined}
+                  onChange={(e) => setClosingDate(e.target.value)}
+                  className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm"
+                />
+              </div>
+              <button onClick={() => setClosingDate(null)} className="px-3 py-2 text-xs font-bold text-slate-500 cursor-pointer">Cancelar</button>
+              <button onClick={handleCloseTimeBank} className="px-3 py-2 bg-rose-600 text-white rounded-lg text-xs font-bold cursor-pointer">Encerrar</button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-2">
           {/* Atrasos */}
           <div className="bg-white dark:bg-slate-900/60 p-3 rounded-xl border border-indigo-50 dark:border-slate-800/80 shadow-xs flex flex-col justify-center">
@@ -680,15 +828,15 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
             <span className="text-[10px] text-slate-400 mt-0.5">atrasos em entradas/saídas</span>
           </div>
 
-          {/* Buscar Filho */}
+          {/* Ajustes */}
           <div className="bg-white dark:bg-slate-900/60 p-3 rounded-xl border border-indigo-50 dark:border-slate-800/80 shadow-xs flex flex-col justify-center">
-            <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase">Buscar Filho</span>
+            <span className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase">Ajustes</span>
             <div className="flex items-center gap-1 mt-1">
               <span className="text-lg font-black text-amber-600 dark:text-amber-400">
-                {formatMinutesToHuman(totalStats.buscarFilho)}
+                -{formatMinutesToHuman(totalStats.minutosDescontados)}
               </span>
             </div>
-            <span className="text-[10px] text-slate-400 mt-0.5">saídas escolares</span>
+            <span className="text-[10px] text-slate-400 mt-0.5">descontados · +{formatMinutesToHuman(totalStats.minutosAbonados)} abonados</span>
           </div>
 
           {/* Créditos */}
@@ -699,7 +847,7 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
                 +{formatMinutesToHuman(totalStats.creditoPermanencia)}
               </span>
             </div>
-            <span className="text-[10px] text-slate-400 mt-0.5">tempo extra após 17:00</span>
+            <span className="text-[10px] text-slate-400 mt-0.5">tempo fora do horário previsto</span>
           </div>
 
           {/* Saldo Líquido */}
@@ -717,6 +865,28 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
         </div>
       </Card>
 
+      <TimeBankLedger
+        ledger={ledger}
+        schedules={schedules}
+        policy={getSettings().timeBankPolicy}
+        minDate={timeBankStart || undefined}
+        onAdd={handleAddTransaction}
+        onDelete={handleDeleteTransaction}
+      />
+
+      <MonthCalendar settings={getSettings()} selectedDate={selectedDate} onOpenDay={handleOpenDay} />
+
+      {entries.length > 0 && (
+        <WorkPontoReconciliation
+          issues={reconciliationIssues}
+          periodLabel={timeBankStart ? `Dias desde ${format(parseISO(timeBankStart), 'dd/MM/yyyy')} (banco atual)` : 'Todos os dias até hoje'}
+          autoCreate={!!getSettings().autoWorkEntryFromPonto}
+          onToggleAutoCreate={handleToggleAutoWorkEntry}
+          onApply={handleApplySuggestion}
+          onOpenDay={setSelectedDate}
+        />
+      )}
+
       {/* EXPORTAR FOLHA DE PONTO EM PDF */}
       <Card className="bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 p-4 shadow-xs">
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -772,13 +942,110 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
               <Download className="w-4 h-4" />
               <span>Exportar PDF</span>
             </button>
+              {(['AFD', 'AEJ'] as OfficialFileKind[]).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => handleDownloadOfficial(kind)}
+                  title={kind === 'AFD' ? 'Arquivo Fonte de Dados (Portaria 671)' : 'Arquivo Eletrônico de Jornada (Portaria 671)'}
+                  className="flex items-center gap-1.5 bg-slate-100 hover:bg-slate-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 font-bold px-3 py-2 rounded-lg text-sm transition-colors cursor-pointer"
+                >
+                  <FileCode className="w-4 h-4" />
+                  <span>{kind}</span>
+                </button>
+              ))}
             </div>
           </div>
         </div>
+
+        {officialExport && (
+          <div className={`mt-3 p-3 rounded-xl border text-xs space-y-1 ${officialExport.issues.length > 0 ? 'bg-rose-50 border-rose-200 text-rose-800 dark:bg-rose-950/30 dark:border-rose-900/60 dark:text-rose-300' : 'bg-emerald-50 border-emerald-200 text-emerald-800 dark:bg-emerald-950/30 dark:border-emerald-900/60 dark:text-emerald-300'}`}>
+            <div className="flex justify-between items-center">
+              <span className="font-bold">
+                {officialExport.issues.length > 0
+                  ? `${officialExport.kind} não gerado: ${officialExport.issues.length} problema(s) encontrado(s)`
+                  : `${officialExport.kind} gerado e validado (${officialExport.fileName})`}
+              </span>
+              <button onClick={() => setOfficialExport(null)} className="font-semibold hover:underline cursor-pointer">Fechar</button>
+            </div>
+            {officialExport.issues.slice(0, 20).map((issue, i) => (
+              <p key={i}>{issue.line ? `Linha ${issue.line}: ` : ''}{issue.message}</p>
+            ))}
+            {officialExport.issues.length > 20 && <p>... e mais {officialExport.issues.length - 20}.</p>}
+            {officialExport.warnings.map((warning, i) => (
+              <p key={`w${i}`} className="text-amber-700 dark:text-amber-300">{warning}</p>
+            ))}
+          </div>
+        )}
       </Card>
 
+      <TimeBankArchives
+        archives={archives}
+        schedules={schedules}
+        categories={pontoCategories}
+        onExportPdf={(archive) => handleDownloadPdf(archive)}
+        onExportOfficial={(kind, archive) => handleDownloadOfficial(kind, archive)}
+        onDelete={handleDeleteArchive}
+      />
+
       {/* REGISTRO DO DIA */}
       <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 dark:bg-slate-950 rounded-xl">
+          <button
+            onClick={() => setEntryMode('punch')}
+            className={`py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-1.5 cursor-pointer ${entryMode === 'punch' ? 'bg-white dark:bg-slate-800 text-violet-700 dark:text-violet-300 shadow-sm' : 'text-slate-500'}`}
+          >
+            <Fingerprint className="w-4 h-4" /> Bater Ponto
+          </button>
+          <button
+            onClick={() => setEntryMode('manual')}
+            className={`py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-1.5 cursor-pointer ${entryMode === 'manual' ? 'bg-white dark:bg-slate-800 text-violet-700 dark:text-violet-300 shadow-sm' : 'text-slate-500'}`}
+          >
+            <Clock className="w-4 h-4" /> Manual / Correção
+          </button>
+        </div>
+
+        {entryMode === 'punch' && (
+          <div className="text-center space-y-3">
+            <div>
+              <p className="text-4xl font-black text-slate-900 dark:text-white tabular-nums">{format(clock, 'HH:mm:ss')}</p>
+              <p className="text-xs text-violet-600 dark:text-violet-300 capitalize font-semibold">{format(clock, "EEEE, d 'de' MMMM", { locale: ptBR })}</p>
+              {todayStr !== format(clock, 'yyyy-MM-dd') && (
+                <p className="text-[11px] text-sky-600 dark:text-sky-300 font-semibold">Turno noturno aberto em {format(parseISO(todayStr), 'dd/MM')}: as batidas continuam nesse dia.</p>
+              )}
+            </div>
+            {nextMark === 'start' && (
+              <input
+                type="text"
+                value={punchLabel}
+                onChange={(e) => setPunchLabel(e.target.value)}
+                placeholder="Rótulo do intervalo (opcional, ex: Visita à obra)"
+                className="w-full p-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 rounded-lg text-sm text-center"
+              />
+            )}
+            <button
+              onClick={handlePunch}
+              className="w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 bg-gradient-to-r from-violet-600 to-indigo-600 text-white shadow-md active:scale-95 transition-all cursor-pointer"
+            >
+              <Fingerprint className="w-6 h-6" />
+              Bater {PONTO_MARKS.find(m => m.mark === nextMark)!.label}
+            </button>
+            {todayEntry && todayEntry.intervals.length > 0 && (
+              <div className="space-y-1.5">
+                {todayEntry.intervals.map((interval, index) => (
+                  <div key={index} className="flex justify-between items-center bg-slate-50 dark:bg-slate-950 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-800 text-sm">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase">{interval.label || `Intervalo ${index + 1}`}</span>
+                    <span className="font-black text-slate-800 dark:text-slate-100">{describeInterval({ ...interval, label: undefined })}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400">
+              O horário do aparelho fica guardado como batida original. Para corrigir, use o modo Manual; a batida continua visível no histórico e no PDF.
+            </p>
+          </div>
+        )}
+
+        {entryMode === 'manual' && (<>
         <div>
           <label className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 block">Data do Registro</label>
           <div className="relative">
@@ -797,117 +1064,95 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
           </p>
         </div>
 
-        {/* INPUTS DE HORÁRIOS */}
-        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 pt-1">
-          {/* Entrada Manhã */}
-          <div className="bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800/80">
-            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400 text-xs font-bold mb-1.5">
-              <Clock className="w-3.5 h-3.5 text-violet-500" />
-              <span>Entrada Manhã</span>
-            </div>
-            <input
-              type="time"
-              value={morningArrival}
-              onChange={(e) => setMorningArrival(e.target.value)}
-              className="w-full text-center bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-2 font-black text-lg text-slate-900 dark:text-white"
-            />
-            <div className="flex justify-between items-center text-[10px] text-slate-400 mt-1">
-              <span>Alvo: 08:00</span>
-              <div className="flex gap-2">
-                <button onClick={() => setMorningArrival('')} className="text-slate-500 font-semibold hover:underline">Limpar</button>
-                <button onClick={() => setMorningArrival('08:00')} className="text-violet-500 font-semibold hover:underline">Reset</button>
-              </div>
-            </div>
-          </div>
-
-          {/* Saída Almoço */}
-          <div className="bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800/80">
-            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400 text-xs font-bold mb-1.5">
-              <Clock className="w-3.5 h-3.5 text-violet-500" />
-              <span>Saída Almoço</span>
-            </div>
-            <input
-              type="time"
-              value={morningExit}
-              onChange={(e) => setMorningExit(e.target.value)}
-              className="w-full text-center bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-2 font-black text-lg text-slate-900 dark:text-white"
-            />
-            <div className="flex justify-between items-center text-[10px] text-slate-400 mt-1">
-              <span>Alvo: 12:00</span>
-              <div className="flex gap-2">
-                <button onClick={() => setMorningExit('')} className="text-slate-500 font-semibold hover:underline">Limpar</button>
-                <button onClick={() => setMorningExit('12:00')} className="text-violet-500 font-semibold hover:underline">Reset</button>
+        {/* INTERVALOS DO DIA */}
+        <div className="space-y-2 pt-1">
+          {intervals.map((interval, index) => (
+            <div key={index} className="bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800/80">
+              <div className="flex items-center gap-2 mb-2">
+                <Clock className="w-3.5 h-3.5 text-violet-500 shrink-0" />
+                <input
+                  type="text"
+                  value={interval.label || ''}
+                  onChange={(e) => updateInterval(index, { label: e.target.value })}
+                  placeholder={`Intervalo ${index + 1}`}
+                  className="flex-1 min-w-0 bg-transparent text-xs font-bold text-slate-600 dark:text-slate-300 placeholder:text-slate-400 focus:outline-hidden"
+                />
+                <button onClick={() => removeInterval(index)} className="p-1 text-slate-400 hover:text-rose-600 cursor-pointer" title="Remover intervalo">
+                  <Trash2 className="w-4 h-4" />
+                </button>
               </div>
-            </div>
-          </div>
-
-          {/* Retorno Almoço */}
-          <div className="bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800/80">
-            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400 text-xs font-bold mb-1.5">
-              <Clock className="w-3.5 h-3.5 text-violet-500" />
-              <span>Volta Almoço</span>
-            </div>
-            <input
-              type="time"
-              value={afternoonArrival}
-              onChange={(e) => setAfternoonArrival(e.target.value)}
-              className="w-full text-center bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-2 font-black text-lg text-slate-900 dark:text-white"
-            />
-            <div className="flex justify-between items-center text-[10px] text-slate-400 mt-1">
-              <span>Alvo: 13:30</span>
-              <div className="flex gap-2">
-                <button onClick={() => setAfternoonArrival('')} className="text-slate-500 font-semibold hover:underline">Limpar</button>
-                <button onClick={() => setAfternoonArrival('13:30')} className="text-violet-500 font-semibold hover:underline">Reset</button>
+              <div className="grid grid-cols-2 gap-3">
+                {PONTO_MARKS.map(({ mark, label }) => (
+                  <div key={mark}>
+                    <span className="block text-[10px] text-slate-400 font-bold uppercase mb-1">{label}</span>
+                    <input
+                      type="time"
+                      value={interval[mark]}
+                      onChange={(e) => updateInterval(index, { [mark]: e.target.value })}
+                      className="w-full text-center bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-2 font-black text-lg text-slate-900 dark:text-white"
+                    />
+                    {renderPunchNote(interval, mark)}
+                  </div>
+                ))}
               </div>
             </div>
-          </div>
-
-          {/* Saída Tarde */}
-          <div className="bg-slate-50 dark:bg-slate-950 p-3 rounded-xl border border-slate-200 dark:border-slate-800/80">
-            <div className="flex items-center gap-1 text-slate-500 dark:text-slate-400 text-xs font-bold mb-1.5">
-              <Clock className="w-3.5 h-3.5 text-violet-500" />
-              <span>Saída Tarde</span>
-            </div>
-            <input
-              type="time"
-              value={afternoonExit}
-              onChange={(e) => setAfternoonExit(e.target.value)}
-              className="w-full text-center bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-lg p-2 font-black text-lg text-slate-900 dark:text-white"
-            />
-            <div className="flex justify-between items-center text-[10px] text-slate-400 mt-1">
-              <span>Alvo: 17:00</span>
-              <div className="flex gap-2">
-                <button onClick={() => setAfternoonExit('')} className="text-slate-500 font-semibold hover:underline">Limpar</button>
-                <button onClick={() => setAfternoonExit('17:00')} className="text-violet-500 font-semibold hover:underline">Reset</button>
-              </div>
+          ))}
+          {intervals.length === 0 && (
+            <p className="text-center text-xs text-slate-400 py-2">Nenhum intervalo. Dia sem trabalho registrado.</p>
+          )}
+          <div className="flex justify-between items-center text-[11px]">
+            <span className="text-slate-400">Previsto: {dayTarget.day ? describeDaySchedule(dayTarget.day) : selectedHoliday ? `feriado (${selectedHoliday.name})` : 'sem expediente'}</span>
+            <div className="flex gap-3">
+              <button onClick={() => setIntervals(scheduledIntervals(dayTarget.day))} className="text-slate-500 font-semibold hover:underline cursor-pointer">Preencher com a jornada</button>
+              <button onClick={addInterval} className="text-violet-600 dark:text-violet-400 font-bold hover:underline cursor-pointer">+ Adicionar intervalo</button>
             </div>
           </div>
         </div>
 
-        {/* Saída para Buscar Filho na Escola */}
-        <div className="bg-amber-50/45 dark:bg-amber-950/10 p-3.5 rounded-xl border border-amber-100 dark:border-amber-900/30">
-          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
-            <div className="space-y-0.5">
-              <span className="text-xs font-bold text-amber-800 dark:text-amber-300 flex items-center gap-1.5">
-                <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
-                Saída para buscar o filho na escola
-              </span>
-              <p className="text-[10px] text-slate-500 dark:text-slate-400">
-                Os minutos informados aqui serão descontados separadamente, sem misturar com atrasos de pontualidade.
-              </p>
-            </div>
-            <div className="flex items-center gap-2 self-end sm:self-center">
+        </>)}
+
+        {/* Ajustes do dia por categoria (buscar filho, médico, banco...) */}
+        <div className="bg-amber-50/45 dark:bg-amber-950/10 p-3.5 rounded-xl border border-amber-100 dark:border-amber-900/30 space-y-2">
+          <div className="space-y-0.5">
+            <span className="text-xs font-bold text-amber-800 dark:text-amber-300 flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse" />
+              Ajustes do dia
+            </span>
+            <p className="text-[10px] text-slate-500 dark:text-slate-400">
+              Minutos por categoria, separados dos atrasos de pontualidade. Categorias descontadas saem do saldo; abonadas contam como tempo trabalhado. Edite as categorias em Configurações.
+            </p>
+          </div>
+          {adjustments.map((adjustment, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={adjustment.categoryId}
+                onChange={(e) => updateAdjustment(index, { categoryId: e.target.value })}
+                className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-amber-200 dark:border-amber-900/50 rounded-lg p-1.5 text-sm text-slate-900 dark:text-white"
+              >
+                {getPontoCategories(pontoCategories).map(c => (
+                  <option key={c.id} value={c.id}>{c.name} ({c.paid ? 'abonado' : 'descontado'})</option>
+                ))}
+              </select>
               <input
                 type="number"
                 min="0"
-                value={schoolMinutes || ''}
-                onChange={(e) => setSchoolMinutes(Math.max(0, parseInt(e.target.value) || 0))}
+                value={adjustment.minutes || ''}
+                onChange={(e) => updateAdjustment(index, { minutes: Math.max(0, parseInt(e.target.value) || 0) })}
                 placeholder="0"
                 className="w-20 text-center bg-white dark:bg-slate-900 border border-amber-200 dark:border-amber-900/50 rounded-lg p-1.5 font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-amber-500 focus:outline-hidden"
               />
-              <span className="text-xs font-bold text-slate-600 dark:text-slate-400">minutos</span>
+              <span className="text-xs font-bold text-slate-600 dark:text-slate-400">min</span>
+              <button onClick={() => setAdjustments(adjustments.filter((_, i) => i !== index))} className="p-1 text-slate-400 hover:text-rose-600 cursor-pointer" title="Remover ajuste">
+                <Trash2 className="w-4 h-4" />
+              </button>
             </div>
-          </div>
+          ))}
+          <button
+            onClick={() => setAdjustments([...adjustments, { categoryId: getPontoCategories(pontoCategories)[0].id, minutes: 0 }])}
+            className="text-[11px] text-amber-700 dark:text-amber-400 font-bold hover:underline cursor-pointer"
+          >
+            + Adicionar ajuste
+          </button>
         </div>
 
         {/* QUADRO DETALHADO AUTOEXPLICATIVO DO DIA SELECIONADO */}
@@ -947,9 +1192,9 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
             </div>
 
             <div className="bg-white/80 dark:bg-slate-900/80 p-2 rounded-lg border border-slate-100 dark:border-slate-800">
-              <span className="text-[10px] text-slate-400 block font-bold">4. Buscar Filho</span>
-              <span className={`font-bold ${currentDayDetails.buscarFilho > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-700 dark:text-slate-300'}`}>
-                {formatMinutesToHuman(currentDayDetails.buscarFilho)}
+              <span className="text-[10px] text-slate-400 block font-bold">4. Ajustes</span>
+              <span className={`font-bold ${currentDayDetails.ajustes.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-700 dark:text-slate-300'}`}>
+                -{formatMinutesToHuman(currentDayDetails.minutosDescontados)} / +{formatMinutesToHuman(currentDayDetails.minutosAbonados)}
               </span>
             </div>
 
@@ -980,10 +1225,32 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
                 <span>Atrasos.............................</span>
                 <span className="font-bold text-rose-600 dark:text-rose-400">-{currentDayDetails.atrasos} min</span>
               </div>
-              <div className="flex justify-between items-center text-slate-700 dark:text-slate-300">
-                <span>Buscar filho........................</span>
-                <span className="font-bold text-amber-600 dark:text-amber-400">-{currentDayDetails.buscarFilho} min</span>
-              </div>
+              {(currentDayDetails.toleranciaMinutos > 0 || currentDayDetails.toleranciaExcedida) && (
+                <div className="flex justify-between items-center text-slate-500 dark:text-slate-400">
+                  <span>Tolerância (desconsiderado).........</span>
+                  <span className="font-bold">{currentDayDetails.toleranciaExcedida ? 'limite excedido' : `${currentDayDetails.toleranciaMinutos} min`}</span>
+                </div>
+              )}
+              {currentDayDetails.ajustes.map(a => (
+                <div key={a.categoryId} className="flex justify-between items-center text-slate-700 dark:text-slate-300">
+                  <span>{`${a.nome} (${a.abonado ? 'abonado' : 'descontado'})`.padEnd(36, '.')}</span>
+                  <span className={`font-bold ${a.abonado ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'}`}>{a.abonado ? '+' : '-'}{a.minutos} min</span>
+                </div>
+              ))}
+              {currentDayDetails.ausencia && currentDayDetails.minutosAusencia > 0 && (
+                <div className="flex justify-between items-center text-slate-700 dark:text-slate-300">
+                  <span>{`${currentDayDetails.ausencia.name} (${currentDayDetails.ausencia.countsAgainstBalance ? 'desconta' : 'justificada'})`.padEnd(36, '.')}</span>
+                  <span className="font-bold text-sky-600 dark:text-sky-400">
+                    {currentDayDetails.ausencia.countsAgainstBalance ? `-${currentDayDetails.minutosAusencia} min` : `${currentDayDetails.minutosAusencia} min sem desconto`}
+                  </span>
+                </div>
+              )}
+              {currentDayDetails.minutosNoturnos > 0 && (
+                <div className="flex justify-between items-center text-sky-700 dark:text-sky-300">
+                  <span>Noturno (não entra no saldo)........</span>
+                  <span className="font-bold">{currentDayDetails.minutosNoturnos}m = {currentDayDetails.horasNoturnasReduzidas}m red.{currentDayDetails.adicionalNoturno > 0 ? ` · +R$ ${currentDayDetails.adicionalNoturno.toFixed(2).replace('.', ',')}` : ''}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center text-slate-900 dark:text-white font-extrabold border-t border-slate-200 dark:border-slate-700 pt-1.5 mt-1 font-sans text-xs">
                 <span>Saldo do banco de horas.............</span>
                 <span className={currentDayDetails.saldoMinutos < 0 ? 'text-rose-600 dark:text-rose-400' : currentDayDetails.saldoMinutos > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-700 dark:text-slate-300'}>
@@ -999,7 +1266,7 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
               📌 Regra oficial do cálculo:
             </span>
             <p>
-              "O saldo do banco de horas é calculado utilizando os créditos obtidos pela permanência trabalhando além dos horários previstos da jornada (como sair para o almoço após as 12:00 ou trabalhar após as 17:00), descontando os atrasos e o tempo utilizado para buscar o filho. O Tempo Considerado para Pagamento possui finalidade exclusivamente financeira e não participa do cálculo do banco de horas."
+              "O saldo do banco de horas é calculado utilizando os créditos obtidos pela permanência trabalhando além dos horários previstos da jornada (como sair para o almoço depois do horário ou trabalhar após a saída prevista), descontando os atrasos e os ajustes descontados (como buscar o filho) e somando os ajustes abonados (como consulta médica). O Tempo Considerado para Pagamento possui finalidade exclusivamente financeira e não participa do cálculo do banco de horas."
             </p>
           </div>
         </div>
@@ -1051,13 +1318,8 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
                 const dayName = format(dateObj, 'EEE', { locale: ptBR }).toUpperCase();
                 const dayNum = format(dateObj, 'dd/MM');
 
-                const dayDetails = calculateDayDetails(
-                  entry.morningArrival,
-                  entry.morningExit,
-                  entry.afternoonArrival,
-                  entry.afternoonExit,
-                  entry.schoolMinutes || 0
-                );
+                const dayDetails = calculateEntryDetails(entry, schedules, pontoCategories);
+                const editedMarks = getEditedMarks(entry);
 
                 return (
                   <div key={entry.id} className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800/80 rounded-xl p-3 space-y-2 hover:border-slate-200 dark:hover:border-slate-800 transition-all shadow-2xs">
@@ -1069,18 +1331,21 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
                         </div>
                         <div className="space-y-0.5">
                           <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
-                            <span className="font-bold text-slate-700 dark:text-slate-300">Manhã:</span>
-                            <span className="font-mono bg-slate-50 dark:bg-slate-950 px-1 py-0.5 rounded border border-slate-100 dark:border-slate-900 font-medium text-slate-600 dark:text-slate-400">
-                              {entry.morningArrival} às {entry.morningExit || '12:00'}
-                            </span>
-                            <span className="font-bold text-slate-700 dark:text-slate-300">Tarde:</span>
-                            <span className="font-mono bg-slate-50 dark:bg-slate-950 px-1 py-0.5 rounded border border-slate-100 dark:border-slate-900 font-medium text-slate-600 dark:text-slate-400">
-                              {entry.afternoonArrival} às {entry.afternoonExit || '17:00'}
-                            </span>
+                            {entry.intervals.length === 0 && <span className="text-slate-400">Sem intervalos</span>}
+                            {entry.intervals.map((interval, index) => (
+                              <span key={index} className="font-mono bg-slate-50 dark:bg-slate-950 px-1 py-0.5 rounded border border-slate-100 dark:border-slate-900 font-medium text-slate-600 dark:text-slate-400">
+                                {describeInterval(interval)}
+                              </span>
+                            ))}
                           </div>
                           <p className="text-[10px] text-slate-400">
-                            Registrado: {formatMinutesToHuman(dayDetails.tempoRegistrado)} | Atraso: {dayDetails.atrasos}m | Buscar filho: {dayDetails.buscarFilho}m | Crédito: {dayDetails.creditoPermanencia}m
+                            Registrado: {formatMinutesToHuman(dayDetails.tempoRegistrado)}{dayDetails.pausas > 0 ? ` | Pausas: ${dayDetails.pausas}m` : ''} | Atraso: {dayDetails.atrasos}m | Crédito: {dayDetails.creditoPermanencia}m{dayDetails.ajustes.map(a => ` | ${a.nome}: ${a.abonado ? '+' : '-'}${a.minutos}m`).join('')}
                           </p>
+                          {editedMarks.length > 0 && (
+                            <p className="text-[10px] font-semibold text-amber-600 dark:text-amber-400">
+                              * Corrigido: {editedMarks.map(({ index, mark }) => `${PONTO_MARKS.find(m => m.mark === mark)!.label} ${index + 1} (batida ${punchTime(entry.intervals[index].punches![mark]!)})`).join(', ')}
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -1121,10 +1386,13 @@ const PontoTab: React.FC<PontoTabProps> = ({ onUpdate }) => {
           O sistema realiza o cálculo com transparência total e zero segredos:
         </p>
         <ul className="list-disc pl-4 space-y-1.5 leading-relaxed">
-          <li><strong>Jornada Padronizada:</strong> 08:00 às 12:00 e 13:30 às 17:00 (Total previsto: 7h 30min / 450 minutos diários).</li>
-          <li><strong>Valor Diário e do Minuto:</strong> Diária de R$ 75,00 ÷ 450 min = <strong>R$ 0,166667 por minuto</strong>.</li>
-          <li><strong>Tempo Considerado:</strong> Tempo Registrado - Total de Atrasos - Tempo para Buscar Filho.</li>
-          <li><strong>Saldo e Desconto do Dia:</strong> Créditos de Permanência (após as 17:00) abatem os Atrasos e a Saída para Buscar Filho. Se houver saldo negativo, o valor correspondente ao saldo é descontado. Se o saldo for positivo, permanece registrado como crédito de tempo.</li>
+          <li><strong>Jornada Atual:</strong> {describeWeek(todaySchedule)}. Ajuste em Configurações; dias anteriores a uma mudança mantêm a jornada da época.</li>
+          <li><strong>Valor Diário e do Minuto:</strong> Diária de R$ {todaySchedule.dailyRate.toFixed(2).replace('.', ',')} ÷ {todayReferenceMinutes} min (dia mais longo da semana) = <strong>R$ {getMinuteRate(todaySchedule).toFixed(6).replace('.', ',')} por minuto</strong>.</li>
+          <li><strong>Tolerância:</strong> {describeTolerance(getTolerance(todaySchedule))}. Os atrasos e créditos exibidos já vêm com a tolerância aplicada.</li>
+          <li><strong>Trabalho Noturno:</strong> Minutos entre 22h e 5h contam em hora reduzida de 52min30s{todaySchedule.nightShiftPercent ? ` e recebem adicional de ${todaySchedule.nightShiftPercent}%` : ' (adicional noturno não configurado)'}. Turnos que passam da meia-noite ficam no dia em que começaram.</li>
+          <li><strong>Ajustes por Categoria:</strong> {getPontoCategories(pontoCategories).map(c => `${c.name} (${c.paid ? 'abonado' : 'descontado'})`).join(', ')}. Ajustes descontados saem do saldo; abonados contam como tempo trabalhado.</li>
+          <li><strong>Tempo Considerado:</strong> Tempo Registrado - Ajustes Descontados + Ajustes Abonados.</li>
+          <li><strong>Saldo e Desconto do Dia:</strong> Créditos de Permanência (fora do horário previsto) e Ajustes Abonados abatem os Atrasos e os Ajustes Descontados. Se houver saldo negativo, o valor correspondente ao saldo é descontado. Se o saldo for positivo, permanece registrado como crédito de tempo.</li>
         </ul>
       </Card>
     </div>
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, startOfMonth, endOfMonth } from 'date-fns';
+import { Download, HardHat } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { UserSettings } from '../types';
+import { getExpenses, getTools, getWorkEntries, loadRecordsFrom } from '../services/storageService';
+import { buildProjectReport, PROJECT_STATUS_LABELS, ProjectReportRow } from '../services/projects';
+
+interface ProjectReportProps {
+  settings: UserSettings;
+  dataVersion: number;
+}
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2)}`;
+
+const formatDays = (days: number) => days.toString().replace('.', ',');
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm';
+
+const rowName = (row: ProjectReportRow) => row.project?.name ?? 'Sem obra';
+
+// Relatório por obra: dias, mão de obra, ferramentas e despesas no período escolhido
+const ProjectReport: React.FC<ProjectReportProps> = ({ settings, dataVersion }) => {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+
+  const [recordsVersion, setRecordsVersion] = useState(0);
+
+  // Período mais antigo que os registros carregados na abertura
+  useEffect(() => {
+    if (startDate) loadRecordsFrom(startDate).then(loaded => { if (loaded) setRecordsVersion(v => v + 1); });
+  }, [startDate]);
+
+  const rows = useMemo(
+    () => buildProjectReport({ entries: getWorkEntries(), tools: getTools(), expenses: getExpenses() }, settings, startDate, endDate),
+    [settings, startDate, endDate, dataVersion, recordsVersion]
+  );
+
+  const periodLabel = startDate && endDate
+    ? `${format(parseISO(startDate), 'dd/MM/yyyy')} a ${format(parseISO(endDate), 'dd/MM/yyyy')}`
+    : '';
+
+  const generatePDF = () => {
+    const doc = new jsPDF();
+    doc.text(`Relatório por Obra - ${periodLabel}`, 14, 20);
+    autoTable(doc, {
+      startY: 30,
+      head: [['Obra', 'Dias', 'Serv. extras', 'Mão de obra', 'Ferramentas', 'Despesas']],
+      body: rows.map(row => [
+        [rowName(row), row.project?.client].filter(Boolean).join('\n'),
+        formatDays(row.daysWorked),
+        row.extraServices.toString(),
+        formatMoney(row.labourValue),
+        formatMoney(row.toolsTotal),
+        formatMoney(row.expensesTotal)
+      ]),
+      columnStyles: { 0: { fontStyle: 'bold' } }
+    });
+    doc.save(`Relatorio_Obras_${periodLabel.replace(/[\s/]/g, '_')}.pdf`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">De</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Até</label>
+          <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-10 bg-slate-50 dark:bg-slate-900 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 text-slate-400 font-medium">
+          {(settings.projects || []).length === 0 ? 'Cadastre as obras em Configurações.' : 'Nenhum lançamento no período.'}
+        </div>
+      ) : (
+        <>
+          {rows.map(row => (
+            <div key={row.project?.id ?? 'sem-obra'} className="bg-white dark:bg-slate-900 p-4 rounded-xl shadow-sm border border-slate-100 dark:border-slate-800 border-l-[6px] border-l-amber-500">
+              <div className="flex justify-between items-start mb-2">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-800 dark:text-slate-200 text-sm flex items-center gap-1.5">
+                    <HardHat className="w-4 h-4 text-amber-500 shrink-0" /> {rowName(row)}
+                  </p>
+                  {row.project && (
+                    <p className="text-xs text-slate-500 truncate">
+                      {[row.project.client, row.project.address, PROJECT_STATUS_LABELS[row.project.status]].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <span className="font-bold text-sm text-emerald-600 dark:text-emerald-400 shrink-0">{formatMoney(row.labourValue)}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-slate-50 dark:bg-slate-800 p-2 rounded-lg">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase">Dias</p>
+                  <p className="text-sm font-bold text-slate-700 dark:text-slate-300">
+                    {formatDays(row.daysWorked)}{row.extraServices > 0 && ` + ${row.extraServices} serv.`}
+                  </p>
+                </div>
+                <div className="bg-slate-50 dark:bg-slate-800 p-2 rounded-lg">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase">Ferramentas</p>
+                  <p className="text-sm font-bold text-indigo-600 dark:text-indigo-400">{formatMoney(row.toolsTotal)}</p>
+                </div>
+                <div className="bg-slate-50 dark:bg-slate-800 p-2 rounded-lg">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase">Despesas</p>
+                  <p className="text-sm font-bold text-orange-600 dark:text-orange-400">{formatMoney(row.expensesTotal)}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <button onClick={generatePDF} className="w-full flex items-center justify-center gap-2 bg-slate-800 text-white p-4 rounded-xl font-bold active:scale-95 transition-all">
+            <Download className="w-5 h-5" /> Baixar PDF por Obra
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectReport;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { HardHat } from 'lucide-react';
+import { UserSettings } from '../types';
+import { getProjects, getSelectableProjects } from '../services/projects';
+
+interface ProjectSelectProps {
+  settings: UserSettings;
+  value: string; // '' = sem obra
+  onChange: (projectId: string) => void;
+  className?: string;
+}
+
+// Seletor de obra. Só aparece quando há obras cadastradas; as concluídas não são oferecidas.
+const ProjectSelect: React.FC<ProjectSelectProps> = ({ settings, value, onChange, className = '' }) => {
+  if (getProjects(settings).length === 0) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <HardHat className="w-4 h-4 text-slate-400 shrink-0" />
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm font-semibold text-slate-700 dark:text-slate-200"
+      >
+        <option value="">Sem obra</option>
+        {getSelectableProjects(settings, value).map(project => (
+          <option key={project.id} value={project.id}>{project.client ? `${project.name} · ${project.client}` : project.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ProjectSelect;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { HardHat, Plus, Trash2 } from 'lucide-react';
+import { Project, ProjectStatus } from '../types';
+import { Card } from './ui/Card';
+import { PROJECT_STATUS_LABELS } from '../services/projects';
+
+interface ProjectsEditorProps {
+  projects?: Project[];
+  onChange: (projects: Project[]) => void;
+}
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm bg-white dark:bg-slate-950';
+
+const ProjectsEditor: React.FC<ProjectsEditorProps> = ({ projects = [], onChange }) => {
+  const [name, setName] = useState('');
+
+  const update = (id: string, changes: Partial<Project>) => {
+    onChange(projects.map(p => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onChange([...projects, { id: Date.now().toString(), name: name.trim(), status: 'ativa' }]);
+    setName('');
+  };
+
+  // Para tirar dos seletores sem perder o histórico, o melhor é marcar como concluída
+  const handleRemove = (project: Project) => {
+    if (confirm(`Excluir a obra "${project.name}"? Os lançamentos dela passam a aparecer como "Sem obra". Para só tirá-la dos lançamentos, marque como concluída.`)) {
+      onChange(projects.filter(p => p.id !== project.id));
+    }
+  };
+
+  return (
+    <Card title="Obras">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Dias trabalhados, serviços extras, ferramentas e despesas podem ser marcados com a obra. O relatório "Obras" soma tudo por obra.
+      </p>
+
+      <div className="space-y-3">
+        {projects.map(project => (
+          <div key={project.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-2">
+            <div className="flex items-center gap-2">
+              <HardHat className={`w-4 h-4 shrink-0 ${project.status === 'concluida' ? 'text-slate-400' : 'text-amber-500'}`} />
+              <input
+                type="text"
+                value={project.name}
+                onChange={(e) => update(project.id, { name: e.target.value })}
+                className={`${inputClass} font-semibold`}
+              />
+              <button onClick={() => handleRemove(project)} className="p-1 text-slate-400 hover:text-rose-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={project.client || ''}
+                onChange={(e) => update(project.id, { client: e.target.value || undefined })}
+                placeholder="Cliente"
+                className={inputClass}
+              />
+              <select value={project.status} onChange={(e) => update(project.id, { status: e.target.value as ProjectStatus })} className={inputClass}>
+                {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(status => (
+                  <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={project.address || ''}
+                onChange={(e) => update(project.id, { address: e.target.value || undefined })}
+                placeholder="Endereço"
+                className={`${inputClass} col-span-2`}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nova obra (ex: Reforma Casa Centro)"
+          className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+        />
+        <button onClick={handleAdd} className="p-2 bg-amber-500 text-white rounded-lg" title="Adicionar obra">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default ProjectsEditor;
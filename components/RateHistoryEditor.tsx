@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { PayRule, RateVersion, UserSettings, WorkStatus } from '../types';
+import { Card } from './ui/Card';
+import { translateStatus } from './ReportsTab';
+import PayRulesFields from './PayRulesFields';
+import { addRateVersion, describePayRule, getPayRule, getSettingsOn } from '../services/payRules';
+import { getEmployerName, getEmployerSettings, getEmployers, hasMultipleEmployers, MAIN_EMPLOYER_ID, toEmployerField } from '../services/employers';
+
+interface RateHistoryEditorProps {
+  settings: UserSettings;
+  onChange: (rateHistory: RateVersion[]) => void;
+}
+
+const inputClass = 'p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900';
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+// Tabela de reajustes: cada versão vale a partir de uma data, para o registro de qualquer dia usar o valor da época
+const RateHistoryEditor: React.FC<RateHistoryEditorProps> = ({ settings, onChange }) => {
+  const versions = settings.rateHistory || [];
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [employerId, setEmployerId] = useState(MAIN_EMPLOYER_ID);
+  const current = getSettingsOn(today, getEmployerSettings(settings, employerId), employerId);
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const [dailyRate, setDailyRate] = useState<number>(current.dailyRate);
+  const [rules, setRules] = useState<Partial<Record<WorkStatus, PayRule>>>({});
+
+  const ruleFor = (status: WorkStatus) => rules[status] ?? getPayRule(status, current);
+
+  const handleRuleChange = (status: WorkStatus, changes: Partial<PayRule>) => {
+    setRules({ ...rules, [status]: { ...ruleFor(status), ...changes } });
+  };
+
+  const handleEmployerChange = (id: string) => {
+    setEmployerId(id);
+    setDailyRate(getSettingsOn(today, getEmployerSettings(settings, id), id).dailyRate);
+    setRules({});
+  };
+
+  // Só as regras alteradas no formulário ficam na versão; as demais seguem as configurações.
+  // Reajuste do principal fica sem empregador; o dos demais guarda o id do empregador.
+  const handleAdd = () => {
+    if (!effectiveFrom || dailyRate <= 0) return;
+    const payRules = Object.keys(rules).length > 0 ? rules : undefined;
+    onChange(addRateVersion(versions, { effectiveFrom, dailyRate, payRules, employerId: toEmployerField(employerId) }));
+    setRules({});
+  };
+
+  const handleRemove = (version: RateVersion) => {
+    if (confirm(`Excluir o reajuste de ${format(parseISO(version.effectiveFrom), 'dd/MM/yyyy')}? Os registros já salvos mantêm o valor gravado.`)) {
+      onChange(versions.filter(v => v.id !== version.id));
+    }
+  };
+
+  return (
+    <Card title="Reajustes">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Diária e regras a partir de uma data. O registro de qualquer dia, mesmo lançado depois, usa o valor em vigor naquela data.
+        Antes do primeiro reajuste valem os valores acima.
+      </p>
+
+      {versions.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {versions.map(version => (
+            <div key={version.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 flex items-start gap-2">
+              <div className="flex-1 min-w-0 text-xs text-slate-600 dark:text-slate-300">
+                <p className="text-sm font-bold text-slate-700 dark:text-slate-200">
+                  A partir de {format(parseISO(version.effectiveFrom), 'dd/MM/yyyy')} · {formatMoney(version.dailyRate)}
+                </p>
+                {version.employerId && <p>Só para {getEmployerName(version.employerId, settings)}</p>}
+                {Object.entries(version.payRules || {}).map(([status, rule]) => (
+                  <p key={status}>{translateStatus(status as WorkStatus)}: {describePayRule(rule as PayRule)}</p>
+                ))}
+              </div>
+              <button onClick={() => handleRemove(version)} className="p-1 text-slate-400 hover:text-rose-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 pt-4 border-t border-slate-100 dark:border-slate-800">
+        {hasMultipleEmployers(settings) && (
+          <select value={employerId} onChange={(e) => handleEmployerChange(e.target.value)} className={`${inputClass} w-full`}>
+            {getEmployers(settings).map(employer => <option key={employer.id} value={employer.id}>{employer.name}</option>)}
+          </select>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">A partir de</label>
+            <input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} className={`${inputClass} w-full`} />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Diária (R$)</label>
+            <input type="number" step="0.01" value={dailyRate} onChange={(e) => setDailyRate(parseFloat(e.target.value) || 0)} className={`${inputClass} w-full`} />
+          </div>
+        </div>
+
+        <PayRulesFields dailyRate={dailyRate} getRule={ruleFor} isCustom={status => !!rules[status]} onChange={handleRuleChange} />
+
+        <button onClick={handleAdd} className="w-full py-2 bg-violet-600 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-1">
+          <Plus className="w-4 h-4" /> Adicionar reajuste
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default RateHistoryEditor;
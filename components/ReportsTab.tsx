@@ -2,14 +2,21 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { format, startOfMonth, endOfMonth, isSameMonth, parseISO, addMonths, subMonths, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { ChevronLeft, ChevronRight, Download, Edit, Trash2, Wallet, TrendingDown, TrendingUp, CalendarSearch, CalendarRange, Calendar, RotateCcw, Share2, History } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Download, Edit, Trash2, Wallet, TrendingDown, TrendingUp, CalendarSearch, CalendarRange, Calendar, RotateCcw, Share2, History, HardHat } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
-import { UserSettings, WorkEntry, WorkStatus, AdvanceEntry, MonthlyStats, ToolEntry, PontoEntry } from '../types';
-import { getWorkEntries, getAdvances, deleteWorkEntry, deleteAdvance, getTools, deleteTool, getCycleHistory, deleteCycleHistory, getPontoEntries } from '../services/storageService';
+import { UserSettings, WorkEntry, WorkStatus, AdvanceEntry, ToolEntry, PontoEntry, PaymentEntry } from '../types';
+import { getWorkEntries, getAdvances, deleteWorkEntry, deleteAdvance, getTools, deleteTool, getCycleHistory, deleteCycleHistory, getPontoEntries, getPayments, savePayment, deletePayment, loadRecordsFrom } from '../services/storageService';
 import { Card } from './ui/Card';
-import { calculateDayDetails } from './PontoTab';
+import { computeStats, roundCurrency } from '../services/calculations';
+import { getEntryValue } from '../services/payRules';
+import { ALL_EMPLOYERS, getEmployerName, getEmployerSettings, getEmployers, hasMultipleEmployers, selectEmployerData } from '../services/employers';
+import EmployerSelect from './EmployerSelect';
+import ProjectReport from './ProjectReport';
+import { getProjectName } from '../services/projects';
+import { buildPaymentLedger } from '../services/payments';
+import PaymentLedger, { EmployerLedger } from './PaymentLedger';
 
 interface ReportsTabProps {
   settings: UserSettings;
@@ -17,9 +24,9 @@ interface ReportsTabProps {
   dataVersion: number;
 }
 
-type ReportMode = 'month' | 'custom' | 'cycle' | 'history';
+type ReportMode = 'month' | 'custom' | 'cycle' | 'history' | 'projects';
 
-const translateStatus = (status: WorkStatus): string => {
+export const translateStatus = (status: WorkStatus): string => {
   switch (status) {
     case WorkStatus.WORKED: return 'Dia Inteiro';
     case WorkStatus.HALF_DAY: return 'Meio Período';
@@ -28,10 +35,15 @@ const translateStatus = (status: WorkStatus): string => {
     case WorkStatus.EXTRA_SERVICE: return 'Serviço Extra';
     case WorkStatus.SATURDAY_FULL: return 'Sábado Dia Inteiro';
     case WorkStatus.SUNDAY: return 'Domingo';
+    case WorkStatus.HOLIDAY: return 'Feriado';
     default: return status;
   }
 };
 
+// Descrição do registro diário: falta justificada aparece como tal (o tipo vai na observação)
+export const describeWorkEntry = (entry: WorkEntry): string =>
+  entry.status === WorkStatus.MISSED && entry.absenceId ? 'Falta Justificada' : translateStatus(entry.status);
+
 const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }) => {
   const [reportMode, setReportMode] = useState<ReportMode>('cycle');
   const [currentMonthDate, setCurrentMonthDate] = useState(new Date());
@@ -42,6 +54,9 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
   const [tools, setTools] = useState<ToolEntry[]>([]);
   const [cycleHistory, setCycleHistory] = useState<any[]>([]);
   const [ponto, setPonto] = useState<PontoEntry[]>([]);
+  const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const [employerFilter, setEmployerFilter] = useState(ALL_EMPLOYERS);
+  const employerName = employerFilter === ALL_EMPLOYERS ? '' : getEmployerName(employerFilter, settings);
 
   useEffect(() => {
     setEntries(getWorkEntries());
@@ -49,8 +64,21 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
     setTools(getTools());
     setCycleHistory(getCycleHistory());
     setPonto(getPontoEntries());
+    setPayments(getPayments());
   }, [dataVersion]); 
 
+  // Mês, período ou início de ciclo mais antigo que os registros carregados na abertura
+  useEffect(() => {
+    const starts = getEmployers(settings).map(employer => getEmployerSettings(settings, employer.id).billingCycleStartDate || '2024-12-16');
+    if (reportMode === 'month') starts.push(format(startOfMonth(currentMonthDate), 'yyyy-MM-dd'));
+    if (reportMode === 'custom' && customStartDate) starts.push(customStartDate);
+    loadRecordsFrom(starts.sort()[0]).then(loaded => {
+      if (!loaded) return;
+      setEntries(getWorkEntries());
+      setPonto(getPontoEntries());
+    });
+  }, [settings, reportMode, currentMonthDate, customStartDate]);
+
   const handleDeleteWork = (id: string) => {
     if (window.confirm("Excluir este registro de trabalho?")) {
         // Optimistic UI update
@@ -82,85 +110,92 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
     }
   };
 
-  const { monthlyEntries, monthlyAdvances, monthlyTools, stats, periodLabel } = useMemo(() => {
+  const handleSavePayment = (payment: PaymentEntry) => {
+    setPayments(prev => [...prev.filter(p => p.id !== payment.id), payment]);
+    savePayment(payment);
+  };
+
+  const handleDeletePayment = (id: string) => {
+    setPayments(prev => prev.filter(p => p.id !== id));
+    deletePayment(id);
+  };
+
+  const getCycleStart = (employerId: string) =>
+    (employerId === ALL_EMPLOYERS ? settings : getEmployerSettings(settings, employerId)).billingCycleStartDate || '2024-12-16';
+
+  // Registros do período no modo escolhido para um empregador. No ciclo, cada empregador conta a partir do próprio início.
+  const selectPeriod = (employerId: string, mode: ReportMode = reportMode) => {
+    const { entries: eEntries, advances: eAdvances, tools: eTools, ponto: ePonto } = selectEmployerData({ entries, advances, tools, ponto }, employerId);
     let fEntries: WorkEntry[] = [];
     let fAdvances: AdvanceEntry[] = [];
     let fTools: ToolEntry[] = [];
     let fPonto: PontoEntry[] = [];
     let label = '';
 
-    if (reportMode === 'month') {
-        fEntries = entries.filter(e => isSameMonth(parseISO(e.date), currentMonthDate));
-        fAdvances = advances.filter(a => isSameMonth(parseISO(a.date), currentMonthDate));
-        fTools = tools.filter(t => isSameMonth(parseISO(t.date), currentMonthDate));
-        fPonto = ponto.filter(p => isSameMonth(parseISO(p.date), currentMonthDate));
+    if (mode === 'month') {
+        fEntries = eEntries.filter(e => isSameMonth(parseISO(e.date), currentMonthDate));
+        fAdvances = eAdvances.filter(a => isSameMonth(parseISO(a.date), currentMonthDate));
+        fTools = eTools.filter(t => isSameMonth(parseISO(t.date), currentMonthDate));
+        fPonto = ePonto.filter(p => isSameMonth(parseISO(p.date), currentMonthDate));
         label = format(currentMonthDate, 'MMMM/yyyy', { locale: ptBR }).toUpperCase();
-    } else if (reportMode === 'cycle') {
-        const cycleStart = settings.billingCycleStartDate || '2024-12-16';
-        fEntries = entries.filter(e => e.date >= cycleStart);
-        fAdvances = advances.filter(a => a.date >= cycleStart);
-        fTools = tools.filter(t => t.date >= cycleStart);
-        fPonto = ponto.filter(p => p.date >= cycleStart);
+    } else if (mode === 'cycle') {
+        const cycleStart = getCycleStart(employerId);
+        fEntries = eEntries.filter(e => e.date >= cycleStart);
+        fAdvances = eAdvances.filter(a => a.date >= cycleStart);
+        fTools = eTools.filter(t => t.date >= cycleStart);
+        fPonto = ePonto.filter(p => p.date >= cycleStart);
         label = `SALDO DESDE ${format(parseISO(cycleStart), 'dd/MM/yyyy')}`;
     } else {
         const start = startOfDay(parseISO(customStartDate));
         const end = endOfDay(parseISO(customEndDate));
-        fEntries = entries.filter(e => isWithinInterval(parseISO(e.date), { start, end }));
-        fAdvances = advances.filter(a => isWithinInterval(parseISO(a.date), { start, end }));
-        fTools = tools.filter(t => isWithinInterval(parseISO(t.date), { start, end }));
-        fPonto = ponto.filter(p => isWithinInterval(parseISO(p.date), { start, end }));
+        fEntries = eEntries.filter(e => isWithinInterval(parseISO(e.date), { start, end }));
+        fAdvances = eAdvances.filter(a => isWithinInterval(parseISO(a.date), { start, end }));
+        fTools = eTools.filter(t => isWithinInterval(parseISO(t.date), { start, end }));
+        fPonto = ePonto.filter(p => isWithinInterval(parseISO(p.date), { start, end }));
         label = `${format(start, 'dd/MM/yyyy')} a ${format(end, 'dd/MM/yyyy')}`;
     }
 
-    const s: MonthlyStats = {
-      daysWorked: 0, daysMissed: 0, grossTotal: 0, totalAdvances: 0, totalFromTools: 0, finalTotal: 0,
-      totalFromDays: 0, totalFromOvertime: 0, totalFromExtraServices: 0,
-      pontoMinutesOwed: 0,
-      pontoDiscountValue: 0
-    };
+    const s = computeStats({ entries: fEntries, advances: fAdvances, tools: fTools, ponto: fPonto, schedules: settings.workSchedules, categories: settings.pontoCategories });
 
-    fEntries.forEach(e => {
-      if (e.status === WorkStatus.WORKED) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-      else if (e.status === WorkStatus.HALF_DAY) { s.daysWorked += 0.5; s.totalFromDays += (e.dailyRateSnapshot / 2); }
-      else if (e.status === WorkStatus.SATURDAY_FULL) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-      else if (e.status === WorkStatus.SUNDAY) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-      else if (e.status === WorkStatus.MISSED) s.daysMissed += 1;
-      else if (e.status === WorkStatus.EXTRA_SERVICE) s.totalFromExtraServices += e.dailyRateSnapshot;
-      if (e.overtimeValue) s.totalFromOvertime += e.overtimeValue;
-    });
+    return { fEntries, fAdvances, fTools, stats: s, label };
+  };
+
+  const { monthlyEntries, monthlyAdvances, monthlyTools, stats, periodLabel, employerBalances } = useMemo(() => {
+    const { fEntries, fAdvances, fTools, stats: s, label } = selectPeriod(employerFilter);
 
-    const pontoCalculated = fPonto.reduce((acc, curr) => {
-      const details = calculateDayDetails(
-        curr.morningArrival,
-        curr.morningExit,
-        curr.afternoonArrival,
-        curr.afternoonExit,
-        curr.schoolMinutes || 0
-      );
-      acc.saldoMinutos += details.saldoMinutos;
-      acc.desconto += details.descontoDia;
-      return acc;
-    }, { saldoMinutos: 0, desconto: 0 });
-
-    const pontoMinutesOwed = pontoCalculated.saldoMinutos < 0 ? Math.abs(pontoCalculated.saldoMinutos) : 0;
-    const pontoDiscountValue = pontoCalculated.desconto;
-
-    s.pontoMinutesOwed = pontoMinutesOwed;
-    s.pontoDiscountValue = pontoDiscountValue;
-
-    s.grossTotal = s.totalFromDays + s.totalFromOvertime + s.totalFromExtraServices;
-    s.totalAdvances = fAdvances.reduce((acc, curr) => acc + curr.amount, 0);
-    s.totalFromTools = fTools.reduce((acc, curr) => acc + curr.amount, 0);
-    s.finalTotal = (s.grossTotal + s.totalFromTools) - s.totalAdvances - pontoDiscountValue;
+    // Saldo de cada empregador no mesmo período (só na visão de todos)
+    const balances = employerFilter === ALL_EMPLOYERS && hasMultipleEmployers(settings)
+      ? getEmployers(settings).map(employer => ({ employer, stats: selectPeriod(employer.id).stats }))
+      : [];
 
     return { 
         monthlyEntries: fEntries.sort((a,b) => a.date.localeCompare(b.date)), 
         monthlyAdvances: fAdvances.sort((a,b) => a.date.localeCompare(b.date)), 
         monthlyTools: fTools.sort((a,b) => a.date.localeCompare(b.date)),
         stats: s, 
-        periodLabel: label 
+        periodLabel: label,
+        employerBalances: balances
     };
-  }, [currentMonthDate, customStartDate, customEndDate, reportMode, entries, advances, tools, ponto, settings.billingCycleStartDate]);
+  }, [currentMonthDate, customStartDate, customEndDate, reportMode, entries, advances, tools, ponto, employerFilter, settings]);
+
+  // Extrato de pagamentos de cada empregador, terminando no ciclo atual
+  const ledgers: EmployerLedger[] = useMemo(() => getEmployers(settings).map(employer => ({
+    employer,
+    rows: buildPaymentLedger(employer.id, cycleHistory, payments, {
+      startDate: getCycleStart(employer.id),
+      total: selectPeriod(employer.id, 'cycle').stats.finalTotal
+    })
+  })), [entries, advances, tools, ponto, cycleHistory, payments, settings]);
+
+  const cycleBalances = useMemo(() => new Map(ledgers.flatMap(l => l.rows).filter(r => r.cycle).map(r => [r.cycle!.id, r])), [ledgers]);
+
+  // Saldo anterior e pagamentos do ciclo atual (no filtro "todos", somados)
+  const openCycle = useMemo(() => {
+    const rows = ledgers.filter(l => employerFilter === ALL_EMPLOYERS || l.employer.id === employerFilter).map(l => l.rows[l.rows.length - 1]);
+    const carriedIn = roundCurrency(rows.reduce((acc, r) => acc + r.carriedIn, 0));
+    const paid = roundCurrency(rows.reduce((acc, r) => acc + r.paid, 0));
+    return { carriedIn, paid, toReceive: roundCurrency(stats.finalTotal + carriedIn - paid), show: reportMode === 'cycle' && (carriedIn !== 0 || paid !== 0) };
+  }, [ledgers, employerFilter, stats, reportMode]);
 
   const allItems = useMemo(() => [
         ...monthlyEntries.map(i => ({...i, itemType: 'work'})),
@@ -188,10 +223,10 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
 
     // É Trabalho
     const status = item.status as WorkStatus;
-    const baseRate = item.dailyRateSnapshot;
+    const dayValue = getEntryValue(item);
     const overtime = item.overtimeValue || 0;
 
-    if (status === WorkStatus.MISSED || status === WorkStatus.DAY_OFF) {
+    if ((status === WorkStatus.MISSED || status === WorkStatus.DAY_OFF) && dayValue === 0) {
         return { 
             value: 0, 
             color: 'text-slate-400 dark:text-slate-500', // Cinza neutro
@@ -199,17 +234,9 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
         };
     }
 
-    if (status === WorkStatus.HALF_DAY) {
-        return { 
-            value: (baseRate / 2) + overtime, // Metade da diária
-            color: 'text-emerald-600 dark:text-emerald-400', 
-            prefix: '+' 
-        };
-    }
-
-    // Dia Inteiro, Sábado Dia Inteiro, Domingo ou Serviço Extra
+    // Valor conforme a regra de pagamento do status (gravado no registro)
     return { 
-        value: baseRate + overtime, 
+        value: dayValue + overtime, 
         color: 'text-emerald-600 dark:text-emerald-400', 
         prefix: '+' 
     };
@@ -220,15 +247,25 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                  `---------------------------\n` +
                  `*Período:* ${periodLabel}\n` +
                  `*Trabalhador:* ${settings.workerName || 'Não informado'}\n` +
+                 (employerName ? `*Empregador:* ${employerName}\n` : '') +
                  `---------------------------\n` +
                  `*Total Bruto:* R$ ${stats.grossTotal.toFixed(2)}\n` +
                  `*Ferramentas:* + R$ ${stats.totalFromTools.toFixed(2)}\n` +
                  `*Vales/Adiant.:* - R$ ${stats.totalAdvances.toFixed(2)}\n` +
+                 (stats.daysJustified ? `*Faltas justificadas:* ${stats.daysJustified}\n` : '') +
                  (stats.pontoMinutesOwed && stats.pontoMinutesOwed > 0 
                      ? `*Atraso Ponto:* - R$ ${stats.pontoDiscountValue?.toFixed(2)} (${stats.pontoMinutesOwed} min)\n` 
                      : '') +
+                 (stats.pontoNightShiftValue && stats.pontoNightShiftValue > 0
+                     ? `*Adicional Noturno:* + R$ ${stats.pontoNightShiftValue.toFixed(2)} (${stats.pontoNightMinutes} min)\n`
+                     : '') +
                  `---------------------------\n` +
-                 `*LÍQUIDO A RECEBER: R$ ${stats.finalTotal.toFixed(2)}*\n` +
+                 (openCycle.show
+                     ? `*Líquido do ciclo:* R$ ${stats.finalTotal.toFixed(2)}\n` +
+                       (openCycle.carriedIn !== 0 ? `*Saldo anterior:* R$ ${openCycle.carriedIn.toFixed(2)}\n` : '') +
+                       (openCycle.paid !== 0 ? `*Já recebido:* - R$ ${openCycle.paid.toFixed(2)}\n` : '') +
+                       `*A RECEBER: R$ ${openCycle.toReceive.toFixed(2)}*\n`
+                     : `*LÍQUIDO A RECEBER: R$ ${stats.finalTotal.toFixed(2)}*\n`) +
                  `---------------------------\n` +
                  `_Gerado por Meu Registro de Trabalho_`;
     
@@ -239,22 +276,20 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
   const generatePDF = () => {
     const doc = new jsPDF();
     doc.text(`Relatório de Serviços - ${periodLabel}`, 14, 20);
+    if (employerName) {
+      doc.setFontSize(11);
+      doc.text(`Empregador: ${employerName}`, 14, 27);
+      doc.setFontSize(16);
+    }
     
     autoTable(doc, {
-      startY: 30,
+      startY: employerName ? 33 : 30,
       head: [['Dia', 'Data', 'Descrição', 'Valor']],
       body: allItems.map(item => {
         let valString = '';
         if (item.itemType === 'work') {
-            const status = (item as any).status;
-            if (status === WorkStatus.MISSED || status === WorkStatus.DAY_OFF) {
-                valString = 'R$ 0.00';
-            } else {
-                let val = (item as any).dailyRateSnapshot;
-                if (status === WorkStatus.HALF_DAY) val = val / 2;
-                val += ((item as any).overtimeValue || 0);
-                valString = `R$ ${val.toFixed(2)}`;
-            }
+            const val = getEntryValue(item as any) + ((item as any).overtimeValue || 0);
+            valString = `R$ ${val.toFixed(2)}`;
         } else if (item.itemType === 'tool') {
             valString = `+ R$ ${(item as any).amount.toFixed(2)}`;
         } else {
@@ -265,7 +300,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
             format(parseISO(item.date), 'EEE', { locale: ptBR }).toUpperCase(),
             format(parseISO(item.date), 'dd/MM'),
             item.itemType === 'work' 
-                ? translateStatus((item as any).status) 
+                ? [describeWorkEntry(item as any), (item as any).absenceId ? (item as any).note : ''].filter(Boolean).join(': ')
                 : item.itemType === 'tool' 
                     ? `Ferramenta: ${(item as any).name}` 
                     : (item as any).note || 'Vale',
@@ -284,15 +319,29 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
     doc.text(`Total Vales: - R$ ${stats.totalAdvances.toFixed(2)}`, 14, finalY + 30);
     
     let currentY = finalY + 30;
+    if (stats.daysJustified) {
+        currentY += 10;
+        doc.text(`Faltas: ${stats.daysMissed} | Faltas justificadas: ${stats.daysJustified}`, 14, currentY);
+    }
     if (stats.pontoMinutesOwed && stats.pontoMinutesOwed > 0) {
         currentY += 10;
         doc.text(`Desconto Atraso Ponto: - R$ ${stats.pontoDiscountValue?.toFixed(2)} (${stats.pontoMinutesOwed} min)`, 14, currentY);
     }
+    if (stats.pontoNightShiftValue && stats.pontoNightShiftValue > 0) {
+        currentY += 10;
+        doc.text(`Adicional Noturno: + R$ ${stats.pontoNightShiftValue.toFixed(2)} (${stats.pontoNightMinutes} min em hora reduzida)`, 14, currentY);
+    }
     
     doc.setFontSize(14);
     doc.text(`LÍQUIDO: R$ ${stats.finalTotal.toFixed(2)}`, 14, currentY + 15);
+    if (openCycle.show) {
+        doc.setFontSize(12);
+        doc.text(`Saldo anterior: R$ ${openCycle.carriedIn.toFixed(2)} | Já recebido: - R$ ${openCycle.paid.toFixed(2)}`, 14, currentY + 25);
+        doc.setFontSize(14);
+        doc.text(`A RECEBER: R$ ${openCycle.toReceive.toFixed(2)}`, 14, currentY + 35);
+    }
     
-    doc.save(`Relatorio_${periodLabel.replace(/\s/g, '_')}.pdf`);
+    doc.save(`Relatorio_${[employerName, periodLabel].filter(Boolean).join('_').replace(/[\s/]/g, '_')}.pdf`);
   };
 
   return (
@@ -302,10 +351,16 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
         <button onClick={() => setReportMode('month')} className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${reportMode === 'month' ? 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300' : 'text-slate-500'}`}><Calendar className="w-4 h-4" />Mês</button>
         <button onClick={() => setReportMode('custom')} className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${reportMode === 'custom' ? 'bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300' : 'text-slate-500'}`}><CalendarSearch className="w-4 h-4" />Busca</button>
         <button onClick={() => setReportMode('history')} className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${reportMode === 'history' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'text-slate-500'}`}><History className="w-4 h-4" />Histórico</button>
+        <button onClick={() => setReportMode('projects')} className={`flex-1 py-2 px-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${reportMode === 'projects' ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' : 'text-slate-500'}`}><HardHat className="w-4 h-4" />Obras</button>
       </div>
 
-      {reportMode === 'history' ? (
+      {reportMode === 'projects' ? (
+          <ProjectReport settings={settings} dataVersion={dataVersion} />
+      ) : reportMode === 'history' ? (
           <div className="space-y-4">
+              {(cycleHistory.length > 0 || payments.length > 0) && (
+                  <PaymentLedger ledgers={ledgers} showEmployer={hasMultipleEmployers(settings)} onSave={handleSavePayment} onDelete={handleDeletePayment} />
+              )}
               <h3 className="text-sm font-bold text-slate-500 uppercase ml-2 tracking-wider">Ciclos Encerrados</h3>
               {cycleHistory.length === 0 ? (
                   <div className="text-center py-10 bg-slate-50 dark:bg-slate-900 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 text-slate-400 font-medium">
@@ -320,6 +375,9 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                                       {format(parseISO(cycle.startDate), 'dd/MM/yy')} a {format(parseISO(cycle.endDate), 'dd/MM/yy')}
                                   </p>
                                   <h4 className="font-bold text-slate-800 dark:text-white">Ciclo Encerrado</h4>
+                                  {hasMultipleEmployers(settings) && cycle.employerName && (
+                                      <p className="text-xs text-slate-500">{cycle.employerName}</p>
+                                  )}
                               </div>
                               <button onClick={() => handleDeleteHistory(cycle.id)} className="p-2 text-slate-300 hover:text-rose-600 transition-colors">
                                   <Trash2 className="w-5 h-5" />
@@ -340,6 +398,11 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                                   <p className="text-sm font-bold text-indigo-600 dark:text-indigo-300">R$ {cycle.stats.finalTotal.toFixed(2)}</p>
                               </div>
                           </div>
+                          {cycleBalances.has(cycle.id) && (
+                              <p className="text-xs text-slate-500 mb-4 -mt-2 text-center">
+                                  Recebido R$ {cycleBalances.get(cycle.id)!.paid.toFixed(2)} · Saldo R$ {cycleBalances.get(cycle.id)!.balance.toFixed(2)}
+                              </p>
+                          )}
 
                           <button 
                             onClick={() => {
@@ -347,12 +410,16 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                                              `---------------------------\n` +
                                              `*Período:* ${format(parseISO(cycle.startDate), 'dd/MM/yy')} a ${format(parseISO(cycle.endDate), 'dd/MM/yy')}\n` +
                                              `*Trabalhador:* ${cycle.workerName || 'Não informado'}\n` +
+                                             (hasMultipleEmployers(settings) && cycle.employerName ? `*Empregador:* ${cycle.employerName}\n` : '') +
                                              `---------------------------\n` +
                                              `*Total Bruto:* R$ ${cycle.stats.grossTotal.toFixed(2)}\n` +
                                              `*Ferramentas:* + R$ ${cycle.stats.totalFromTools.toFixed(2)}\n` +
                                              `*Vales/Adiant.:* - R$ ${cycle.stats.totalAdvances.toFixed(2)}\n` +
                                              `---------------------------\n` +
-                                             `*LÍQUIDO RECEBIDO: R$ ${cycle.stats.finalTotal.toFixed(2)}*\n` +
+                                             `*LÍQUIDO DO CICLO: R$ ${cycle.stats.finalTotal.toFixed(2)}*\n` +
+                                             (cycleBalances.has(cycle.id)
+                                                 ? `*Recebido:* R$ ${cycleBalances.get(cycle.id)!.paid.toFixed(2)}\n*Saldo em aberto:* R$ ${cycleBalances.get(cycle.id)!.balance.toFixed(2)}\n`
+                                                 : '') +
                                              `---------------------------\n` +
                                              `_Gerado por Meu Registro de Trabalho_`;
                                 const url = `https://wa.me/?text=${encodeURIComponent(text)}`;
@@ -368,6 +435,27 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
           </div>
       ) : (
           <>
+      <EmployerSelect settings={settings} value={employerFilter} onChange={setEmployerFilter} allowAll />
+
+      {employerBalances.length > 0 && (
+        <Card title="Saldo por Empregador">
+          <div className="space-y-2">
+            {employerBalances.map(({ employer, stats: employerStats }) => (
+              <button
+                key={employer.id}
+                onClick={() => setEmployerFilter(employer.id)}
+                className="w-full flex justify-between items-center text-sm p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800"
+              >
+                <span className="font-semibold text-slate-700 dark:text-slate-200">{employer.name}</span>
+                <span className={`font-bold ${employerStats.finalTotal >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}`}>
+                  R$ {employerStats.finalTotal.toFixed(2)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </Card>
+      )}
+
       <div className="grid grid-cols-2 gap-3">
           <div className="bg-emerald-50 dark:bg-emerald-900/20 p-4 rounded-2xl border border-emerald-100 dark:border-emerald-800">
              <p className="text-xs font-bold text-emerald-600 uppercase">Bruto</p>
@@ -387,13 +475,40 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                <p className="text-xl font-bold text-amber-700 dark:text-amber-300">-{stats.pontoMinutesOwed} min (R$ {stats.pontoDiscountValue?.toFixed(2)})</p>
             </div>
           ) : null}
-          <div className={`bg-gradient-to-r from-violet-600 to-indigo-600 p-5 rounded-2xl text-white shadow-lg relative overflow-hidden ${stats.pontoMinutesOwed && stats.pontoMinutesOwed > 0 ? 'col-span-2' : 'col-span-1'}`}>
+          {stats.pontoNightShiftValue && stats.pontoNightShiftValue > 0 ? (
+            <div className="bg-sky-50 dark:bg-sky-900/20 p-4 rounded-2xl border border-sky-100 dark:border-sky-800">
+               <p className="text-xs font-bold text-sky-600 uppercase">Adicional Noturno</p>
+               <p className="text-xl font-bold text-sky-700 dark:text-sky-300">+ {stats.pontoNightShiftValue.toFixed(2)} ({stats.pontoNightMinutes} min)</p>
+            </div>
+          ) : null}
+          <div className={`bg-gradient-to-r from-violet-600 to-indigo-600 p-5 rounded-2xl text-white shadow-lg relative overflow-hidden ${[stats.pontoMinutesOwed, stats.pontoNightShiftValue].filter(v => v && v > 0).length === 1 ? 'col-span-2' : 'col-span-1'}`}>
              <div className="absolute right-[-10%] top-[-20%] opacity-10 bg-white rounded-full w-32 h-32 blur-xl"></div>
              <p className="text-xs font-bold text-indigo-100 uppercase mb-1">LÍQUIDO</p>
              <p className="text-2xl font-extrabold tracking-tight">R$ {stats.finalTotal.toFixed(2)}</p>
           </div>
       </div>
 
+      {openCycle.show && (
+        <div className="bg-white dark:bg-slate-900 p-4 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-1 text-sm">
+          {openCycle.carriedIn !== 0 && (
+            <div className="flex justify-between">
+              <span className="text-slate-500">{openCycle.carriedIn > 0 ? 'Saldo anterior em aberto' : 'Recebido a mais antes'}</span>
+              <span className="font-bold text-slate-700 dark:text-slate-300">{openCycle.carriedIn > 0 ? '+' : '-'} {Math.abs(openCycle.carriedIn).toFixed(2)}</span>
+            </div>
+          )}
+          {openCycle.paid !== 0 && (
+            <div className="flex justify-between">
+              <span className="text-slate-500">Já recebido neste ciclo</span>
+              <span className="font-bold text-emerald-600 dark:text-emerald-400">- {openCycle.paid.toFixed(2)}</span>
+            </div>
+          )}
+          <div className="flex justify-between pt-1 border-t border-slate-100 dark:border-slate-800">
+            <span className="font-bold text-slate-700 dark:text-slate-200 uppercase text-xs self-center">A receber</span>
+            <span className="text-lg font-extrabold text-indigo-600 dark:text-indigo-300">R$ {openCycle.toReceive.toFixed(2)}</span>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-3">
           <button onClick={handleWhatsAppShare} className="flex items-center justify-center gap-2 bg-emerald-600 text-white p-4 rounded-xl font-bold shadow-lg shadow-emerald-100 dark:shadow-none active:scale-95 transition-all">
             <Share2 className="w-5 h-5" /> WhatsApp
@@ -404,7 +519,7 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
       </div>
 
       <div className="space-y-3">
-        <h3 className="text-sm font-bold text-slate-500 uppercase ml-2 tracking-wider">{periodLabel}</h3>
+        <h3 className="text-sm font-bold text-slate-500 uppercase ml-2 tracking-wider">{employerName ? `${employerName} · ${periodLabel}` : periodLabel}</h3>
         {allItems.length === 0 ? (
             <div className="text-center py-10 bg-slate-50 dark:bg-slate-900 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-800 text-slate-400 font-medium">
                 Nenhum registro encontrado.
@@ -423,13 +538,15 @@ const ReportsTab: React.FC<ReportsTabProps> = ({ settings, onEdit, dataVersion }
                             <p className="font-bold text-slate-800 dark:text-slate-200 text-sm">
                                 {format(parseISO(item.date), 'dd/MM')} • {
                                     item.itemType === 'work' 
-                                        ? translateStatus((item as any).status) 
+                                        ? describeWorkEntry(item as any) 
                                         : item.itemType === 'tool' 
                                             ? `Ferramenta: ${(item as any).name}` 
                                             : 'Vale'
                                 }
                             </p>
-                            <p className="text-xs text-slate-500 mt-0.5 truncate max-w-[180px]">{(item as any).serviceTitle || (item as any).note || ''}</p>
+                            <p className="text-xs text-slate-500 mt-0.5 truncate max-w-[180px]">
+                                {[(item as any).serviceTitle || (item as any).note, getProjectName((item as any).projectId, settings)].filter(Boolean).join(' · ')}
+                            </p>
                         </div>
                         <div className="flex items-center gap-5"> 
                             <span className={`font-bold text-sm ${color}`}>
@@ -1,20 +1,41 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { UserSettings } from '../types';
-import { saveSettings, exportAllData, importAllData, generateTestData, calculateStats, saveCycleHistory } from '../services/storageService';
+import { UserSettings, WorkStatus, PayRule, PayRuleType, RateVersion, EmployerProfile, Project, WorkSchedule, PontoCategory, TimeBankPolicy, AbsenceType, WorkTemplate } from '../types';
+import { saveSettings, getSettings, exportAllData, importAllData, previewImport, ImportPreview, ImportMode, generateTestData, calculateStats, saveCycleHistory, getCycleHistory, getPayments, savePayment, loadRecordsFrom } from '../services/storageService';
+import { formatBackupError } from '../services/backupService';
+import { CONFIGURABLE_STATUSES, getPayRule, calculateDayValue } from '../services/payRules';
+import { translateStatus } from './ReportsTab';
+import WorkScheduleEditor from './WorkScheduleEditor';
+import PontoCategoriesEditor from './PontoCategoriesEditor';
+import TimeBankPolicyEditor from './TimeBankPolicyEditor';
+import AbsenceTypesEditor from './AbsenceTypesEditor';
+import WorkTemplatesEditor from './WorkTemplatesEditor';
+import RateHistoryEditor from './RateHistoryEditor';
+import EmployersEditor from './EmployersEditor';
+import ProjectsEditor from './ProjectsEditor';
+import { MAIN_EMPLOYER_ID, getEmployerSettings, toEmployerField } from '../services/employers';
+import { buildPaymentLedger, getOpenPayments } from '../services/payments';
+import { roundCurrency } from '../services/calculations';
+import SnapshotRecalculation from './SnapshotRecalculation';
+import HolidaysEditor from './HolidaysEditor';
+import { clearLocalStore } from '../services/localStore';
 import { Card } from './ui/Card';
-import { User, DollarSign, Briefcase, Download, Upload, Database, AlertTriangle, Wand2, Sun, Moon, Bell, Clock, Code, LogOut, Loader2, CalendarCheck, RotateCcw, History, Trash2 } from 'lucide-react';
-import { format } from 'date-fns';
+import { User, DollarSign, Briefcase, Download, Upload, Database, AlertTriangle, Wand2, Sun, Moon, Bell, Clock, Code, LogOut, Loader2, CalendarCheck, RotateCcw, History, Trash2, FileCheck, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 
 interface SettingsTabProps {
   settings: UserSettings;
   onSave: (newSettings: UserSettings) => void;
+  onUpdate: () => void;
   onLogout: () => void;
 }
 
-const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout }) => {
+const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onUpdate, onLogout }) => {
   const [formData, setFormData] = useState<UserSettings>(settings);
   const [showSuccess, setShowSuccess] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importContent, setImportContent] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('replace');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [notificationPermission, setNotificationPermission] = useState<NotificationPermission>('default');
 
@@ -33,6 +54,80 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
     }
   };
 
+  const handlePayRuleChange = (status: WorkStatus, changes: Partial<PayRule>) => {
+    const rule = { ...getPayRule(status, formData), ...changes };
+    handleChange('payRules', { ...formData.payRules, [status]: rule });
+  };
+
+  // Empregadores são gravados na hora. Os reajustes ficam ligados pelo id, então renomear não os afeta.
+  const handleEmployersChange = (employers: EmployerProfile[]) => {
+    const newSettings = { ...formData, employers };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  const handleProjectsChange = (projects: Project[]) => {
+    const newSettings = { ...formData, projects };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  // Reajustes são gravados na hora: valem para os próximos registros de qualquer data
+  const handleRateHistoryChange = (rateHistory: RateVersion[]) => {
+    const newSettings = { ...formData, rateHistory };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  // Jornadas são gravadas na hora, pois valem a partir de uma data e afetam o cálculo do ponto
+  const handleSchedulesChange = (workSchedules: WorkSchedule[]) => {
+    const newSettings = { ...formData, workSchedules };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  // Categorias de ajuste também são gravadas na hora: o ponto recalcula com a regra (abonado/descontado) atual
+  const handleCategoriesChange = (pontoCategories: PontoCategory[]) => {
+    const newSettings = { ...formData, pontoCategories };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  const handleAbsenceTypesChange = (absenceTypes: AbsenceType[]) => {
+    const newSettings = { ...formData, absenceTypes };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  const handleWorkTemplatesChange = (workTemplates: WorkTemplate[]) => {
+    const newSettings = { ...formData, workTemplates };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  // Feriados: adicional, pontos facultativos e feriados locais valem para os próximos registros
+  const handleHolidaysChange = (changes: Pick<UserSettings, 'customHolidays' | 'optionalHolidays' | 'holidayPremiumPercent'>) => {
+    const newSettings = { ...formData, ...changes };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
+  // Prazo de vencimento do banco de horas: o extrato do ponto recalcula na hora
+  const handleTimeBankPolicyChange = (timeBankPolicy: TimeBankPolicy) => {
+    const newSettings = { ...formData, timeBankPolicy };
+    setFormData(newSettings);
+    saveSettings(newSettings);
+    onSave(newSettings);
+  };
+
   const handleNotificationToggle = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const isChecked = e.target.checked;
 
@@ -71,37 +166,64 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
     onLogout();
   };
 
-  const handleResetCycle = () => {
-     if(confirm("Deseja iniciar um novo ciclo de pagamentos a partir de HOJE? \n\nO saldo na aba Relatórios começará a ser contado desta data em diante.\n\nO ciclo atual será salvo no histórico.")) {
+  // Fecha o ciclo do empregador (o principal, se nenhum for informado) com os registros só dele
+  const handleResetCycle = async (employerId: string = MAIN_EMPLOYER_ID) => {
+     const employerSettings = getEmployerSettings(formData, employerId);
+     const whose = employerId === MAIN_EMPLOYER_ID ? '' : ` de ${employerSettings.employerName}`;
+     if(confirm(`Deseja iniciar um novo ciclo de pagamentos${whose} a partir de HOJE? \n\nO saldo na aba Relatórios começará a ser contado desta data em diante.\n\nO ciclo atual será salvo no histórico e o que não for pago passa para o próximo ciclo.`)) {
          const todayStr = format(new Date(), 'yyyy-MM-dd');
-         const cycleStart = formData.billingCycleStartDate || '2024-12-16';
+         const cycleStart = employerSettings.billingCycleStartDate || '2024-12-16';
+         const cycleId = Date.now().toString();
+         await loadRecordsFrom(cycleStart);
          
          // 1. Calcular estatísticas do ciclo que está fechando
-         const stats = calculateStats(cycleStart, todayStr);
+         const stats = calculateStats(cycleStart, todayStr, employerId);
+
+         // Quanto falta receber, contando o saldo de ciclos anteriores e o que já foi pago neste
+         const cycles = getCycleHistory();
+         const payments = getPayments();
+         const closing = buildPaymentLedger(employerId, cycles, payments, { startDate: cycleStart, total: stats.finalTotal }).pop()!;
+         const answer = prompt(
+           `Quanto você recebeu agora (R$)?${closing.paid > 0 ? `\nJá recebido neste ciclo: R$ ${closing.paid.toFixed(2)}` : ''}\nA receber: R$ ${closing.balance.toFixed(2)}\n\nDeixe 0 se ainda não recebeu.`,
+           Math.max(closing.balance, 0).toFixed(2)
+         );
+         if (answer === null) return;
+         const received = parseFloat(answer.replace(',', '.')) || 0;
          
          // 2. Salvar no histórico
          saveCycleHistory({
-             id: Date.now().toString(),
+             id: cycleId,
              startDate: cycleStart,
              endDate: todayStr,
              stats: stats,
              workerName: formData.workerName,
-             employerName: formData.employerName
+             employerName: employerSettings.employerName,
+             employerId: toEmployerField(employerId)
          });
+         getOpenPayments(payments, cycles, employerId).forEach(p => savePayment({ ...p, cycleId }));
+         if (received > 0) {
+           savePayment({ id: `${cycleId}-pg`, date: todayStr, amount: received, method: 'outro', cycleId, employerId: toEmployerField(employerId), note: 'Informado ao encerrar o ciclo' });
+         }
+         const remaining = roundCurrency(closing.balance - received);
 
          // 3. Resetar data de início
-         handleChange('billingCycleStartDate', todayStr);
+         const newSettings = employerId === MAIN_EMPLOYER_ID
+           ? { ...formData, billingCycleStartDate: todayStr }
+           : { ...formData, employers: (formData.employers || []).map(e => (e.id === employerId ? { ...e, billingCycleStartDate: todayStr } : e)) };
+         setFormData(newSettings);
          
          // Auto-save para garantir
-         const newSettings = { ...formData, billingCycleStartDate: todayStr };
          saveSettings(newSettings);
          onSave(newSettings);
-         alert(`Novo ciclo iniciado em ${format(new Date(), 'dd/MM/yyyy')}!\nO ciclo anterior foi salvo no histórico.`);
+         const carried = remaining > 0
+           ? `\nFicaram R$ ${remaining.toFixed(2)} em aberto, somados ao próximo ciclo.`
+           : remaining < 0 ? `\nVocê recebeu R$ ${(-remaining).toFixed(2)} a mais, descontados do próximo ciclo.` : '';
+         alert(`Novo ciclo iniciado em ${format(new Date(), 'dd/MM/yyyy')}!\nO ciclo anterior foi salvo no histórico.${carried}\n\nOs pagamentos ficam em Relatórios › Histórico.`);
      }
   }
 
-  const handleExport = () => {
-    const data = exportAllData();
+  const handleExport = async () => {
+    const data = await exportAllData();
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -123,40 +245,62 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
     const file = e.target.files?.[0];
     if (!file) return;
 
-    setIsImporting(true);
-
     const reader = new FileReader();
     reader.onload = async (event) => {
       const content = event.target?.result as string;
-      
-      // Agora espera o Supabase salvar antes de recarregar
-      const success = await importAllData(content);
-
-      if (success) {
-        const updatedSettings = JSON.parse(content).settings;
-        setFormData(updatedSettings);
-        onSave(updatedSettings);
-        alert("Dados restaurados com sucesso! O aplicativo será recarregado.");
-        window.location.reload(); 
-      } else {
-        alert("Erro: Arquivo inválido ou corrompido.");
-        setIsImporting(false);
-      }
+      // Nada é gravado até o usuário conferir o resumo e confirmar
+      setImportContent(content);
+      setImportPreview(await previewImport(content));
+      setImportMode('replace');
     };
     reader.readAsText(file);
     e.target.value = '';
   };
 
-  const handleGenerateDemoData = () => {
+  const handleCancelImport = () => {
+    setImportContent(null);
+    setImportPreview(null);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!importContent) return;
+    if (importMode === 'replace' && !confirm("Os dados das categorias presentes no arquivo vão SUBSTITUIR os deste aparelho. Deseja continuar?")) return;
+
+    setIsImporting(true);
+    // Agora espera o Supabase salvar antes de recarregar
+    const success = await importAllData(importContent, importMode);
+
+    if (success) {
+      // Configurações já migradas para o formato atual
+      const updatedSettings = getSettings();
+      setFormData(updatedSettings);
+      onSave(updatedSettings);
+      alert("Dados restaurados com sucesso! O aplicativo será recarregado.");
+      window.location.reload();
+    } else {
+      alert("Erro: Arquivo inválido ou corrompido.");
+      setIsImporting(false);
+    }
+  };
+
+  const formatRange = (first?: string, last?: string) => {
+    if (!first || !last) return '-';
+    const f = format(parseISO(first), 'dd/MM/yy');
+    const l = format(parseISO(last), 'dd/MM/yy');
+    return f === l ? f : `${f} a ${l}`;
+  };
+
+  const handleGenerateDemoData = async () => {
     if (confirm("Atenção: Isso irá APAGAR todos os dados atuais e preencher com dados de exemplo. Deseja continuar?")) {
-      generateTestData();
+      await generateTestData();
       window.location.reload();
     }
   };
 
-  const handleClearAllData = () => {
+  const handleClearAllData = async () => {
     if (confirm("⚠️ ATENÇÃO: Isso irá apagar PERMANENTEMENTE todos os seus registros, vales, ferramentas e histórico. Esta ação não pode ser desfeita. Deseja continuar?")) {
         localStorage.clear();
+        await clearLocalStore();
         window.location.reload();
     }
   };
@@ -186,7 +330,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
             </div>
             <div className="flex-1">
                 <p className="text-sm text-slate-600 dark:text-slate-300 mb-3">
-                   Use isto quando receber um pagamento para <strong>zerar o saldo</strong> e começar a contar de novo, sem apagar o histórico.
+                   Use isto quando receber um pagamento para <strong>encerrar o ciclo</strong> e começar a contar de novo, sem apagar o histórico. O que ficar faltando (ou for pago a mais) passa para o próximo ciclo.
                 </p>
                 
                 <div className="mb-4">
@@ -200,7 +344,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
                 </div>
 
                 <button 
-                    onClick={handleResetCycle}
+                    onClick={() => handleResetCycle()}
                     className="w-full py-2 bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-800 rounded-xl text-sm font-bold hover:bg-emerald-100 transition-colors flex items-center justify-center gap-2"
                 >
                     <CalendarCheck className="w-4 h-4" />
@@ -279,6 +423,75 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
         </div>
       </Card>
 
+      <Card title="Regras de Pagamento">
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+          Como cada tipo de dia é pago. Vale para os próximos registros (salvo reajuste com data); os dias já salvos mantêm o valor da época.
+        </p>
+        <div className="space-y-3">
+          {CONFIGURABLE_STATUSES.map(status => {
+            const rule = getPayRule(status, formData);
+            return (
+              <div key={status} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{translateStatus(status)}</span>
+                  <span className="text-xs font-bold text-emerald-600 dark:text-emerald-400">R$ {calculateDayValue(status, formData).toFixed(2).replace('.', ',')}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <select
+                    value={rule.type}
+                    onChange={(e) => handlePayRuleChange(status, { type: e.target.value as PayRuleType })}
+                    className="p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+                  >
+                    <option value="fixed">Valor fixo</option>
+                    <option value="multiplier">× Diária</option>
+                    <option value="hourly">Por hora</option>
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={rule.value}
+                    onChange={(e) => handlePayRuleChange(status, { value: parseFloat(e.target.value) || 0 })}
+                    title={rule.type === 'multiplier' ? 'Fator da diária' : rule.type === 'hourly' ? 'Valor da hora (R$)' : 'Valor do dia (R$)'}
+                    className="p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+                  />
+                  {rule.type === 'hourly' && (
+                    <input
+                      type="number"
+                      step="0.5"
+                      value={rule.hours ?? 0}
+                      onChange={(e) => handlePayRuleChange(status, { hours: parseFloat(e.target.value) || 0 })}
+                      title="Horas pagas no dia"
+                      placeholder="Horas"
+                      className="p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+
+      <EmployersEditor settings={formData} onChange={handleEmployersChange} onCloseCycle={handleResetCycle} />
+
+      <RateHistoryEditor settings={formData} onChange={handleRateHistoryChange} />
+
+      <SnapshotRecalculation settings={formData} onApplied={onUpdate} />
+
+      <WorkScheduleEditor schedules={formData.workSchedules || []} onChange={handleSchedulesChange} />
+
+      <PontoCategoriesEditor categories={formData.pontoCategories} onChange={handleCategoriesChange} />
+
+      <TimeBankPolicyEditor policy={formData.timeBankPolicy} onChange={handleTimeBankPolicyChange} />
+
+      <AbsenceTypesEditor types={formData.absenceTypes} onChange={handleAbsenceTypesChange} />
+
+      <WorkTemplatesEditor templates={formData.workTemplates} onChange={handleWorkTemplatesChange} />
+
+      <HolidaysEditor settings={formData} onChange={handleHolidaysChange} />
+
+      <ProjectsEditor projects={formData.projects} onChange={handleProjectsChange} />
+
       <Card title="Dados para o Relatório">
         <div className="space-y-4">
            <div>
@@ -289,6 +502,17 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Nome do Patrão / Empresa</label>
              <div className="relative"><div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none"><Briefcase className="h-5 w-5 text-slate-400" /></div><input type="text" value={formData.employerName} onChange={(e) => handleChange('employerName', e.target.value)} placeholder="Ex: Construtora ABC" className="block w-full pl-10 p-3 border border-slate-300 dark:border-slate-700 rounded-lg" /></div>
            </div>
+           <div className="grid grid-cols-2 gap-3">
+            <div>
+             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Seu CPF</label>
+             <input type="text" inputMode="numeric" value={formData.workerCpf || ''} onChange={(e) => handleChange('workerCpf', e.target.value)} placeholder="000.000.000-00" className="block w-full p-3 border border-slate-300 dark:border-slate-700 rounded-lg" />
+            </div>
+            <div>
+             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">CNPJ/CPF do Patrão</label>
+             <input type="text" inputMode="numeric" value={formData.employerDocument || ''} onChange={(e) => handleChange('employerDocument', e.target.value)} placeholder="00.000.000/0000-00" className="block w-full p-3 border border-slate-300 dark:border-slate-700 rounded-lg" />
+            </div>
+           </div>
+           <p className="text-xs text-slate-500 dark:text-slate-400">CPF e CNPJ só são usados nos arquivos oficiais de ponto (AFD/AEJ).</p>
         </div>
       </Card>
 
@@ -318,6 +542,94 @@ const SettingsTab: React.FC<SettingsTabProps> = ({ settings, onSave, onLogout })
                   <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
               </button>
           </div>
+          {importPreview && (
+            <div className="mt-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl p-4 space-y-4 animate-in fade-in slide-in-from-top-2">
+              <div className="flex items-center gap-2">
+                <FileCheck className="w-5 h-5 text-violet-600" />
+                <div>
+                  <p className="font-bold text-slate-800 dark:text-white">Conferir backup</p>
+                  {importPreview.exportedAt && (
+                    <p className="text-xs text-slate-500">Gerado em {format(parseISO(importPreview.exportedAt), 'dd/MM/yyyy HH:mm')}</p>
+                  )}
+                </div>
+              </div>
+
+              {importPreview.errors.length > 0 ? (
+                <div className="bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 rounded-lg p-3">
+                  <p className="text-sm font-bold text-rose-700 dark:text-rose-300 flex items-center gap-1.5 mb-2">
+                    <XCircle className="w-4 h-4" />
+                    Arquivo com problemas. Nada foi alterado.
+                  </p>
+                  <ul className="space-y-1">
+                    {importPreview.errors.slice(0, 20).map((error, i) => (
+                      <li key={i} className="text-xs text-rose-700 dark:text-rose-300">{formatBackupError(error)}</li>
+                    ))}
+                  </ul>
+                  {importPreview.errors.length > 20 && (
+                    <p className="text-xs text-rose-500 mt-1">... e mais {importPreview.errors.length - 20} erro(s).</p>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                    {importPreview.categories.map(c => (
+                      <div key={c.key} className="py-2 flex justify-between items-start gap-3">
+                        <div>
+                          <p className="text-sm font-bold text-slate-700 dark:text-slate-200">{c.label}</p>
+                          {c.inFile ? (
+                            <p className="text-[11px] text-slate-500">
+                              {c.newRecords} novo(s) · {c.duplicates} duplicado(s) · {c.changed} diferente(s)
+                            </p>
+                          ) : (
+                            <p className="text-[11px] text-slate-400">Não está no arquivo (mantido)</p>
+                          )}
+                        </div>
+                        {c.inFile && (
+                          <div className="text-right shrink-0">
+                            <p className="text-sm font-bold text-slate-800 dark:text-white">{c.count}</p>
+                            <p className="text-[11px] text-slate-500">{formatRange(c.firstDate, c.lastDate)}</p>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    {([
+                      ['replace', 'Substituir tudo', 'Apaga os dados destas categorias e usa os do arquivo'],
+                      ['merge', 'Mesclar por id', 'Adiciona os novos; nos diferentes fica a versão mais recente']
+                    ] as [ImportMode, string, string][]).map(([mode, title, hint]) => (
+                      <button
+                        key={mode}
+                        onClick={() => setImportMode(mode)}
+                        className={`text-left p-3 rounded-xl border-2 transition-all ${importMode === mode ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/20' : 'border-slate-100 dark:border-slate-800'}`}
+                      >
+                        <span className="block text-sm font-bold text-slate-800 dark:text-white">{title}</span>
+                        <span className="block text-[11px] text-slate-500 mt-0.5">{hint}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {importPreview.hasSettings && (
+                    <p className="text-[11px] text-slate-500">
+                      {importMode === 'replace' ? 'As configurações do arquivo também serão aplicadas.' : 'As configurações deste aparelho serão mantidas.'}
+                    </p>
+                  )}
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleCancelImport} disabled={isImporting} className="py-2.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl text-sm font-bold">Cancelar</button>
+                <button
+                  onClick={handleConfirmImport}
+                  disabled={isImporting || importPreview.errors.length > 0}
+                  className={`py-2.5 rounded-xl text-sm font-bold flex items-center justify-center gap-2 ${importPreview.errors.length > 0 ? 'bg-slate-200 dark:bg-slate-800 text-slate-400 cursor-not-allowed' : 'bg-violet-600 text-white'}`}
+                >
+                  {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {isImporting ? 'Restaurando...' : 'Restaurar'}
+                </button>
+              </div>
+            </div>
+          )}
           <div className="mt-6 pt-6 border-t dark:border-slate-800 space-y-3">
             <button onClick={handleGenerateDemoData} className="w-full flex items-center justify-center space-x-2 p-3 bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800 rounded-lg text-sm font-medium"><Wand2 className="w-4 h-4" /><span>Preencher com Dados de Teste</span></button>
             <button onClick={handleClearAllData} className="w-full flex items-center justify-center space-x-2 p-3 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300 border border-rose-200 dark:border-rose-800 rounded-lg text-sm font-medium"><Trash2 className="w-4 h-4" /><span>Apagar Todos os Dados</span></button>
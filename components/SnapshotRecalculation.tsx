@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import { RefreshCw } from 'lucide-react';
+import { UserSettings } from '../types';
+import { Card } from './ui/Card';
+import { translateStatus } from './ReportsTab';
+import { getWorkEntries, loadRecordsFrom, saveWorkEntry } from '../services/storageService';
+import { planSnapshotRecalculation, SnapshotChange } from '../services/rateRecalculation';
+import { ALL_EMPLOYERS, getEmployerId, getEmployerName, hasMultipleEmployers } from '../services/employers';
+import EmployerSelect from './EmployerSelect';
+
+interface SnapshotRecalculationProps {
+  settings: UserSettings;
+  onApplied: () => void;
+}
+
+const formatMoney = (value: number) => `R$ ${value.toFixed(2).replace('.', ',')}`;
+
+const inputClass = 'w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm';
+
+// Regrava os valores dos registros de um período pela tabela de reajustes, com prévia de antes e depois
+const SnapshotRecalculation: React.FC<SnapshotRecalculationProps> = ({ settings, onApplied }) => {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [employerId, setEmployerId] = useState(ALL_EMPLOYERS);
+  const [changes, setChanges] = useState<SnapshotChange[] | null>(null);
+
+  // Reajuste novo ou excluído invalida a prévia
+  useEffect(() => setChanges(null), [settings]);
+
+  const difference = (changes || []).reduce((acc, c) => acc + c.after - c.before, 0);
+
+  const handlePreview = async () => {
+    if (!startDate || !endDate || endDate < startDate) return;
+    await loadRecordsFrom(startDate);
+    setChanges(planSnapshotRecalculation(getWorkEntries(), settings, startDate, endDate, employerId));
+  };
+
+  const handleApply = () => {
+    if (!changes || changes.length === 0) return;
+    if (!confirm(`Regravar ${changes.length} ${changes.length === 1 ? 'registro' : 'registros'} com os valores da tabela?`)) return;
+    changes.forEach(c => saveWorkEntry(c.updated));
+    setChanges(null);
+    onApplied();
+    alert('Valores recalculados.');
+  };
+
+  return (
+    <Card title="Recalcular Valores">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Atualiza a diária e o valor gravados nos registros do período pelos reajustes acima. Serviços extras e horas extras
+        não mudam; ciclos já fechados no histórico mantêm o total da época. Cada registro usa a tabela do próprio empregador.
+      </p>
+
+      <EmployerSelect settings={settings} value={employerId} onChange={id => { setEmployerId(id); setChanges(null); }} allowAll className="mb-3" />
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">De</label>
+          <input type="date" value={startDate} onChange={(e) => { setStartDate(e.target.value); setChanges(null); }} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Até</label>
+          <input type="date" value={endDate} min={startDate} onChange={(e) => { setEndDate(e.target.value); setChanges(null); }} className={inputClass} />
+        </div>
+      </div>
+
+      {changes === null ? (
+        <button onClick={handlePreview} className="w-full py-2 rounded-lg text-sm font-bold bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200">
+          Ver diferença
+        </button>
+      ) : changes.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400 italic">Todos os registros do período já estão com os valores da tabela.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="max-h-64 overflow-y-auto space-y-1 border border-slate-100 dark:border-slate-800 rounded-lg p-2">
+            {changes.map(c => (
+              <div key={c.entry.id} className="flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200">
+                <span className="w-12 font-semibold">{format(parseISO(c.entry.date), 'dd/MM')}</span>
+                <span className="flex-1 min-w-0 truncate">
+                  {translateStatus(c.entry.status)}
+                  {employerId === ALL_EMPLOYERS && hasMultipleEmployers(settings) && ` · ${getEmployerName(getEmployerId(c.entry), settings)}`}
+                </span>
+                <span className="text-slate-400 line-through">{formatMoney(c.before)}</span>
+                <span className="font-bold">{formatMoney(c.after)}</span>
+              </div>
+            ))}
+          </div>
+          <p className={`text-sm font-bold ${difference >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'}`}>
+            Diferença no período: {difference >= 0 ? '+ ' : '- '}{formatMoney(Math.abs(difference))}
+          </p>
+          <button onClick={handleApply} className="w-full py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 bg-violet-600 text-white">
+            <RefreshCw className="w-4 h-4" /> Aplicar em {changes.length} {changes.length === 1 ? 'registro' : 'registros'}
+          </button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SnapshotRecalculation;
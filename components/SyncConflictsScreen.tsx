@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, Smartphone, Cloud, Check } from 'lucide-react';
+import { MergePlan, getCategoryLabel, getSettings } from '../services/storageService';
+import { ConflictChoice } from '../services/mergeService';
+import { getEntryValue } from '../services/payRules';
+import { describeInterval } from '../services/pontoPunches';
+import { getPontoCategory } from '../services/pontoCategories';
+import { TRANSACTION_LABELS } from '../services/timeBank';
+import { getAbsenceType } from '../services/absences';
+import { PAYMENT_METHOD_LABELS } from '../services/payments';
+import { PaymentMethod, PontoAdjustment, TimeBankTransactionType } from '../types';
+import { translateStatus } from './ReportsTab';
+
+interface SyncConflictsScreenProps {
+  plan: MergePlan;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+// Resumo legível de um registro de qualquer categoria
+const describeRecord = (record: any | null): string[] => {
+  if (!record) return ['Apagado'];
+  const lines: string[] = [];
+  if (record.status) lines.push(translateStatus(record.status));
+  if (record.serviceTitle) lines.push(record.serviceTitle);
+  if (record.name) lines.push(record.name);
+  if (Array.isArray(record.intervals)) {
+    lines.push(record.intervals.length > 0 ? record.intervals.map(describeInterval).join(' · ') : 'Sem intervalos');
+    (record.adjustments || []).forEach((a: PontoAdjustment) => {
+      lines.push(`${getPontoCategory(a.categoryId, getSettings().pontoCategories).name}: ${a.minutes} min`);
+    });
+  }
+  if (record.type === 'compensation' || record.type === 'payout') {
+    lines.push(`${TRANSACTION_LABELS[record.type as TimeBankTransactionType]}: ${record.minutes} min`);
+    if (record.value) lines.push(`R$ ${record.value.toFixed(2)}`);
+  }
+  if (record.typeId) {
+    lines.push(`${getAbsenceType(record.typeId, getSettings().absenceTypes).name}: ${format(parseISO(record.startDate), 'dd/MM')} a ${format(parseISO(record.endDate), 'dd/MM')}`);
+  }
+  if (record.method) lines.push(`${PAYMENT_METHOD_LABELS[record.method as PaymentMethod] ?? record.method}, ${format(parseISO(record.date), 'dd/MM')}`);
+  if (Array.isArray(record.entries)) lines.push(`${record.entries.length} ponto(s), saldo ${record.balanceMinutes} min`);
+  if (typeof record.amount === 'number') lines.push(`R$ ${record.amount.toFixed(2)}`);
+  else if (typeof record.dailyRateSnapshot === 'number') lines.push(`R$ ${getEntryValue(record).toFixed(2)}`);
+  if (record.overtimeValue) lines.push(`Horas extras: R$ ${record.overtimeValue.toFixed(2)}`);
+  if (record.stats) lines.push(`Líquido: R$ ${record.stats.finalTotal.toFixed(2)}`);
+  if (record.note) lines.push(record.note);
+  if (record.updatedAt) lines.push(`Alterado em ${format(parseISO(record.updatedAt), 'dd/MM HH:mm')}`);
+  return lines;
+};
+
+const SyncConflictsScreen: React.FC<SyncConflictsScreenProps> = ({ plan, onResolve }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(plan.conflicts.map(c => [c.id, choice])));
+  };
+
+  const allChosen = plan.conflicts.every(c => choices[c.id]);
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 p-4 font-sans">
+      <div className="max-w-md mx-auto space-y-5 pb-10">
+        <header className="mt-4">
+          <h1 className="text-2xl font-extrabold text-slate-800 dark:text-white flex items-center gap-2">
+            <AlertTriangle className="w-6 h-6 text-amber-500" />
+            Conflitos de Sincronização
+          </h1>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            Estes registros foram alterados neste aparelho e em outro ao mesmo tempo. Escolha qual versão manter. Nada foi sobrescrito ainda.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => chooseAll('local')} className="py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300">
+            Manter tudo deste aparelho
+          </button>
+          <button onClick={() => chooseAll('remote')} className="py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300">
+            Usar tudo da nuvem
+          </button>
+        </div>
+
+        {plan.conflicts.map(conflict => (
+          <div key={conflict.id} className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4 shadow-sm space-y-3">
+            <div>
+              <p className="text-xs font-bold text-violet-600 dark:text-violet-400 uppercase tracking-wider">{getCategoryLabel(conflict.category)}</p>
+              {conflict.date && (
+                <p className="font-bold text-slate-800 dark:text-white">{format(parseISO(conflict.date), 'dd/MM/yyyy')}</p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['local', 'remote'] as ConflictChoice[]).map(side => {
+                const selected = choices[conflict.id] === side;
+                const record = side === 'local' ? conflict.local : conflict.remote;
+                return (
+                  <button
+                    key={side}
+                    onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: side }))}
+                    className={`text-left p-3 rounded-xl border-2 transition-all ${
+                      selected
+                        ? 'border-violet-500 bg-violet-50 dark:bg-violet-900/20'
+                        : 'border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-950'
+                    }`}
+                  >
+                    <span className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-500 mb-1.5">
+                      {side === 'local' ? <Smartphone className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                      {side === 'local' ? 'Este aparelho' : 'Nuvem'}
+                      {selected && <Check className="w-3 h-3 text-violet-600 ml-auto" />}
+                    </span>
+                    {describeRecord(record).map((line, i) => (
+                      <span key={i} className="block text-xs text-slate-700 dark:text-slate-300">{line}</span>
+                    ))}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <button
+          onClick={() => onResolve(choices)}
+          disabled={!allChosen}
+          className={`w-full py-4 rounded-xl font-bold text-lg shadow-lg transition-all ${
+            allChosen
+              ? 'bg-gradient-to-r from-violet-600 to-indigo-600 text-white shadow-violet-200 dark:shadow-none'
+              : 'bg-slate-200 dark:bg-slate-800 text-slate-400 cursor-not-allowed'
+          }`}
+        >
+          Aplicar Escolhas
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsScreen;
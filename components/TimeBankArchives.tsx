@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Archive, ChevronDown, ChevronUp, FileCode, FileText, Trash2 } from 'lucide-react';
+import { PontoCategory, TimeBankArchive, WorkSchedule } from '../types';
+import { Card } from './ui/Card';
+import { summarizePonto, formatMinutesToHuman } from '../services/calculations';
+import { describeInterval } from '../services/pontoPunches';
+import { OfficialFileKind } from '../services/afdAejService';
+import { TRANSACTION_LABELS } from '../services/timeBank';
+
+interface TimeBankArchivesProps {
+  archives: TimeBankArchive[];
+  schedules?: WorkSchedule[];
+  categories?: PontoCategory[];
+  onExportPdf: (archive: TimeBankArchive) => void;
+  onExportOfficial: (kind: OfficialFileKind, archive: TimeBankArchive) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+// Bancos de horas encerrados: saldo do fechamento, pontos arquivados e reexportação
+const TimeBankArchives: React.FC<TimeBankArchivesProps> = ({ archives, schedules, categories, onExportPdf, onExportOfficial, onDelete }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  if (archives.length === 0) return null;
+
+  return (
+    <Card title="Bancos de Horas Encerrados">
+      <div className="space-y-2">
+        {[...archives].sort((a, b) => b.endDate.localeCompare(a.endDate)).map(archive => {
+          const isOpen = openId === archive.id;
+          const summary = isOpen ? summarizePonto(archive.entries, schedules, categories) : null;
+          return (
+            <div key={archive.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 text-xs">
+              <div className="flex justify-between items-start gap-2">
+                <button onClick={() => setOpenId(isOpen ? null : archive.id)} className="flex-1 text-left cursor-pointer">
+                  <p className="font-bold text-slate-700 dark:text-slate-200 flex items-center gap-1.5">
+                    <Archive className="w-3.5 h-3.5 text-violet-500" />
+                    {formatDate(archive.startDate)} a {formatDate(archive.endDate)}
+                    {isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                  </p>
+                  <p className="text-slate-500 mt-0.5">
+                    {archive.entries.length} ponto(s) · saldo{' '}
+                    <span className={archive.balanceMinutes < 0 ? 'font-bold text-rose-600' : 'font-bold text-emerald-600'}>
+                      {archive.balanceMinutes < 0 ? '-' : '+'}{formatMinutesToHuman(Math.abs(archive.balanceMinutes))}
+                    </span>
+                    {archive.discountValue > 0 && ` · desconto R$ ${archive.discountValue.toFixed(2).replace('.', ',')}`}
+                  </p>
+                  <p className="text-slate-400">Encerrado em {format(parseISO(archive.closedAt), "dd/MM/yyyy 'às' HH:mm")}</p>
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm('Excluir este banco de horas encerrado? Os pontos continuam no histórico, mas a cópia do fechamento será perdida.')) onDelete(archive.id);
+                  }}
+                  className="p-1 text-slate-400 hover:text-rose-600 cursor-pointer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {isOpen && summary && (
+                <div className="mt-3 pt-3 border-t border-slate-200 dark:border-slate-700 space-y-2">
+                  <div className="grid grid-cols-2 gap-1 text-slate-600 dark:text-slate-300">
+                    <span>Dias trabalhados: <strong>{summary.diasTrabalhados}</strong></span>
+                    <span>Atrasos: <strong>{summary.atrasos} min</strong></span>
+                    <span>Créditos: <strong>{summary.creditoPermanencia} min</strong></span>
+                    <span>Ajustes: <strong>-{summary.minutosDescontados} / +{summary.minutosAbonados} min</strong></span>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto space-y-0.5 font-mono text-[11px] text-slate-500">
+                    {[...archive.entries].sort((a, b) => a.date.localeCompare(b.date)).map(entry => (
+                      <p key={entry.id}>
+                        {format(parseISO(entry.date), 'dd/MM')} {entry.intervals.map(describeInterval).join(' · ') || 'sem intervalos'}
+                      </p>
+                    ))}
+                  </div>
+                  {(archive.transactions || []).length > 0 && (
+                    <div className="space-y-0.5 text-[11px] text-slate-500">
+                      {archive.transactions!.map(t => (
+                        <p key={t.id}>
+                          {format(parseISO(t.date), 'dd/MM')} {TRANSACTION_LABELS[t.type]}: -{formatMinutesToHuman(t.minutes)}
+                          {t.value ? ` · R$ ${t.value.toFixed(2).replace('.', ',')}` : ''}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={() => onExportPdf(archive)} className="flex items-center gap-1 px-2.5 py-1.5 bg-violet-600 text-white rounded-lg font-bold cursor-pointer">
+                      <FileText className="w-3.5 h-3.5" /> PDF
+                    </button>
+                    {(['AFD', 'AEJ'] as OfficialFileKind[]).map(kind => (
+                      <button key={kind} onClick={() => onExportOfficial(kind, archive)} className="flex items-center gap-1 px-2.5 py-1.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg font-bold cursor-pointer">
+                        <FileCode className="w-3.5 h-3.5" /> {kind}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default TimeBankArchives;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Plus, Trash2, Hourglass } from 'lucide-react';
+import { TimeBankPolicy, TimeBankTransaction, TimeBankTransactionType, WorkSchedule } from '../types';
+import { Card } from './ui/Card';
+import { formatMinutesToHuman } from '../services/calculations';
+import { TimeBankLedger as Ledger, TimeBankLineKind, TRANSACTION_LABELS, getTimeBankPolicy, timeBankPayoutValue } from '../services/timeBank';
+import { getScheduleForDate, dayScheduleMinutes } from '../services/workSchedule';
+
+interface TimeBankLedgerProps {
+  ledger: Ledger;
+  schedules?: WorkSchedule[];
+  policy?: TimeBankPolicy;
+  minDate?: string; // início do banco atual: movimentos anteriores pertencem a um banco encerrado
+  onAdd: (transaction: TimeBankTransaction) => void;
+  onDelete: (id: string) => void;
+}
+
+const KIND_STYLES: Record<TimeBankLineKind, string> = {
+  ponto: 'text-slate-600 dark:text-slate-300',
+  compensation: 'text-sky-700 dark:text-sky-300',
+  payout: 'text-emerald-700 dark:text-emerald-300',
+  expiry: 'text-amber-700 dark:text-amber-300'
+};
+
+const signed = (minutes: number) => `${minutes < 0 ? '-' : '+'}${formatMinutesToHuman(minutes)}`;
+
+// Jornada prevista do dia: duração sugerida para uma folga compensada
+const scheduledMinutes = (date: string, schedules?: WorkSchedule[]) => dayScheduleMinutes(getScheduleForDate(date, schedules).day);
+
+const TimeBankLedger: React.FC<TimeBankLedgerProps> = ({ ledger, schedules, policy, minDate, onAdd, onDelete }) => {
+  const { expiryMonths, payoutPercent } = getTimeBankPolicy(policy);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [type, setType] = useState<TimeBankTransactionType | null>(null);
+  const [date, setDate] = useState(today);
+  const [hours, setHours] = useState(0);
+  const [minutes, setMinutes] = useState(0);
+  const [percent, setPercent] = useState(payoutPercent);
+  const [note, setNote] = useState('');
+
+  const totalMinutes = Math.max(0, Math.round(hours * 60 + minutes));
+
+  const setDuration = (total: number) => {
+    setHours(Math.floor(total / 60));
+    setMinutes(total % 60);
+  };
+
+  const openForm = (kind: TimeBankTransactionType) => {
+    setType(kind);
+    setDate(today);
+    setPercent(payoutPercent);
+    setNote('');
+    // Folga: a jornada do dia; pagamento: o saldo positivo inteiro
+    setDuration(kind === 'compensation' ? scheduledMinutes(today, schedules) : Math.max(0, ledger.saldo));
+  };
+
+  const handleDateChange = (value: string) => {
+    setDate(value);
+    if (type === 'compensation' && value) setDuration(scheduledMinutes(value, schedules));
+  };
+
+  const handleSave = () => {
+    if (!type || !date || totalMinutes === 0) return;
+    if (minDate && date < minDate) {
+      alert(`O banco atual começa em ${format(parseISO(minDate), 'dd/MM/yyyy')}.`);
+      return;
+    }
+    if (totalMinutes > ledger.saldo && !confirm(`O saldo atual é ${signed(ledger.saldo)}. Lançar ${formatMinutesToHuman(totalMinutes)} deixará o banco negativo. Continuar?`)) return;
+    const transaction: TimeBankTransaction = { id: Date.now().toString(), date, type, minutes: totalMinutes };
+    if (type === 'payout') {
+      transaction.percent = percent;
+      transaction.value = timeBankPayoutValue(totalMinutes, date, percent, schedules);
+    }
+    if (note.trim()) transaction.note = note.trim();
+    onAdd(transaction);
+    setType(null);
+  };
+
+  const pending = ledger.creditos.filter(c => c.expiresOn);
+
+  return (
+    <Card title="Extrato do Banco de Horas">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <span className={`text-2xl font-black ${ledger.saldo < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+            {signed(ledger.saldo)}
+          </span>
+          <p className="text-[11px] text-slate-500 dark:text-slate-400">
+            {expiryMonths > 0 ? `Créditos vencem em ${expiryMonths} ${expiryMonths === 1 ? 'mês' : 'meses'}` : 'Créditos sem vencimento'}
+            {ledger.minutosVencidos > 0 && ` · ${formatMinutesToHuman(ledger.minutosVencidos)} vencidos`}
+            {ledger.valorPago > 0 && ` · R$ ${ledger.valorPago.toFixed(2).replace('.', ',')} pagos`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['compensation', 'payout'] as TimeBankTransactionType[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => openForm(kind)}
+              className="flex items-center gap-1 px-2.5 py-1.5 bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 rounded-lg text-xs font-bold cursor-pointer"
+            >
+              <Plus className="w-3.5 h-3.5" /> {kind === 'compensation' ? 'Folga' : 'Pagamento'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {type && (
+        <div className="mb-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-2">
+          <p className="text-xs font-bold text-slate-700 dark:text-slate-200">{TRANSACTION_LABELS[type]}</p>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Data</label>
+              <input type="date" value={date} min={minDate || undefined} onChange={(e) => handleDateChange(e.target.value)} className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Horas</label>
+              <input type="number" min={0} value={hours} onChange={(e) => setHours(Number(e.target.value) || 0)} className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Minutos</label>
+              <input type="number" min={0} max={59} value={minutes} onChange={(e) => setMinutes(Number(e.target.value) || 0)} className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm" />
+            </div>
+          </div>
+          {type === 'payout' && (
+            <div className="flex items-end gap-2">
+              <div className="w-24">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Adicional %</label>
+                <input type="number" min={0} value={percent} onChange={(e) => setPercent(Number(e.target.value) || 0)} className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm" />
+              </div>
+              <p className="flex-1 text-xs text-slate-600 dark:text-slate-300 pb-2">
+                Valor: <strong>R$ {timeBankPayoutValue(totalMinutes, date || today, percent, schedules).toFixed(2).replace('.', ',')}</strong>
+              </p>
+            </div>
+          )}
+          <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Observação (opcional)" className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950 text-sm" />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setType(null)} className="px-3 py-2 text-xs font-bold text-slate-500 cursor-pointer">Cancelar</button>
+            <button onClick={handleSave} disabled={totalMinutes === 0} className="px-3 py-2 bg-violet-600 disabled:opacity-50 text-white rounded-lg text-xs font-bold cursor-pointer">Lançar</button>
+          </div>
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div className="mb-3 p-2 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-900/60 rounded-lg text-[11px] text-amber-800 dark:text-amber-300 space-y-0.5">
+          <p className="font-bold flex items-center gap-1"><Hourglass className="w-3 h-3" /> Próximos vencimentos</p>
+          {pending.slice(0, 5).map(c => (
+            <p key={c.date}>{formatMinutesToHuman(c.minutos)} de {format(parseISO(c.date), 'dd/MM/yyyy')} vencem em {format(parseISO(c.expiresOn!), 'dd/MM/yyyy')}</p>
+          ))}
+          {pending.length > 5 && <p>... e mais {pending.length - 5}.</p>}
+        </div>
+      )}
+
+      {ledger.lines.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-2">Nenhum lançamento no banco atual.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-800 text-xs">
+          {ledger.lines.map(line => (
+            <div key={`${line.kind}-${line.id}`} className="flex items-center gap-2 py-1.5">
+              <span className="w-12 text-slate-400 font-mono">{format(parseISO(line.date), 'dd/MM')}</span>
+              <span className={`flex-1 min-w-0 truncate ${KIND_STYLES[line.kind]}`}>
+                {line.descricao}
+                {line.valor > 0 && ` · R$ ${line.valor.toFixed(2).replace('.', ',')}`}
+              </span>
+              <span className={`w-20 text-right font-bold ${line.minutos < 0 ? 'text-rose-600 dark:text-rose-400' : 'text-emerald-600 dark:text-emerald-400'}`}>{signed(line.minutos)}</span>
+              <span className="w-20 text-right font-mono text-slate-600 dark:text-slate-300">{signed(line.saldo)}</span>
+              {line.kind === 'compensation' || line.kind === 'payout' ? (
+                <button
+                  onClick={() => { if (confirm('Excluir este lançamento?')) onDelete(line.id); }}
+                  className="p-0.5 text-slate-400 hover:text-rose-600 cursor-pointer"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              ) : <span className="w-[18px]" />}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default TimeBankLedger;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { TimeBankPolicy } from '../types';
+import { Card } from './ui/Card';
+import { getTimeBankPolicy } from '../services/timeBank';
+
+interface TimeBankPolicyEditorProps {
+  policy?: TimeBankPolicy;
+  onChange: (policy: TimeBankPolicy) => void;
+}
+
+const TimeBankPolicyEditor: React.FC<TimeBankPolicyEditorProps> = ({ policy, onChange }) => {
+  const current = getTimeBankPolicy(policy);
+
+  const update = (changes: Partial<TimeBankPolicy>) => onChange({ ...current, ...changes });
+
+  return (
+    <Card title="Acordo de Banco de Horas">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Prazo para compensar os créditos do banco de horas (acordo individual: até 6 meses). Crédito não compensado no prazo vence: é perdido ou pago como hora extra, com o adicional abaixo.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Prazo (meses)</label>
+          <input
+            type="number"
+            min={0}
+            value={current.expiryMonths}
+            onChange={(e) => update({ expiryMonths: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+            className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+          />
+          <span className="text-[10px] text-slate-400">0 = sem vencimento</span>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Crédito vencido</label>
+          <select
+            value={current.expiryAction}
+            onChange={(e) => update({ expiryAction: e.target.value as TimeBankPolicy['expiryAction'] })}
+            disabled={current.expiryMonths === 0}
+            className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm disabled:opacity-50"
+          >
+            <option value="zero">É perdido</option>
+            <option value="payout">É pago</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Adicional (%)</label>
+          <input
+            type="number"
+            min={0}
+            value={current.payoutPercent}
+            onChange={(e) => update({ payoutPercent: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+          />
+          <span className="text-[10px] text-slate-400">nos pagamentos de horas</span>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default TimeBankPolicyEditor;
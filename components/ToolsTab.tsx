@@ -2,20 +2,27 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Wrench, Trash2, Edit, X, DollarSign } from 'lucide-react';
 import { format } from 'date-fns';
-import { ToolEntry } from '../types';
+import { ToolEntry, UserSettings } from '../types';
 import { getTools, saveTool, deleteTool } from '../services/storageService';
+import { MAIN_EMPLOYER_ID, getEmployerId, getEmployerName, hasMultipleEmployers, toEmployerField } from '../services/employers';
 import { Card } from './ui/Card';
+import EmployerSelect from './EmployerSelect';
+import ProjectSelect from './ProjectSelect';
+import { getProjectName, toProjectField } from '../services/projects';
 
 interface ToolsTabProps {
+  settings: UserSettings;
   onUpdate: () => void;
 }
 
-const ToolsTab: React.FC<ToolsTabProps> = ({ onUpdate }) => {
+const ToolsTab: React.FC<ToolsTabProps> = ({ settings, onUpdate }) => {
   const [tools, setTools] = useState<ToolEntry[]>([]);
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
   const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [note, setNote] = useState('');
+  const [employerId, setEmployerId] = useState(MAIN_EMPLOYER_ID);
+  const [projectId, setProjectId] = useState('');
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
 
@@ -35,7 +42,9 @@ const ToolsTab: React.FC<ToolsTabProps> = ({ onUpdate }) => {
       date,
       name,
       amount: parseFloat(amount),
-      note
+      note,
+      employerId: toEmployerField(employerId),
+      projectId: toProjectField(projectId)
     };
     saveTool(newTool);
     setName('');
@@ -53,6 +62,8 @@ const ToolsTab: React.FC<ToolsTabProps> = ({ onUpdate }) => {
     setAmount(item.amount.toString());
     setDate(item.date);
     setNote(item.note || '');
+    setEmployerId(getEmployerId(item));
+    setProjectId(item.projectId || '');
     setShowForm(true);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -117,6 +128,8 @@ const ToolsTab: React.FC<ToolsTabProps> = ({ onUpdate }) => {
                         <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full p-3 border-2 rounded-xl bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-white border-slate-200 dark:border-slate-800" />
                     </div>
                 </div>
+                <EmployerSelect settings={settings} value={employerId} onChange={setEmployerId} />
+                <ProjectSelect settings={settings} value={projectId} onChange={setProjectId} />
                 <div>
                     <label className="block text-xs font-bold text-slate-500 mb-1 uppercase">Observação (Opcional)</label>
                     <input type="text" value={note} onChange={(e) => setNote(e.target.value)} className="w-full p-3 border-2 rounded-xl bg-slate-50 dark:bg-slate-950 text-slate-800 dark:text-white border-slate-200 dark:border-slate-800" placeholder="Onde comprou, garantia..." />
@@ -144,6 +157,8 @@ const ToolsTab: React.FC<ToolsTabProps> = ({ onUpdate }) => {
                         <p className="text-sm font-bold text-indigo-600 dark:text-indigo-400">R$ {item.amount.toFixed(2)}</p>
                         <p className="text-xs text-slate-500 dark:text-slate-500 font-medium">
                             {format(new Date(item.date + 'T00:00:00'), 'dd/MM')} {item.note && `• ${item.note}`}
+                            {hasMultipleEmployers(settings) && ` • ${getEmployerName(getEmployerId(item), settings)}`}
+                            {getProjectName(item.projectId, settings) && ` • ${getProjectName(item.projectId, settings)}`}
                         </p>
                     </div>
                 </div>
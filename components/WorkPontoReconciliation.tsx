@@ -0,0 +1,74 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { GitCompare, ArrowRight } from 'lucide-react';
+import { Card } from './ui/Card';
+import { ReconciliationIssue, ReconciliationIssueKind } from '../services/reconciliation';
+import { translateStatus, describeWorkEntry } from './ReportsTab';
+
+interface WorkPontoReconciliationProps {
+  issues: ReconciliationIssue[];
+  periodLabel: string;
+  autoCreate: boolean;
+  onToggleAutoCreate: (enabled: boolean) => void;
+  onApply: (issue: ReconciliationIssue) => void;
+  onOpenDay: (date: string) => void;
+}
+
+const KIND_LABELS: Record<ReconciliationIssueKind, string> = {
+  'sem-registro': 'Sem registro diário',
+  'sem-ponto': 'Sem ponto',
+  divergente: 'Divergente'
+};
+
+const KIND_STYLES: Record<ReconciliationIssueKind, string> = {
+  'sem-registro': 'bg-sky-100 text-sky-700 dark:bg-sky-950/60 dark:text-sky-300',
+  'sem-ponto': 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300',
+  divergente: 'bg-rose-100 text-rose-700 dark:bg-rose-950/60 dark:text-rose-300'
+};
+
+// Dias em que o Registro Diário e o Controle de Ponto não batem, com o status sugerido pelas marcações
+const WorkPontoReconciliation: React.FC<WorkPontoReconciliationProps> = ({ issues, periodLabel, autoCreate, onToggleAutoCreate, onApply, onOpenDay }) => (
+  <Card className="bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 p-4 shadow-xs">
+    <h2 className="text-sm font-bold text-slate-800 dark:text-slate-100 flex items-center gap-1.5">
+      <GitCompare className="w-4 h-4 text-violet-500" /> Registro Diário x Ponto
+    </h2>
+    <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 mb-3">{periodLabel}</p>
+
+    <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 mb-3">
+      <input type="checkbox" checked={autoCreate} onChange={(e) => onToggleAutoCreate(e.target.checked)} />
+      Criar o registro diário ao salvar o ponto (dias lançados à mão não são alterados)
+    </label>
+
+    {issues.length === 0 ? (
+      <p className="text-xs text-emerald-600 dark:text-emerald-400 font-semibold">Registro diário e ponto conferem no período.</p>
+    ) : (
+      <div className="space-y-2">
+        {issues.map(issue => (
+          <div key={issue.date} className="flex items-center gap-2 p-2 bg-slate-50 dark:bg-slate-800/50 rounded-lg border border-slate-200 dark:border-slate-700">
+            <button onClick={() => onOpenDay(issue.date)} className="flex-1 min-w-0 text-left">
+              <p className="text-xs font-bold text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                {format(parseISO(issue.date), 'dd/MM/yyyy')}
+                <span className={`px-1.5 py-0.5 rounded text-[10px] ${KIND_STYLES[issue.kind]}`}>{KIND_LABELS[issue.kind]}</span>
+              </p>
+              <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                Registro: {issue.work ? describeWorkEntry(issue.work) : '—'}
+                {' · '}Ponto: {issue.ponto ? translateStatus(issue.suggested!) : 'sem marcações'}
+              </p>
+            </button>
+            {issue.suggested && !issue.work?.absenceId && (
+              <button
+                onClick={() => onApply(issue)}
+                className="shrink-0 flex items-center gap-1 px-2 py-1 bg-violet-600 text-white rounded-lg text-[11px] font-bold"
+                title="Gravar no registro diário o status do ponto"
+              >
+                <ArrowRight className="w-3 h-3" /> {translateStatus(issue.suggested)}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    )}
+  </Card>
+);
+
+export default WorkPontoReconciliation;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, Trash2 } from 'lucide-react';
+import { DaySchedule, WorkSchedule, TolerancePolicy, ToleranceMode } from '../types';
+import { Card } from './ui/Card';
+import { WEEKDAY_NAMES, getScheduleForDate, addScheduleVersion, describeWeek, getMinuteRate, getTolerance, describeTolerance, CLT_TOLERANCE } from '../services/workSchedule';
+
+interface WorkScheduleEditorProps {
+  schedules: WorkSchedule[];
+  onChange: (schedules: WorkSchedule[]) => void;
+  title?: string;
+}
+
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const EMPTY_DAY: DaySchedule = { morningStart: '08:00', morningEnd: '12:00', afternoonStart: '', afternoonEnd: '' };
+
+const TIME_FIELDS: { field: keyof DaySchedule; label: string }[] = [
+  { field: 'morningStart', label: 'Entrada' },
+  { field: 'morningEnd', label: 'S. Almoço' },
+  { field: 'afternoonStart', label: 'V. Almoço' },
+  { field: 'afternoonEnd', label: 'Saída' }
+];
+
+const TOLERANCE_OPTIONS: { mode: ToleranceMode; label: string }[] = [
+  { mode: 'none', label: 'Sem tolerância' },
+  { mode: 'perMark', label: 'Por marcação' },
+  { mode: 'dailyCap', label: 'CLT (limite diário)' }
+];
+
+const WorkScheduleEditor: React.FC<WorkScheduleEditorProps> = ({ schedules, onChange, title = 'Jornada do Ponto' }) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const current = getScheduleForDate(today, schedules).schedule;
+  const [dailyRate, setDailyRate] = useState<number>(current.dailyRate);
+  const [days, setDays] = useState<Record<number, DaySchedule | null>>({ ...current.days });
+  const [tolerance, setTolerance] = useState<TolerancePolicy>(getTolerance(current));
+  const [nightShiftPercent, setNightShiftPercent] = useState<number>(current.nightShiftPercent || 0);
+  const [effectiveFrom, setEffectiveFrom] = useState<string>(today);
+
+  const handleToleranceMode = (mode: ToleranceMode) => {
+    // Ao ligar a tolerância, parte dos limites da CLT (5 min por marcação, 10 min no dia)
+    const base = tolerance.perMarkMinutes > 0 ? tolerance : CLT_TOLERANCE;
+    setTolerance({ ...base, mode });
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DaySchedule>) => {
+    setDays(prev => ({ ...prev, [weekday]: { ...(prev[weekday] || EMPTY_DAY), ...changes } }));
+  };
+
+  const toggleDay = (weekday: number, works: boolean) => {
+    setDays(prev => ({ ...prev, [weekday]: works ? (current.days[weekday] || EMPTY_DAY) : null }));
+  };
+
+  const handleApply = () => {
+    if (!effectiveFrom) return;
+    onChange(addScheduleVersion(schedules, { dailyRate, days, tolerance, nightShiftPercent }, effectiveFrom));
+    alert(`Jornada salva! Vale para os pontos a partir de ${format(parseISO(effectiveFrom), 'dd/MM/yyyy')}.`);
+  };
+
+  const handleRemove = (id: string) => {
+    if (confirm("Excluir esta versão da jornada? Os dias em que ela valia passam a usar a jornada anterior.")) {
+      onChange(schedules.filter(s => s.id !== id));
+    }
+  };
+
+  return (
+    <Card title={title}>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Horários previstos por dia da semana. Deixe a tarde em branco para dias só de manhã. Cada alteração vale a partir da data escolhida; os dias anteriores mantêm a jornada da época.
+      </p>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Diária do Ponto (R$)</label>
+        <input
+          type="number"
+          step="0.01"
+          value={dailyRate}
+          onChange={(e) => setDailyRate(parseFloat(e.target.value) || 0)}
+          className="block w-full p-3 border border-slate-300 dark:border-slate-700 rounded-lg"
+        />
+        <p className="text-[11px] text-slate-400 mt-1">
+          Valor do minuto: R$ {getMinuteRate({ ...current, dailyRate, days }).toFixed(4).replace('.', ',')} (diária ÷ dia mais longo da semana)
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Adicional Noturno (%)</label>
+        <input
+          type="number"
+          min="0"
+          value={nightShiftPercent}
+          onChange={(e) => setNightShiftPercent(Math.max(0, parseFloat(e.target.value) || 0))}
+          className="block w-full p-3 border border-slate-300 dark:border-slate-700 rounded-lg"
+        />
+        <p className="text-[11px] text-slate-400 mt-1">
+          Sobre o trabalho entre 22h e 5h, contado em hora reduzida de 52min30s (CLT: 20%). Use 0 para não calcular. Horários que passam da meia-noite (ex: 22:00 às 05:00) são aceitos.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {WEEK_ORDER.map(weekday => {
+          const day = days[weekday] ?? null;
+          return (
+            <div key={weekday} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+              <label className="flex items-center justify-between mb-1">
+                <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{WEEKDAY_NAMES[weekday]}</span>
+                <span className="flex items-center gap-1.5 text-xs text-slate-500">
+                  <input type="checkbox" checked={!!day} onChange={(e) => toggleDay(weekday, e.target.checked)} />
+                  {day ? 'Expediente' : 'Folga'}
+                </span>
+              </label>
+              {day && (
+                <div className="grid grid-cols-4 gap-1.5">
+                  {TIME_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                      <span className="block text-[10px] text-slate-400 font-bold uppercase">{label}</span>
+                      <input
+                        type="time"
+                        value={day[field]}
+                        onChange={(e) => updateDay(weekday, { [field]: e.target.value })}
+                        className="w-full p-1 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700">
+        <span className="block text-sm font-bold text-slate-700 dark:text-slate-200 mb-2">Tolerância de Marcação</span>
+        <div className="grid grid-cols-3 gap-1.5">
+          {TOLERANCE_OPTIONS.map(({ mode, label }) => (
+            <button
+              key={mode}
+              onClick={() => handleToleranceMode(mode)}
+              className={`py-1.5 px-2 rounded-lg text-xs font-bold ${tolerance.mode === mode ? 'bg-violet-600 text-white' : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {tolerance.mode !== 'none' && (
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <div>
+              <span className="block text-[10px] text-slate-400 font-bold uppercase">Min. por marcação</span>
+              <input
+                type="number"
+                min="0"
+                value={tolerance.perMarkMinutes}
+                onChange={(e) => setTolerance({ ...tolerance, perMarkMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="w-full p-1 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+              />
+            </div>
+            {tolerance.mode === 'dailyCap' && (
+              <div>
+                <span className="block text-[10px] text-slate-400 font-bold uppercase">Limite no dia (min)</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={tolerance.dailyMaxMinutes}
+                  onChange={(e) => setTolerance({ ...tolerance, dailyMaxMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-full p-1 border border-slate-300 dark:border-slate-700 rounded-lg text-xs bg-white dark:bg-slate-900"
+                />
+              </div>
+            )}
+          </div>
+        )}
+        <p className="text-[11px] text-slate-400 mt-2">Regra: {describeTolerance(tolerance)}.</p>
+      </div>
+
+      <div className="mt-4 flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1">
+          <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Vale a partir de</label>
+          <input
+            type="date"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+            className="w-full p-2 border border-slate-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-950"
+          />
+        </div>
+        <button
+          onClick={handleApply}
+          className="py-2.5 px-4 bg-violet-600 text-white rounded-xl text-sm font-bold flex items-center justify-center gap-2"
+        >
+          <CalendarClock className="w-4 h-4" />
+          Salvar Jornada
+        </button>
+      </div>
+
+      {schedules.length > 0 && (
+        <div className="mt-5 pt-4 border-t border-slate-100 dark:border-slate-800 space-y-2">
+          <p className="text-xs font-bold text-slate-500 uppercase">Histórico de Jornadas</p>
+          {[...schedules].reverse().map(s => (
+            <div key={s.id} className="flex justify-between items-start gap-2 text-xs">
+              <div>
+                <p className="font-bold text-slate-700 dark:text-slate-200">
+                  A partir de {format(parseISO(s.effectiveFrom), 'dd/MM/yyyy')} · R$ {s.dailyRate.toFixed(2).replace('.', ',')}
+                </p>
+                <p className="text-slate-500">{describeWeek(s)}</p>
+                <p className="text-slate-400">Tolerância: {describeTolerance(getTolerance(s))}</p>
+                {!!s.nightShiftPercent && <p className="text-slate-400">Adicional noturno: {s.nightShiftPercent}%</p>}
+              </div>
+              <button onClick={() => handleRemove(s.id)} className="p-1 text-slate-400 hover:text-rose-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default WorkScheduleEditor;
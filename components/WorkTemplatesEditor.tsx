@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { WorkStatus, WorkTemplate } from '../types';
+import { Card } from './ui/Card';
+import { translateStatus } from './ReportsTab';
+import { WEEKDAY_SHORT } from '../services/workSchedule';
+import { getWorkTemplates, TEMPLATE_STATUSES, DEFAULT_WORK_TEMPLATES } from '../services/bulkEntries';
+
+interface WorkTemplatesEditorProps {
+  templates?: WorkTemplate[];
+  onChange: (templates: WorkTemplate[]) => void;
+}
+
+const WorkTemplatesEditor: React.FC<WorkTemplatesEditorProps> = ({ templates, onChange }) => {
+  const list = getWorkTemplates(templates);
+  const [name, setName] = useState('');
+
+  const updateTemplate = (id: string, changes: Partial<WorkTemplate>) => {
+    onChange(list.map(t => (t.id === id ? { ...t, ...changes } : t)));
+  };
+
+  const updateDay = (template: WorkTemplate, weekday: number, value: string) => {
+    updateTemplate(template.id, { days: { ...template.days, [weekday]: (value || null) as WorkStatus | null } });
+  };
+
+  // Novo modelo começa como "Seg–Sex dia inteiro"
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    onChange([...list, { id: Date.now().toString(), name: name.trim(), days: { ...DEFAULT_WORK_TEMPLATES[0].days } }]);
+    setName('');
+  };
+
+  const handleRemove = (template: WorkTemplate) => {
+    if (list.length === 1) {
+      alert('Mantenha ao menos um modelo.');
+      return;
+    }
+    if (confirm(`Excluir o modelo "${template.name}"? Os dias já lançados com ele continuam.`)) {
+      onChange(list.filter(t => t.id !== template.id));
+    }
+  };
+
+  return (
+    <Card title="Modelos de Semana">
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+        Usados em "Lançar Vários Dias" no Registro Diário para preencher os dias ainda sem registro. Dia em branco não é lançado.
+      </p>
+
+      <div className="space-y-4">
+        {list.map(template => (
+          <div key={template.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-slate-200 dark:border-slate-700 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={template.name}
+                onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-semibold"
+              />
+              <button onClick={() => handleRemove(template)} className="p-1 text-slate-400 hover:text-rose-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAY_SHORT.map((weekday, index) => (
+                <div key={weekday}>
+                  <label className="block text-[10px] font-bold text-slate-500 uppercase text-center mb-0.5">{weekday}</label>
+                  <select
+                    value={template.days[index] || ''}
+                    onChange={(e) => updateDay(template, index, e.target.value)}
+                    className="w-full p-1 border border-slate-300 dark:border-slate-700 rounded text-[10px] bg-white dark:bg-slate-950"
+                    title={template.days[index] ? translateStatus(template.days[index]!) : 'Não lançar'}
+                  >
+                    <option value="">—</option>
+                    {TEMPLATE_STATUSES.map(s => <option key={s} value={s}>{translateStatus(s)}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Novo modelo (ex: Escala 12x36)"
+          className="flex-1 min-w-0 p-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm"
+        />
+        <button onClick={handleAdd} className="p-2 bg-violet-600 text-white rounded-lg" title="Adicionar modelo">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+export default WorkTemplatesEditor;
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +9,26 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// Os dados locais precisam estar carregados antes do primeiro render.
+// Se não der para abri-los (armazenamento corrompido, dados de uma versão mais nova do app), mostra o motivo
+// em vez de uma tela em branco; nada é gravado nesse caso.
+initStorage().then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+}).catch(err => {
+  console.error('Erro ao abrir os dados locais:', err);
+  root.render(
+    <div className="min-h-screen flex items-center justify-center p-6 bg-slate-50 text-slate-800 font-sans">
+      <div className="max-w-sm w-full bg-white p-6 rounded-2xl shadow-sm border border-rose-200 space-y-4 text-center">
+        <h1 className="text-lg font-bold text-rose-600">Não foi possível abrir seus dados</h1>
+        <p className="text-sm text-slate-600">{err instanceof Error ? err.message : String(err)}</p>
+        <button onClick={() => window.location.reload()} className="w-full py-3 rounded-xl font-bold text-sm bg-violet-600 text-white">
+          Tentar novamente
+        </button>
+      </div>
+    </div>
+  );
+});
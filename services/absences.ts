@@ -0,0 +1,115 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { Absence, AbsenceType, PontoEntry, UserSettings, WorkEntry, WorkStatus } from '../types';
+import { buildPontoEntry } from './calculations';
+import { calculateDayValue, getDailyRateOn, getSettingsOn } from './payRules';
+import { getScheduleForDate } from './workSchedule';
+import { getHoliday } from './holidays';
+import { MAIN_EMPLOYER_ID, getEmployerId, getEmployerSettings, getWorkEntryId } from './employers';
+
+// Ausências justificadas: cada dia previsto do intervalo vira uma falta justificada no registro diário
+// e, se pedido, um dia de ponto coberto pela ausência.
+
+// Tipos iniciais (CLT art. 473 e atestado médico): dias pagos e sem desconto no banco de horas
+export const DEFAULT_ABSENCE_TYPES: AbsenceType[] = [
+  { id: 'atestado', name: 'Atestado médico', paid: true, countsAgainstBalance: false },
+  { id: 'luto', name: 'Luto', paid: true, countsAgainstBalance: false },
+  { id: 'casamento', name: 'Casamento', paid: true, countsAgainstBalance: false },
+  { id: 'doacao-sangue', name: 'Doação de sangue', paid: true, countsAgainstBalance: false },
+  { id: 'justificada-sem-pagamento', name: 'Falta justificada sem pagamento', paid: false, countsAgainstBalance: false }
+];
+
+export const getAbsenceTypes = (types?: AbsenceType[]): AbsenceType[] =>
+  types && types.length > 0 ? types : DEFAULT_ABSENCE_TYPES;
+
+// Tipo apagado depois de usado: os dias já lançados mantêm as regras da época; aqui só falta o nome
+export const getAbsenceType = (id: string, types?: AbsenceType[]): AbsenceType =>
+  getAbsenceTypes(types).find(t => t.id === id) ?? { id, name: id, paid: false, countsAgainstBalance: false };
+
+export const createAbsenceType = (types: AbsenceType[], name: string, paid: boolean, countsAgainstBalance: boolean): AbsenceType[] => [
+  ...types,
+  { id: Date.now().toString(), name: name.trim(), paid, countsAgainstBalance }
+];
+
+export const describeAbsenceType = (type: AbsenceType): string =>
+  `${type.paid ? 'pago' : 'não pago'} · ${type.countsAgainstBalance ? 'desconta do banco de horas' : 'sem desconto no banco'}`;
+
+// Dias do intervalo com expediente previsto pela jornada do empregador da ausência (folgas previstas e feriados ficam de fora)
+export const getAbsenceDays = (absence: Absence, settings: UserSettings): string[] => {
+  if (absence.endDate < absence.startDate) return [];
+  const employerSettings = getEmployerSettings(settings, getEmployerId(absence));
+  return eachDayOfInterval({ start: parseISO(absence.startDate), end: parseISO(absence.endDate) })
+    .map(day => format(day, 'yyyy-MM-dd'))
+    .filter(date => getScheduleForDate(date, employerSettings.workSchedules).day !== null && !getHoliday(date, settings));
+};
+
+export interface AbsenceRecords {
+  work: WorkEntry[];
+  ponto: PontoEntry[];
+}
+
+/**
+ * Registros a gravar para uma ausência. Dias já marcados como trabalhados no registro diário não são tocados;
+ * no ponto, os intervalos e ajustes do dia são mantidos e a ausência cobre só o tempo não trabalhado.
+ * As faltas ficam com o empregador da ausência e o valor dele; o ponto só existe para o principal.
+ */
+export const buildAbsenceRecords = (
+  absence: Absence,
+  settings: UserSettings,
+  workEntries: WorkEntry[],
+  pontoEntries: PontoEntry[]
+): AbsenceRecords => {
+  const type = getAbsenceType(absence.typeId, settings.absenceTypes);
+  const employerId = getEmployerId(absence);
+  const employerSettings = getEmployerSettings(settings, employerId);
+  const includePonto = absence.includePonto && employerId === MAIN_EMPLOYER_ID;
+  const records: AbsenceRecords = { work: [], ponto: [] };
+
+  getAbsenceDays(absence, settings).forEach(date => {
+    const id = getWorkEntryId(date, employerId);
+    const existing = workEntries.find(e => e.id === id);
+    if (!existing || existing.status === WorkStatus.MISSED || existing.absenceId) {
+      records.work.push({
+        id,
+        date,
+        status: WorkStatus.MISSED,
+        note: [type.name, absence.note].filter(Boolean).join(' · '),
+        dailyRateSnapshot: getDailyRateOn(date, employerSettings, employerId),
+        valueSnapshot: type.paid ? calculateDayValue(WorkStatus.WORKED, getSettingsOn(date, employerSettings, employerId)) : 0,
+        absenceId: absence.id,
+        employerId: absence.employerId
+      });
+    }
+
+    if (includePonto) {
+      const day = pontoEntries.find(e => e.date === date);
+      records.ponto.push(buildPontoEntry(
+        date,
+        day?.intervals || [],
+        day?.adjustments || [],
+        settings.workSchedules,
+        settings.pontoCategories,
+        { absenceId: absence.id, name: type.name, countsAgainstBalance: type.countsAgainstBalance }
+      ));
+    }
+  });
+  return records;
+};
+
+export interface AbsenceRelease {
+  workIds: string[]; // faltas lançadas pela ausência, a apagar
+  pontoIds: string[]; // dias de ponto criados só para a ausência, a apagar
+  ponto: PontoEntry[]; // dias de ponto com registro próprio, regravados sem a ausência
+}
+
+// Desfaz os lançamentos de uma ausência (ao excluir ou antes de regravar com outras datas)
+export const releaseAbsenceRecords = (absenceId: string, settings: UserSettings, workEntries: WorkEntry[], pontoEntries: PontoEntry[]): AbsenceRelease => {
+  const linked = pontoEntries.filter(e => e.absence?.absenceId === absenceId);
+  const isEmpty = (e: PontoEntry) => e.intervals.length === 0 && (e.adjustments || []).length === 0;
+  return {
+    workIds: workEntries.filter(e => e.absenceId === absenceId).map(e => e.id),
+    pontoIds: linked.filter(isEmpty).map(e => e.id),
+    ponto: linked
+      .filter(e => !isEmpty(e))
+      .map(e => buildPontoEntry(e.date, e.intervals, e.adjustments || [], settings.workSchedules, settings.pontoCategories))
+  };
+};
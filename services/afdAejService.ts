@@ -0,0 +1,385 @@
+import { format, addMinutes, parseISO } from 'date-fns';
+import { DaySchedule, PontoEntry, UserSettings, WorkSchedule } from '../types';
+import { getScheduleForDate, dayScheduleMinutes, unfoldTimes } from './workSchedule';
+import { PONTO_MARKS, isMarkEdited } from './pontoPunches';
+
+// Arquivos oficiais de ponto da Portaria MTP 671/2021: AFD (Anexo I, leiaute 003) e AEJ (Anexo VI, leiaute 001).
+// O app se identifica como REP-A (registrador alternativo): não tem número de registro no INPI,
+// então o número do REP vai zerado e os arquivos saem sem assinatura digital.
+
+export type OfficialFileKind = 'AFD' | 'AEJ';
+
+export interface OfficialFileIssue {
+  line?: number; // linha do arquivo gerado (1 = primeira)
+  message: string;
+}
+
+export interface OfficialFileResult {
+  kind: OfficialFileKind;
+  fileName: string;
+  content: string;
+  issues: OfficialFileIssue[]; // impedem o download
+  warnings: string[]; // informativos
+}
+
+export interface OfficialExportInput {
+  entries: PontoEntry[];
+  settings: UserSettings;
+  schedules?: WorkSchedule[];
+  startDate: string; // AAAA-MM-DD
+  endDate: string;
+  generatedAt?: Date;
+}
+
+const APP_NAME = 'Meu Registro de Trabalho RM';
+const APP_VERSION = '1.0';
+const REP_NUMBER = '0'.repeat(17);
+const AFD_LAYOUT = '003';
+const AEJ_LAYOUT = '001';
+const LINE_BREAK = '\r\n';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_RE = /^\d{4}-\d{2}-\d{2}T([01]\d|2[0-3]):[0-5]\d:00[+-]\d{4}$/;
+const HHMM_RE = /^([01]\d|2[0-3])[0-5]\d$/;
+
+export const onlyDigits = (value?: string): string => (value || '').replace(/\D/g, '');
+
+const allSameDigits = (digits: string) => /^(\d)\1*$/.test(digits);
+
+export const isValidCpf = (value?: string): boolean => {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || allSameDigits(cpf)) return false;
+  const digit = (length: number) => {
+    const sum = cpf.slice(0, length).split('').reduce((acc, d, i) => acc + Number(d) * (length + 1 - i), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return digit(9) === Number(cpf[9]) && digit(10) === Number(cpf[10]);
+};
+
+export const isValidCnpj = (value?: string): boolean => {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || allSameDigits(cnpj)) return false;
+  const digit = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = cnpj.slice(0, length).split('').reduce((acc, d, i) => acc + Number(d) * weights[i], 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return digit(12) === Number(cnpj[12]) && digit(13) === Number(cnpj[13]);
+};
+
+// 1 = CNPJ, 2 = CPF (tipo do identificador do empregador)
+const employerIdType = (document: string): '1' | '2' => (onlyDigits(document).length === 14 ? '1' : '2');
+
+// CRC-16/KERMIT (polinômio 0x1021 refletido, valor inicial 0) sobre os bytes ISO-8859-1 da linha
+export const crc16 = (text: string): string => {
+  let crc = 0;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) & 0xff;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Os leiautes pedem ISO-8859-1; caracteres fora dela viram '?'
+export const toLatin1Bytes = (content: string): Uint8Array =>
+  Uint8Array.from(content, ch => (ch.charCodeAt(0) <= 0xff ? ch.charCodeAt(0) : 0x3f));
+
+const padText = (value: string, length: number) => value.slice(0, length).padEnd(length, ' ');
+const padNumber = (value: string | number, length: number) => String(value).slice(0, length).padStart(length, '0');
+
+// "AAAA-MM-ddThh:mm:00-0300", com o fuso do aparelho
+const formatDateTime = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm':00'xx");
+
+// Minutos desde o início do dia da jornada (podem passar de 24h em turno noturno)
+const markDateTime = (date: string, minutes: number): Date => addMinutes(parseISO(date), minutes);
+
+const isTime = (value: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+const checkIdentification = (settings: UserSettings): OfficialFileIssue[] => {
+  const issues: OfficialFileIssue[] = [];
+  if (!settings.employerName?.trim()) issues.push({ message: 'Informe o nome do patrão/empresa em Configurações.' });
+  if (!settings.workerName?.trim()) issues.push({ message: 'Informe seu nome completo em Configurações.' });
+  const employerDoc = onlyDigits(settings.employerDocument);
+  if (!(employerDoc.length === 14 ? isValidCnpj(employerDoc) : isValidCpf(employerDoc))) {
+    issues.push({ message: 'CNPJ/CPF do patrão ausente ou inválido (Configurações › Dados para o Relatório).' });
+  }
+  if (!isValidCpf(settings.workerCpf)) {
+    issues.push({ message: 'Seu CPF está ausente ou inválido (Configurações › Dados para o Relatório).' });
+  }
+  return issues;
+};
+
+const periodEntries = ({ entries, startDate, endDate }: OfficialExportInput) =>
+  entries.filter(e => e.date >= startDate && e.date <= endDate).sort((a, b) => a.date.localeCompare(b.date));
+
+const joinLines = (lines: string[]) => lines.join(LINE_BREAK) + LINE_BREAK;
+
+const fileSuffix = (input: OfficialExportInput) =>
+  `${onlyDigits(input.settings.employerDocument) || 'empregador'}_${input.startDate}_${input.endDate}`;
+
+// --- AFD ---------------------------------------------------------------------------
+
+/**
+ * AFD: cabeçalho (tipo 1), uma marcação tipo 3 por batida do relógio e trailer (tipo 9).
+ * Só batidas reais entram: horários digitados à mão não são marcações do registrador e vão apenas no AEJ.
+ */
+export const buildAfd = (input: OfficialExportInput): OfficialFileResult => {
+  const { settings, startDate, endDate } = input;
+  const employerDoc = onlyDigits(settings.employerDocument);
+  const cpf = onlyDigits(settings.workerCpf);
+  const entries = periodEntries(input);
+
+  const header = [
+    '000000000',
+    '1',
+    employerIdType(employerDoc),
+    padNumber(employerDoc, 14),
+    padText('', 14), // CNO/CAEPF
+    padText(settings.employerName || '', 150),
+    REP_NUMBER,
+    startDate,
+    endDate,
+    formatDateTime(input.generatedAt ?? new Date()),
+    AFD_LAYOUT,
+    '2', // identificador do desenvolvedor: CPF (pessoa física, sem cadastro)
+    padNumber('', 14),
+    padText('', 30) // modelo: só para REP-C
+  ].join('');
+
+  const recordIssues: OfficialFileIssue[] = [];
+  const punches: Date[] = [];
+  entries.forEach(entry => entry.intervals.forEach((interval, index) => PONTO_MARKS.forEach(({ mark, label }) => {
+    const timestamp = interval.punches?.[mark];
+    if (!timestamp) return;
+    const moment = new Date(timestamp);
+    if (isNaN(moment.getTime())) recordIssues.push({ message: `Ponto de ${entry.date}: batida inválida em ${label} do intervalo ${index + 1} (${JSON.stringify(timestamp)}).` });
+    else punches.push(moment);
+  })));
+  punches.sort((a, b) => a.getTime() - b.getTime());
+
+  const marks = punches.map((moment, index) => {
+    const record = `${padNumber(index + 1, 9)}3${formatDateTime(moment)}${padNumber(cpf, 12)}`;
+    return record + crc16(record);
+  });
+
+  const trailer = `999999999${padNumber(0, 9)}${padNumber(marks.length, 9)}${padNumber(0, 9)}${padNumber(0, 9)}${padNumber(0, 9)}${padNumber(0, 9)}9`;
+
+  const manualMarks = entries.reduce((acc, entry) => acc + entry.intervals.reduce((sum, interval) =>
+    sum + PONTO_MARKS.filter(({ mark }) => interval[mark] && !interval.punches?.[mark]).length, 0), 0);
+  const warnings: string[] = [];
+  if (manualMarks > 0) warnings.push(`${manualMarks} horário(s) digitado(s) à mão não entram no AFD, que guarda só batidas do relógio. Eles aparecem no AEJ.`);
+  if (marks.length === 0) warnings.push('Nenhuma batida de relógio no período: o AFD sai só com cabeçalho e trailer.');
+
+  const content = joinLines([header + crc16(header), ...marks, trailer]);
+  return {
+    kind: 'AFD',
+    fileName: `AFD_${fileSuffix(input)}.txt`,
+    content,
+    issues: [...checkIdentification(settings), ...recordIssues, ...validateAfd(content)],
+    warnings
+  };
+};
+
+const AFD_LENGTHS: Record<string, number> = { '1': 302, '3': 50, '9': 64 };
+
+// Confere tamanho, sequência (NSR), datas, CRC de cada linha e as contagens do trailer
+export const validateAfd = (content: string): OfficialFileIssue[] => {
+  const issues: OfficialFileIssue[] = [];
+  const lines = content.split(LINE_BREAK).filter(l => l !== '');
+  let expectedNsr = 1;
+  let markCount = 0;
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    // O trailer começa com 999999999 e termina com o tipo; os demais trazem o tipo na posição 10
+    const type = text.startsWith('999999999') ? text.slice(-1) : text.charAt(9);
+    const expectedLength = AFD_LENGTHS[type];
+    if (!expectedLength) {
+      issues.push({ line, message: `tipo de registro desconhecido (${JSON.stringify(type)})` });
+      return;
+    }
+    if (text.length !== expectedLength) {
+      issues.push({ line, message: `registro tipo ${type} com ${text.length} caracteres, esperado ${expectedLength}` });
+      return;
+    }
+    if ((type === '1') !== (index === 0)) issues.push({ line, message: 'o cabeçalho (tipo 1) deve ser só a primeira linha' });
+    if ((type === '9') !== (index === lines.length - 1)) issues.push({ line, message: 'o trailer (tipo 9) deve ser só a última linha' });
+
+    if (type === '1') {
+      const idType = text.charAt(10);
+      const doc = text.slice(11, 25);
+      const docOk = idType === '1' ? isValidCnpj(doc) : idType === '2' && isValidCpf(doc.slice(3));
+      if (!docOk) issues.push({ line, message: 'CNPJ/CPF do empregador inválido' });
+      if (!DATE_RE.test(text.slice(206, 216)) || !DATE_RE.test(text.slice(216, 226))) issues.push({ line, message: 'datas inicial/final inválidas' });
+      if (!DATE_TIME_RE.test(text.slice(226, 250))) issues.push({ line, message: 'data/hora de geração inválida' });
+      if (crc16(text.slice(0, 298)) !== text.slice(298)) issues.push({ line, message: 'CRC-16 não confere' });
+    } else if (type === '3') {
+      markCount += 1;
+      if (Number(text.slice(0, 9)) !== expectedNsr) issues.push({ line, message: `NSR ${text.slice(0, 9)} fora de sequência (esperado ${expectedNsr})` });
+      expectedNsr += 1;
+      if (!DATE_TIME_RE.test(text.slice(10, 34))) issues.push({ line, message: `data/hora da marcação inválida (${text.slice(10, 34)})` });
+      if (!isValidCpf(text.slice(35, 46))) issues.push({ line, message: 'CPF do trabalhador inválido' });
+      if (crc16(text.slice(0, 46)) !== text.slice(46)) issues.push({ line, message: 'CRC-16 não confere' });
+    } else if (type === '9') {
+      if (text.slice(0, 9) !== '999999999') issues.push({ line, message: 'trailer deve começar com 999999999' });
+      if (Number(text.slice(18, 27)) !== markCount) issues.push({ line, message: `trailer informa ${Number(text.slice(18, 27))} marcações, o arquivo tem ${markCount}` });
+    }
+  });
+
+  if (lines.length === 0) issues.push({ message: 'arquivo vazio' });
+  return issues;
+};
+
+// --- AEJ ---------------------------------------------------------------------------
+
+const hhmm = (time: string) => time.replace(':', '');
+
+const contractualHours = (day: DaySchedule) =>
+  [dayScheduleMinutes(day), hhmm(day.morningStart), hhmm(day.morningEnd), hhmm(day.afternoonStart), hhmm(day.afternoonEnd)];
+
+/**
+ * AEJ: empregador (01), registrador (02), vínculo (03), horários contratuais (04),
+ * marcações (05), programa (08) e trailer (99).
+ * Batidas do relógio saem com fonte "O"; horários digitados saem com fonte "I" e motivo,
+ * e a batida original corrigida fica como desconsiderada ("D").
+ */
+export const buildAej = (input: OfficialExportInput): OfficialFileResult => {
+  const { settings, schedules, startDate, endDate } = input;
+  const employerDoc = onlyDigits(settings.employerDocument);
+  const entries = periodEntries(input);
+
+  const horarios = new Map<string, { code: string; fields: (string | number)[] }>();
+  const horarioCode = (date: string): string => {
+    const day = getScheduleForDate(date, schedules).day;
+    if (!day) return '';
+    const fields = contractualHours(day);
+    const key = fields.join('|');
+    if (!horarios.has(key)) horarios.set(key, { code: String(horarios.size + 1), fields });
+    return horarios.get(key)!.code;
+  };
+
+  const marks: { moment: Date; fields: string[] }[] = [];
+  const recordIssues: OfficialFileIssue[] = [];
+  entries.forEach(entry => {
+    const code = horarioCode(entry.date);
+    const times = entry.intervals.flatMap(i => [i.start, i.end]);
+    const unfolded = unfoldTimes(times.map(t => (isTime(t) ? t : '')));
+    entry.intervals.forEach((interval, position) => PONTO_MARKS.forEach(({ mark, label }, offset) => {
+      const value = interval[mark];
+      if (value && !isTime(value)) {
+        recordIssues.push({ message: `Ponto de ${entry.date}: horário inválido em ${label} do intervalo ${position + 1} (${JSON.stringify(value)}).` });
+        return;
+      }
+      // Cada intervalo é um par entrada/saída, na ordem do dia
+      const tpMarc = mark === 'start' ? 'E' : 'S';
+      const seq = String(position + 1);
+      const punch = interval.punches?.[mark];
+      const edited = isMarkEdited(interval, mark);
+      const push = (moment: Date, tipo: string, fonte: string, motivo: string) =>
+        marks.push({ moment, fields: ['05', '1', formatDateTime(moment), fonte === 'O' ? '1' : '', tipo, seq, fonte, code, motivo] });
+
+      if (punch) push(new Date(punch), edited ? 'D' : tpMarc, 'O', edited ? 'Marcação corrigida manualmente' : '');
+      if (value && (!punch || edited)) {
+        push(markDateTime(entry.date, unfolded[position * 2 + offset]!), tpMarc, 'I', punch ? 'Correção de marcação' : 'Registro manual');
+      }
+    }));
+  });
+  marks.sort((a, b) => a.moment.getTime() - b.moment.getTime());
+
+  const records: string[][] = [
+    ['01', employerIdType(employerDoc), employerDoc, '', '', settings.employerName || '', startDate, endDate, AEJ_LAYOUT],
+    ['02', '1', '2', REP_NUMBER],
+    ['03', '1', onlyDigits(settings.workerCpf), settings.workerName || ''],
+    ...Array.from(horarios.values()).map(h => ['04', h.code, ...h.fields.map(String)]),
+    ...marks.map(m => m.fields),
+    ['08', APP_NAME, APP_VERSION, '', '', '', '']
+  ];
+  const count = (type: string) => String(records.filter(r => r[0] === type).length);
+  records.push(['99', ...['01', '02', '03', '04', '05', '06', '07', '08'].map(count)]);
+
+  const content = joinLines(records.map(r => r.map(field => field.replace(/\|/g, ' ')).join('|')));
+  const warnings: string[] = [];
+  if (marks.length === 0) warnings.push('Nenhuma marcação no período.');
+
+  return {
+    kind: 'AEJ',
+    fileName: `AEJ_${fileSuffix(input)}.txt`,
+    content,
+    issues: [...checkIdentification(settings), ...recordIssues, ...validateAej(content)],
+    warnings
+  };
+};
+
+const AEJ_FIELD_COUNTS: Record<string, number> = { '01': 9, '02': 4, '03': 4, '04': 7, '05': 9, '06': 3, '07': 6, '08': 7, '99': 9 };
+
+// Confere a quantidade de campos por tipo, formatos, referências entre registros e o trailer
+export const validateAej = (content: string): OfficialFileIssue[] => {
+  const issues: OfficialFileIssue[] = [];
+  const lines = content.split(LINE_BREAK).filter(l => l !== '');
+  const counts: Record<string, number> = {};
+  const reps = new Set<string>();
+  const vinculos = new Set<string>();
+  const horarios = new Set<string>();
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const fields = text.split('|');
+    const type = fields[0];
+    const expected = AEJ_FIELD_COUNTS[type];
+    if (!expected) {
+      issues.push({ line, message: `tipo de registro desconhecido (${JSON.stringify(type)})` });
+      return;
+    }
+    if (fields.length !== expected) {
+      issues.push({ line, message: `registro ${type} com ${fields.length} campos, esperado ${expected}` });
+      return;
+    }
+    counts[type] = (counts[type] || 0) + 1;
+    if ((type === '01') !== (index === 0)) issues.push({ line, message: 'o registro 01 deve ser só a primeira linha' });
+    if ((type === '99') !== (index === lines.length - 1)) issues.push({ line, message: 'o registro 99 deve ser só a última linha' });
+
+    if (type === '01') {
+      const docOk = fields[1] === '1' ? isValidCnpj(fields[2]) : fields[1] === '2' && isValidCpf(fields[2]);
+      if (!docOk) issues.push({ line, message: 'CNPJ/CPF do empregador inválido' });
+      if (!fields[5].trim()) issues.push({ line, message: 'razão social/nome do empregador vazio' });
+      if (!DATE_RE.test(fields[6]) || !DATE_RE.test(fields[7])) issues.push({ line, message: 'datas inicial/final inválidas' });
+    } else if (type === '02') {
+      reps.add(fields[1]);
+    } else if (type === '03') {
+      vinculos.add(fields[1]);
+      if (!isValidCpf(fields[2])) issues.push({ line, message: 'CPF do trabalhador inválido' });
+      if (!fields[3].trim()) issues.push({ line, message: 'nome do trabalhador vazio' });
+    } else if (type === '04') {
+      horarios.add(fields[1]);
+      if (!/^\d+$/.test(fields[2])) issues.push({ line, message: `duração da jornada inválida (${fields[2]})` });
+      fields.slice(3).forEach(h => {
+        if (h !== '' && !HHMM_RE.test(h)) issues.push({ line, message: `horário contratual inválido (${h}), use hhmm` });
+      });
+    } else if (type === '05') {
+      const [, vinculo, dataHora, rep, tpMarc, seq, fonte, codHor, motivo] = fields;
+      if (!vinculos.has(vinculo)) issues.push({ line, message: `vínculo ${vinculo} não declarado em registro 03` });
+      if (!DATE_TIME_RE.test(dataHora)) issues.push({ line, message: `data/hora da marcação inválida (${dataHora})` });
+      if (!['E', 'S', 'D'].includes(tpMarc)) issues.push({ line, message: `tipo de marcação inválido (${tpMarc})` });
+      if (!/^\d+$/.test(seq)) issues.push({ line, message: `sequência entrada/saída inválida (${seq})` });
+      if (!['O', 'I', 'P', 'X', 'T'].includes(fonte)) issues.push({ line, message: `fonte da marcação inválida (${fonte})` });
+      if (fonte === 'O' && !reps.has(rep)) issues.push({ line, message: `registrador ${rep || '(vazio)'} não declarado em registro 02` });
+      if (codHor && !horarios.has(codHor)) issues.push({ line, message: `horário contratual ${codHor} não declarado em registro 04` });
+      if ((tpMarc === 'D' || fonte === 'I') && !motivo.trim()) issues.push({ line, message: 'motivo obrigatório para marcação desconsiderada ou incluída' });
+    } else if (type === '99') {
+      ['01', '02', '03', '04', '05', '06', '07', '08'].forEach((t, i) => {
+        const declared = Number(fields[i + 1]);
+        if (declared !== (counts[t] || 0)) issues.push({ line, message: `trailer informa ${declared} registro(s) ${t}, o arquivo tem ${counts[t] || 0}` });
+      });
+    }
+  });
+
+  if (lines.length === 0) issues.push({ message: 'arquivo vazio' });
+  return issues;
+};
+
+export const buildOfficialFile = (kind: OfficialFileKind, input: OfficialExportInput): OfficialFileResult =>
+  kind === 'AFD' ? buildAfd(input) : buildAej(input);
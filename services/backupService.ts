@@ -0,0 +1,262 @@
+import { DataSnapshot, UserSettings, WorkStatus } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot, toSnapshot } from './schemaMigrations';
+import { PAYMENT_METHOD_LABELS } from './payments';
+
+// Validação e resumo de arquivos de backup, antes de qualquer gravação
+
+export type BackupCategory = 'workEntries' | 'advances' | 'expenses' | 'tools' | 'cycleHistory' | 'pontoEntries' | 'timeBankArchives' | 'timeBankTransactions' | 'absences' | 'payments';
+
+export const BACKUP_CATEGORIES: { key: BackupCategory; label: string }[] = [
+  { key: 'workEntries', label: 'Registros diários' },
+  { key: 'advances', label: 'Vales' },
+  { key: 'expenses', label: 'Despesas' },
+  { key: 'tools', label: 'Ferramentas' },
+  { key: 'cycleHistory', label: 'Ciclos encerrados' },
+  { key: 'pontoEntries', label: 'Pontos' },
+  { key: 'timeBankArchives', label: 'Bancos de horas encerrados' },
+  { key: 'timeBankTransactions', label: 'Movimentos do banco de horas' },
+  { key: 'absences', label: 'Ausências justificadas' },
+  { key: 'payments', label: 'Pagamentos recebidos' }
+];
+
+export interface BackupFieldError {
+  category?: BackupCategory;
+  index?: number; // posição do registro na lista do arquivo
+  recordId?: string;
+  field: string;
+  message: string;
+}
+
+export interface ParsedBackup {
+  snapshot: DataSnapshot | null; // null quando o arquivo não pode ser lido
+  present: BackupCategory[]; // categorias que existem no arquivo (as ausentes não são tocadas)
+  hasSettings: boolean;
+  errors: BackupFieldError[];
+}
+
+export interface CategorySummary {
+  count: number;
+  firstDate?: string;
+  lastDate?: string;
+  newRecords: number; // ids que não existem neste aparelho
+  duplicates: number; // mesmo id e mesmo conteúdo
+  changed: number; // mesmo id, conteúdo diferente
+}
+
+type FieldCheck = (value: any) => string | null;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isDate = (value: any) => typeof value === 'string' && DATE_RE.test(value) && !isNaN(new Date(value).getTime());
+
+const requiredText: FieldCheck = v => (typeof v === 'string' && v.trim() !== '' ? null : 'texto obrigatório');
+const optionalText: FieldCheck = v => (v === undefined || v === null || typeof v === 'string' ? null : 'deve ser texto');
+const date: FieldCheck = v => (isDate(v) ? null : `data inválida (${JSON.stringify(v)}), use AAAA-MM-DD`);
+const number: FieldCheck = v => (typeof v === 'number' && isFinite(v) ? null : `número inválido (${JSON.stringify(v)})`);
+const optionalNumber: FieldCheck = v => (v === undefined || v === null ? null : number(v));
+const time: FieldCheck = v => (v === '' || (typeof v === 'string' && TIME_RE.test(v)) ? null : `horário inválido (${JSON.stringify(v)}), use HH:MM`);
+const status: FieldCheck = v => (Object.values(WorkStatus).includes(v) ? null : `status desconhecido (${JSON.stringify(v)})`);
+const object: FieldCheck = v => (v && typeof v === 'object' && !Array.isArray(v) ? null : 'deve ser um objeto');
+
+const INTERVAL_RULES: Record<string, FieldCheck> = {
+  start: time, end: time, label: optionalText,
+  punches: v => (v === undefined ? null : object(v))
+};
+
+// Lista de intervalos do ponto: aponta o primeiro campo inválido, ex: "intervalo 2 › end: horário inválido"
+const intervals: FieldCheck = v => {
+  if (!Array.isArray(v)) return 'deveria ser uma lista de intervalos';
+  for (let i = 0; i < v.length; i++) {
+    const message = object(v[i]);
+    if (message) return `intervalo ${i + 1} › ${message}`;
+    for (const [field, check] of Object.entries(INTERVAL_RULES)) {
+      const fieldMessage = check(v[i][field]);
+      if (fieldMessage) return `intervalo ${i + 1} › ${field}: ${fieldMessage}`;
+    }
+  }
+  return null;
+};
+
+// Ajustes do ponto por categoria: [{ categoryId, minutes }]
+const adjustments: FieldCheck = v => {
+  if (v === undefined) return null;
+  if (!Array.isArray(v)) return 'deveria ser uma lista de ajustes';
+  const invalid = v.findIndex(a => !a || typeof a.categoryId !== 'string' || number(a.minutes) !== null);
+  return invalid >= 0 ? `ajuste ${invalid + 1} inválido (${JSON.stringify(v[invalid])})` : null;
+};
+
+const RULES: Record<BackupCategory, Record<string, FieldCheck>> = {
+  workEntries: { id: requiredText, date, status, dailyRateSnapshot: number, valueSnapshot: optionalNumber, overtimeValue: optionalNumber, note: optionalText, serviceTitle: optionalText },
+  advances: { id: requiredText, date, amount: number, note: optionalText },
+  expenses: { id: requiredText, date, amount: number, note: optionalText },
+  tools: { id: requiredText, date, name: requiredText, amount: number, note: optionalText },
+  cycleHistory: { id: requiredText, startDate: date, endDate: date, stats: object },
+  pontoEntries: {
+    id: requiredText, date, intervals,
+    totalDelay: number, valueEquivalent: number, adjustments
+  },
+  timeBankArchives: {
+    id: requiredText, startDate: date, endDate: date, closedAt: requiredText,
+    entries: v => (Array.isArray(v) ? null : 'deveria ser uma lista de pontos'),
+    balanceMinutes: number, discountValue: number
+  },
+  timeBankTransactions: {
+    id: requiredText, date,
+    type: v => (v === 'compensation' || v === 'payout' ? null : `tipo desconhecido (${JSON.stringify(v)})`),
+    minutes: number, percent: optionalNumber, value: optionalNumber, note: optionalText
+  },
+  absences: { id: requiredText, typeId: requiredText, startDate: date, endDate: date, note: optionalText },
+  payments: {
+    id: requiredText, date, amount: number,
+    method: v => (typeof v === 'string' && v in PAYMENT_METHOD_LABELS ? null : `forma de pagamento desconhecida (${JSON.stringify(v)})`),
+    cycleId: optionalText, note: optionalText
+  }
+};
+
+const SETTINGS_RULES: Partial<Record<keyof UserSettings, FieldCheck>> = {
+  dailyRate: optionalNumber,
+  workerName: optionalText,
+  employerName: optionalText,
+  workerCpf: optionalText,
+  employerDocument: optionalText,
+  theme: v => (v === undefined || v === 'light' || v === 'dark' ? null : `tema inválido (${JSON.stringify(v)})`),
+  notificationTime: v => (v === undefined ? null : time(v)),
+  billingCycleStartDate: v => (v === undefined || v === '' ? null : date(v)),
+  timeBankStartDate: v => (v === undefined || v === '' ? null : date(v)),
+  payRules: v => (v === undefined ? null : object(v)),
+  workSchedules: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  pontoCategories: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  timeBankPolicy: v => (v === undefined ? null : object(v)),
+  absenceTypes: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  workTemplates: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  customHolidays: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  holidayPremiumPercent: optionalNumber,
+  rateHistory: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  employers: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista'),
+  projects: v => (v === undefined || Array.isArray(v) ? null : 'deveria ser uma lista')
+};
+
+const validateRecords = (category: BackupCategory, records: any[]): BackupFieldError[] => {
+  const errors: BackupFieldError[] = [];
+  const seen = new Set<string>();
+  records.forEach((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      errors.push({ category, index, field: '', message: 'registro não é um objeto' });
+      return;
+    }
+    const recordId = typeof record.id === 'string' ? record.id : undefined;
+    Object.entries(RULES[category]).forEach(([field, check]) => {
+      const message = check(record[field]);
+      if (message) errors.push({ category, index, recordId, field, message });
+    });
+    if (recordId) {
+      if (seen.has(recordId)) errors.push({ category, index, recordId, field: 'id', message: 'id repetido dentro do arquivo' });
+      seen.add(recordId);
+    }
+  });
+  return errors;
+};
+
+/**
+ * Lê e valida um arquivo de backup sem gravar nada.
+ * Backups antigos passam pelas migrações antes da validação dos registros.
+ */
+export const parseBackup = (jsonString: string): ParsedBackup => {
+  const failed = (message: string): ParsedBackup => ({
+    snapshot: null, present: [], hasSettings: false, errors: [{ field: 'arquivo', message }]
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonString);
+  } catch {
+    return failed('o arquivo não é um JSON válido');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return failed('o arquivo não é um backup deste aplicativo');
+  const raw = parsed as Record<string, unknown>;
+
+  const errors: BackupFieldError[] = [];
+  const present = BACKUP_CATEGORIES.map(c => c.key).filter(key => raw[key] !== undefined);
+  present.forEach(key => {
+    if (!Array.isArray(raw[key])) errors.push({ category: key, field: key, message: 'deveria ser uma lista' });
+  });
+  const hasSettings = raw.settings !== undefined;
+  if (hasSettings) {
+    const message = object(raw.settings);
+    if (message) errors.push({ field: 'settings', message });
+  }
+  if (present.length === 0 && !hasSettings) return failed('nenhuma categoria de dados encontrada no arquivo');
+  if (raw.schemaVersion !== undefined && typeof raw.schemaVersion !== 'number') {
+    errors.push({ field: 'schemaVersion', message: 'versão inválida' });
+  }
+  if (typeof raw.schemaVersion === 'number' && raw.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return failed(`backup feito por uma versão mais nova do aplicativo (formato ${raw.schemaVersion}). Atualize o app antes de restaurar.`);
+  }
+  if (errors.length > 0) return { snapshot: null, present, hasSettings, errors };
+
+  // Registros que não são objetos quebrariam as migrações: valida a estrutura mínima antes
+  present.forEach(key => {
+    const records = raw[key];
+    if (!Array.isArray(records)) return;
+    records.forEach((record: unknown, index) => {
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        errors.push({ category: key, index, field: '', message: 'registro não é um objeto' });
+      }
+    });
+  });
+  if (errors.length > 0) return { snapshot: null, present, hasSettings, errors };
+
+  const snapshot = migrateSnapshot(toSnapshot(raw));
+  present.forEach(key => errors.push(...validateRecords(key, snapshot[key])));
+  if (hasSettings) {
+    const settings: Partial<UserSettings> = snapshot.settings ?? {};
+    (Object.keys(SETTINGS_RULES) as (keyof UserSettings)[]).forEach(field => {
+      const message = SETTINGS_RULES[field]?.(settings[field]);
+      if (message) errors.push({ field: `settings.${field}`, message });
+    });
+  }
+  return { snapshot, present, hasSettings, errors };
+};
+
+// Texto legível de um erro, ex: "Pontos nº 3 (2024-12-20) › intervals: intervalo 1 › start: horário inválido"
+export const formatBackupError = (error: BackupFieldError): string => {
+  const label = BACKUP_CATEGORIES.find(c => c.key === error.category)?.label;
+  const where = [
+    label,
+    error.index !== undefined ? `nº ${error.index + 1}` : '',
+    error.recordId ? `(${error.recordId})` : ''
+  ].filter(Boolean).join(' ');
+  const field = error.field ? `${error.field}: ` : '';
+  return where ? `${where} › ${field}${error.message}` : `${field}${error.message}`;
+};
+
+// Conteúdo do registro sem o carimbo de sincronização, para comparar versões
+export const sameRecordContent = (a: any, b: any): boolean => {
+  const { updatedAt: _a, ...restA } = a;
+  const { updatedAt: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+};
+
+const recordDates = (category: BackupCategory, record: any): string[] =>
+  category === 'cycleHistory' || category === 'timeBankArchives' || category === 'absences' ? [record.startDate, record.endDate] : [record.date];
+
+export const summarizeCategory = (category: BackupCategory, records: any[], localRecords: any[]): CategorySummary => {
+  const local = new Map(localRecords.map(r => [r.id, r]));
+  const dates = records.flatMap(r => recordDates(category, r)).filter(isDate).sort();
+  const summary: CategorySummary = {
+    count: records.length,
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+    newRecords: 0,
+    duplicates: 0,
+    changed: 0
+  };
+  records.forEach(record => {
+    const existing = local.get(record.id);
+    if (!existing) summary.newRecords += 1;
+    else if (sameRecordContent(existing, record)) summary.duplicates += 1;
+    else summary.changed += 1;
+  });
+  return summary;
+};
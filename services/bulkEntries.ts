@@ -0,0 +1,124 @@
+import { addDays, eachDayOfInterval, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { UserSettings, WorkEntry, WorkStatus, WorkTemplate } from '../types';
+import { calculateDayValueOn, getDailyRateOn } from './payRules';
+import { getHoliday } from './holidays';
+import { getScheduleForDate } from './workSchedule';
+import { MAIN_EMPLOYER_ID, getEmployerId, getWorkEntryId, toEmployerField } from './employers';
+
+// Lançamento em lote no registro diário: período, cópia da semana anterior e modelos de semana.
+// Só dias ainda sem registro do empregador entram no lote; os já lançados nunca são sobrescritos.
+
+const FULL_WEEK = (status: WorkStatus | null, saturday: WorkStatus | null = null): Record<number, WorkStatus | null> => ({
+  0: null, 1: status, 2: status, 3: status, 4: status, 5: status, 6: saturday
+});
+
+export const DEFAULT_WORK_TEMPLATES: WorkTemplate[] = [
+  { id: 'seg-sex', name: 'Seg–Sex dia inteiro', days: FULL_WEEK(WorkStatus.WORKED) },
+  { id: 'seg-sex-sabado-meio', name: 'Seg–Sex dia inteiro, sábado meio período', days: FULL_WEEK(WorkStatus.WORKED, WorkStatus.HALF_DAY) }
+];
+
+export const getWorkTemplates = (templates?: WorkTemplate[]): WorkTemplate[] =>
+  templates && templates.length > 0 ? templates : DEFAULT_WORK_TEMPLATES;
+
+// Status que um modelo pode lançar (faltas e serviços extras não se repetem)
+export const TEMPLATE_STATUSES: WorkStatus[] = [
+  WorkStatus.WORKED,
+  WorkStatus.HALF_DAY,
+  WorkStatus.SATURDAY_FULL,
+  WorkStatus.SUNDAY,
+  WorkStatus.DAY_OFF
+];
+
+export interface BulkDay {
+  date: string;
+  status: WorkStatus;
+  value: number; // valor do dia pela tabela de valores da data (com o adicional de feriado)
+}
+
+const rangeDates = (startDate: string, endDate: string): string[] =>
+  !startDate || !endDate || endDate < startDate
+    ? []
+    : eachDayOfInterval({ start: parseISO(startDate), end: parseISO(endDate) }).map(day => format(day, 'yyyy-MM-dd'));
+
+// Datas que já têm registro do dia do empregador (serviços extras não ocupam o dia)
+const registeredDates = (workEntries: WorkEntry[], employerId: string): Set<string> =>
+  new Set(workEntries.filter(e => e.status !== WorkStatus.EXTRA_SERVICE && getEmployerId(e) === employerId).map(e => e.date));
+
+const toBulkDay = (date: string, status: WorkStatus, settings: UserSettings, employerId: string): BulkDay =>
+  ({ date, status, value: calculateDayValueOn(status, date, settings, employerId) });
+
+// Dia útil: segunda a sexta com expediente previsto na jornada, fora dos feriados
+export const isWorkingDay = (date: string, settings: UserSettings): boolean => {
+  const weekday = parseISO(date).getDay();
+  return weekday >= 1 && weekday <= 5 && getScheduleForDate(date, settings.workSchedules).day !== null && !getHoliday(date, settings);
+};
+
+// Todos os dias úteis do período sem registro, com o mesmo status
+export const planRange = (
+  startDate: string,
+  endDate: string,
+  status: WorkStatus,
+  settings: UserSettings,
+  workEntries: WorkEntry[],
+  employerId: string = MAIN_EMPLOYER_ID
+): BulkDay[] => {
+  const taken = registeredDates(workEntries, employerId);
+  return rangeDates(startDate, endDate)
+    .filter(date => !taken.has(date) && isWorkingDay(date, settings))
+    .map(date => toBulkDay(date, status, settings, employerId));
+};
+
+// Dias do período sem registro cujo dia da semana tem status no modelo. Em feriado o dia entra como "Feriado".
+export const planTemplate = (
+  template: WorkTemplate,
+  startDate: string,
+  endDate: string,
+  settings: UserSettings,
+  workEntries: WorkEntry[],
+  employerId: string = MAIN_EMPLOYER_ID
+): BulkDay[] => {
+  const taken = registeredDates(workEntries, employerId);
+  return rangeDates(startDate, endDate)
+    .filter(date => !taken.has(date))
+    .map(date => {
+      const status = template.days[parseISO(date).getDay()];
+      return { date, status: status && getHoliday(date, settings) ? WorkStatus.HOLIDAY : status };
+    })
+    .filter((day): day is { date: string; status: WorkStatus } => !!day.status)
+    .map(day => toBulkDay(day.date, day.status, settings, employerId));
+};
+
+// Semana (domingo a sábado) que contém a data e a semana anterior, de onde o padrão é copiado
+export const getCopyWeeks = (date: string) => {
+  const target = startOfWeek(parseISO(date));
+  const source = subWeeks(target, 1);
+  const fmt = (day: Date) => format(day, 'yyyy-MM-dd');
+  return {
+    source: { startDate: fmt(source), endDate: fmt(addDays(source, 6)) },
+    target: { startDate: fmt(target), endDate: fmt(addDays(target, 6)) }
+  };
+};
+
+// Repete na semana da data os status da semana anterior do empregador, dia da semana por dia da semana.
+// Faltas, faltas justificadas e serviços extras não são copiados.
+export const planCopyLastWeek = (date: string, settings: UserSettings, workEntries: WorkEntry[], employerId: string = MAIN_EMPLOYER_ID): BulkDay[] => {
+  const { source, target } = getCopyWeeks(date);
+  const pattern: Record<number, WorkStatus | null> = {};
+  workEntries
+    .filter(e => e.date >= source.startDate && e.date <= source.endDate && getEmployerId(e) === employerId)
+    .filter(e => TEMPLATE_STATUSES.includes(e.status) && !e.absenceId)
+    .forEach(e => { pattern[parseISO(e.date).getDay()] = e.status; });
+  return planTemplate({ id: 'copia', name: 'Semana anterior', days: pattern }, target.startDate, target.endDate, settings, workEntries, employerId);
+};
+
+// Registros a gravar para os dias confirmados do lote
+export const buildBulkEntries = (days: BulkDay[], settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): WorkEntry[] =>
+  days.map(day => ({
+    id: getWorkEntryId(day.date, employerId),
+    date: day.date,
+    status: day.status,
+    note: '',
+    dailyRateSnapshot: getDailyRateOn(day.date, settings, employerId),
+    valueSnapshot: day.value,
+    employerId: toEmployerField(employerId)
+  }));
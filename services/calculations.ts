@@ -0,0 +1,424 @@
+import { WorkEntry, AdvanceEntry, ToolEntry, PontoEntry, PontoInterval, PontoAdjustment, PontoAbsence, PontoCategory, MonthlyStats, WorkStatus, WorkSchedule, TolerancePolicy } from '../types';
+import { getEntryValue } from './payRules';
+import { getPontoCategory } from './pontoCategories';
+import { ScheduleInEffect, getScheduleForDate, getTolerance, parseTimeToMinutes, unfoldTimes, DAY_MINUTES } from './workSchedule';
+
+// Cálculos puros de ponto e de totais do período.
+// Relatórios, fechamento de ciclo, Controle de Ponto e PDFs usam estas funções para chegar ao mesmo valor.
+
+// Arredonda para centavos, para que somas e documentos batam
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+export { parseTimeToMinutes };
+
+export const formatMinutesToHuman = (totalMinutes: number): string => {
+  const absMinutes = Math.abs(totalMinutes);
+  const hours = Math.floor(absMinutes / 60);
+  const minutes = absMinutes % 60;
+  let res = '';
+  if (hours > 0) {
+    res += `${hours}h `;
+  }
+  res += `${minutes}min`;
+  return res;
+};
+
+// Trecho do dia fora do previsto, em minutos desde o início do dia da jornada
+export interface PontoDeviation {
+  tipo: 'atraso' | 'credito'; // atraso = previsto e não trabalhado; crédito = trabalhado fora do previsto
+  inicio: number;
+  fim: number;
+  minutos: number;
+  tolerado: boolean; // desconsiderado pela tolerância de marcação
+}
+
+// Minutos lançados em uma categoria de ajuste, já com o nome e a regra (abonado ou descontado)
+export interface AdjustmentDetail {
+  categoryId: string;
+  nome: string;
+  abonado: boolean;
+  minutos: number;
+}
+
+export interface DayCalculationDetails {
+  jornadaPrevista: number; // minutos previstos pela jornada do dia
+  tempoRegistrado: number; // minutos trabalhados (soma dos intervalos)
+  pausas: number; // minutos entre um intervalo e o próximo
+  fracaoDia: number; // meio dia por período previsto com trabalho (ou por intervalo, em dia de folga)
+  desvios: PontoDeviation[];
+  atrasos: number; // soma dos atrasos
+  ajustes: AdjustmentDetail[]; // minutos por categoria (buscar filho, médico, ...)
+  minutosDescontados: number; // soma dos ajustes descontados
+  minutosAbonados: number; // soma dos ajustes abonados
+  creditoPermanencia: number; // tempo além dos horários previstos
+  ausencia: PontoAbsence | null; // ausência justificada que cobre o dia
+  minutosAusencia: number; // períodos previstos sem trabalho cobertos pela ausência
+  tempoConsiderado: number; // tempoRegistrado - minutosDescontados + minutosAbonados
+  saldoMinutos: number; // creditoPermanencia + minutosAbonados - atrasos - minutosDescontados (- minutosAusencia, se a ausência desconta do banco)
+  toleranciaMinutos: number; // variações desconsideradas pela tolerância (atrasos e créditos)
+  toleranciaExcedida: boolean; // variações do dia passaram do limite diário e foram todas computadas
+  minutosNoturnos: number; // minutos trabalhados entre 22h e 5h (relógio)
+  horasNoturnasReduzidas: number; // os mesmos minutos contados na hora noturna de 52m30s
+  adicionalNoturno: number; // R$ do adicional noturno do dia
+  descontoDia: number; // valor em R$ de desconto
+  explicacao: string;
+}
+
+type Span = [number, number];
+
+const spanLength = (spans: Span[]) => spans.reduce((acc, [from, to]) => acc + (to - from), 0);
+
+// Ordena e junta trechos sobrepostos (intervalos digitados por cima uns dos outros não contam em dobro)
+const mergeSpans = (spans: Span[]): Span[] =>
+  [...spans].sort((a, b) => a[0] - b[0]).reduce<Span[]>((acc, [from, to]) => {
+    const last = acc[acc.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else acc.push([from, to]);
+    return acc;
+  }, []);
+
+// Partes de `spans` que não estão em `remove` (ambos já juntados e ordenados)
+const subtractSpans = (spans: Span[], remove: Span[]): Span[] =>
+  spans.flatMap(([from, to]) => {
+    const parts: Span[] = [];
+    let cursor = from;
+    remove.forEach(([rFrom, rTo]) => {
+      if (rTo <= cursor || rFrom >= to) return;
+      if (rFrom > cursor) parts.push([cursor, rFrom]);
+      cursor = Math.max(cursor, rTo);
+    });
+    if (cursor < to) parts.push([cursor, to]);
+    return parts;
+  });
+
+const overlaps = ([from, to]: Span, spans: Span[]) => spans.some(([sFrom, sTo]) => from < sTo && to > sFrom);
+
+// Pares entrada/saída completos, com os horários desdobrados após a meia-noite
+const toSpans = (times: string[]): Span[] => {
+  const unfolded = unfoldTimes(times);
+  const spans: Span[] = [];
+  for (let i = 0; i + 1 < unfolded.length; i += 2) {
+    const [from, to] = [unfolded[i], unfolded[i + 1]];
+    if (from !== null && to !== null && to > from) spans.push([from, to]);
+  }
+  return spans;
+};
+
+/**
+ * Aplica a tolerância às variações das marcações do dia.
+ * No limite diário (Súmula 366 do TST), se a soma das variações passar do limite nenhuma é desconsiderada.
+ */
+const applyTolerance = (variations: number[], policy: TolerancePolicy) => {
+  const none = { tolerated: variations.map(() => false), ignored: 0, exceeded: false };
+  if (policy.mode === 'none' || policy.perMarkMinutes <= 0) return none;
+  if (policy.mode === 'dailyCap' && variations.reduce((acc, v) => acc + v, 0) > policy.dailyMaxMinutes) {
+    return { ...none, exceeded: true };
+  }
+  const tolerated = variations.map(v => v <= policy.perMarkMinutes);
+  const ignored = variations.reduce((acc, v, i) => acc + (tolerated[i] ? v : 0), 0);
+  return { tolerated, ignored, exceeded: false };
+};
+
+// Trabalho noturno urbano (CLT art. 73): das 22h às 5h, com hora de 52min30s
+const NIGHT_START = 22 * 60;
+const NIGHT_LENGTH = 7 * 60;
+const REDUCED_NIGHT_HOUR = 52.5;
+
+// Minutos de um trecho (já desdobrado após a meia-noite) que caem entre 22h e 5h
+const nightMinutes = ([start, end]: Span): number => {
+  let total = 0;
+  for (let dayStart = -2 * DAY_MINUTES; dayStart <= end; dayStart += DAY_MINUTES) {
+    const from = Math.max(start, dayStart + NIGHT_START);
+    const to = Math.min(end, dayStart + NIGHT_START + NIGHT_LENGTH);
+    if (to > from) total += to - from;
+  }
+  return total;
+};
+
+/**
+ * Calcula o dia de ponto contra a jornada vigente naquela data (target), com qualquer número de intervalos.
+ * Atraso é o tempo previsto que ficou sem trabalho (entrada tardia, saída antecipada, pausa dentro do horário);
+ * crédito é o tempo trabalhado fora do previsto. Períodos previstos sem nenhum trabalho não contam (meio período).
+ * Em dia ou período sem expediente previsto todo o tempo trabalhado vira crédito.
+ */
+export const calculateDayDetails = (
+  intervals: PontoInterval[],
+  adjustments: PontoAdjustment[],
+  target: ScheduleInEffect,
+  categories?: PontoCategory[],
+  absence?: PontoAbsence
+): DayCalculationDetails => {
+  const day = target.day;
+  const scheduled = day ? toSpans([day.morningStart, day.morningEnd, day.afternoonStart, day.afternoonEnd]) : [];
+
+  // Intervalos incompletos (só entrada) ainda não contam
+  let worked = mergeSpans(toSpans(intervals.flatMap(i => [i.start, i.end])));
+  // Turno que começa logo após a meia-noite contra uma jornada prevista antes dela (ou o contrário)
+  if (worked.length > 0 && scheduled.length > 0) {
+    const shift = Math.round((scheduled[0][0] - worked[0][0]) / DAY_MINUTES) * DAY_MINUTES;
+    if (shift !== 0) worked = worked.map(([from, to]) => [from + shift, to + shift] as Span);
+  }
+
+  const tempoRegistrado = spanLength(worked);
+  const pausas = worked.slice(1).reduce((acc, [from], i) => acc + (from - worked[i][1]), 0);
+
+  const expected = scheduled.filter(span => overlaps(span, worked));
+  const jornadaPrevista = spanLength(expected);
+  const fracaoDia = scheduled.length > 0
+    ? Math.min(1, expected.length * 0.5)
+    : Math.min(1, worked.length * 0.5);
+
+  // Desvios: previsto sem trabalho (atraso) e trabalho fora do previsto (crédito).
+  // Intervalos inteiros fora da jornada não são variação de marcação e não entram na tolerância.
+  const toDeviation = (tipo: PontoDeviation['tipo']) => ([inicio, fim]: Span) =>
+    ({ tipo, inicio, fim, minutos: fim - inicio, tolerado: false });
+  const desvios = [
+    ...subtractSpans(expected, worked).map(toDeviation('atraso')),
+    ...subtractSpans(worked, scheduled).map(toDeviation('credito'))
+  ].sort((a, b) => a.inicio - b.inicio);
+  const variacoes = desvios.filter(d => d.tipo === 'atraso' || overlaps(worked.find(w => d.inicio >= w[0] && d.fim <= w[1])!, scheduled));
+  const tolerance = applyTolerance(variacoes.map(d => d.minutos), getTolerance(target.schedule));
+  variacoes.forEach((d, i) => { d.tolerado = tolerance.tolerated[i]; });
+
+  const counted = desvios.filter(d => !d.tolerado);
+  const atrasos = counted.filter(d => d.tipo === 'atraso').reduce((acc, d) => acc + d.minutos, 0);
+
+  // Ajustes por categoria: abonados contam como tempo trabalhado, os demais são descontados
+  const ajustes: AdjustmentDetail[] = adjustments
+    .filter(a => a.minutes > 0)
+    .map(a => {
+      const category = getPontoCategory(a.categoryId, categories);
+      return { categoryId: a.categoryId, nome: category.name, abonado: category.paid, minutos: a.minutes };
+    });
+  const minutosDescontados = ajustes.filter(a => !a.abonado).reduce((acc, a) => acc + a.minutos, 0);
+  const minutosAbonados = ajustes.filter(a => a.abonado).reduce((acc, a) => acc + a.minutos, 0);
+
+  // Crédito de permanência (tempo extra trabalhado além dos horários previstos da jornada)
+  const creditoPermanencia = counted.filter(d => d.tipo === 'credito').reduce((acc, d) => acc + d.minutos, 0);
+
+  // Tempo considerado para pagamento = Tempo registrado - Descontados + Abonados (atrasos já não estão no tempo registrado)
+  const tempoConsiderado = Math.max(0, tempoRegistrado - minutosDescontados + minutosAbonados);
+
+  // Ausência justificada: os períodos previstos em que não houve trabalho. Só saem do saldo se o tipo de ausência descontar do banco.
+  const minutosAusencia = absence ? spanLength(scheduled.filter(span => !overlaps(span, worked))) : 0;
+  const ausenciaDescontada = absence?.countsAgainstBalance ? minutosAusencia : 0;
+
+  // Saldo do banco de horas no dia = Créditos + Abonados - Atrasos - Descontados (- ausência que desconta do banco)
+  const saldoMinutos = creditoPermanencia + minutosAbonados - atrasos - minutosDescontados - ausenciaDescontada;
+
+  // Desconto financeiro do dia = Calculado com base no saldo devedor do banco de horas
+  const descontoDia = saldoMinutos < 0 ? roundCurrency(Math.abs(saldoMinutos) * target.minuteRate) : 0;
+
+  // Adicional noturno: minutos entre 22h e 5h convertidos para hora reduzida, pagos com o percentual da jornada
+  const minutosNoturnos = worked.reduce((acc, span) => acc + nightMinutes(span), 0);
+  const horasNoturnasReduzidas = Math.round(minutosNoturnos * 60 / REDUCED_NIGHT_HOUR);
+  const percentualNoturno = target.schedule.nightShiftPercent || 0;
+  const adicionalNoturno = roundCurrency(horasNoturnasReduzidas * target.minuteRate * percentualNoturno / 100);
+
+  // Texto explicativo
+  let explicacao = '';
+  if (worked.length > 2) {
+    explicacao += `${worked.length} intervalos trabalhados, com ${pausas}m de pausas entre eles. `;
+  }
+  if (tolerance.ignored > 0) {
+    explicacao += `Tolerância (CLT art. 58 §1): ${tolerance.ignored}m de variações desconsideradas. `;
+  } else if (tolerance.exceeded) {
+    explicacao += `Variações do dia acima do limite de ${getTolerance(target.schedule).dailyMaxMinutes}m: todas computadas, sem tolerância (CLT art. 58 §1). `;
+  }
+  const listAjustes = (abonado: boolean) =>
+    ajustes.filter(a => a.abonado === abonado).map(a => ` ${abonado ? '+' : '-'} ${a.minutos}m (${a.nome.toLowerCase()})`).join('');
+  if (absence && minutosAusencia > 0) {
+    explicacao += `Ausência justificada (${absence.name}): ${minutosAusencia}m previstos ${absence.countsAgainstBalance ? 'descontados do banco de horas' : 'abonados, sem desconto'}. `;
+  }
+  const listAusencia = ausenciaDescontada > 0 ? ` - ${ausenciaDescontada}m (${absence!.name.toLowerCase()})` : '';
+  explicacao += `Saldo do Banco: +${creditoPermanencia}m (crédito permanência)${listAjustes(true)} - ${atrasos}m (atrasos)${listAjustes(false)}${listAusencia} = ${saldoMinutos < 0 ? `-${Math.abs(saldoMinutos)} min` : `+${saldoMinutos} min`}. `;
+  if (saldoMinutos < 0) {
+    explicacao += `Saldo devedor de ${Math.abs(saldoMinutos)}m, gerando desconto diário de R$ ${descontoDia.toFixed(2).replace('.', ',')}.`;
+  } else {
+    explicacao += `Saldo em dia ou positivo. Sem descontos financeiros no salário.`;
+  }
+  if (minutosNoturnos > 0) {
+    explicacao += ` Trabalho noturno: ${minutosNoturnos}m entre 22h e 5h = ${horasNoturnasReduzidas}m em hora reduzida (52m30s)`;
+    explicacao += percentualNoturno > 0
+      ? `, adicional de ${percentualNoturno}% = R$ ${adicionalNoturno.toFixed(2).replace('.', ',')}.`
+      : ', sem adicional noturno configurado.';
+  }
+
+  return {
+    jornadaPrevista,
+    tempoRegistrado,
+    pausas,
+    fracaoDia,
+    desvios,
+    atrasos,
+    ajustes,
+    minutosDescontados,
+    minutosAbonados,
+    creditoPermanencia,
+    ausencia: absence ?? null,
+    minutosAusencia,
+    tempoConsiderado,
+    saldoMinutos,
+    toleranciaMinutos: tolerance.ignored,
+    toleranciaExcedida: tolerance.exceeded,
+    minutosNoturnos,
+    horasNoturnasReduzidas,
+    adicionalNoturno,
+    descontoDia,
+    explicacao
+  };
+};
+
+export const calculateEntryDetails = (entry: PontoEntry, schedules?: WorkSchedule[], categories?: PontoCategory[]): DayCalculationDetails =>
+  calculateDayDetails(entry.intervals || [], entry.adjustments || [], getScheduleForDate(entry.date, schedules, !!entry.holiday), categories, entry.absence);
+
+// Registro do dia com os desvios calculados pela jornada vigente na data
+export const buildPontoEntry = (
+  date: string,
+  intervals: PontoInterval[],
+  adjustments: PontoAdjustment[],
+  schedules?: WorkSchedule[],
+  categories?: PontoCategory[],
+  absence?: PontoAbsence,
+  holiday?: string
+): PontoEntry => {
+  const details = calculateDayDetails(intervals, adjustments, getScheduleForDate(date, schedules, !!holiday), categories, absence);
+  const entry: PontoEntry = {
+    id: date,
+    date,
+    intervals,
+    adjustments,
+    totalDelay: -details.saldoMinutos,
+    valueEquivalent: details.descontoDia
+  };
+  if (absence) entry.absence = absence;
+  if (holiday) entry.holiday = holiday;
+  return entry;
+};
+
+export interface PontoSummary {
+  diasTrabalhados: number; // soma de fracaoDia
+  jornadaPrevista: number;
+  tempoRegistrado: number;
+  atrasos: number;
+  minutosDescontados: number;
+  minutosAbonados: number;
+  porCategoria: AdjustmentDetail[]; // subtotal de minutos de cada categoria usada no período
+  creditoPermanencia: number;
+  minutosAusencia: number; // tempo previsto coberto por ausências justificadas
+  tempoConsiderado: number;
+  saldoMinutos: number;
+  toleranciaMinutos: number; // variações desconsideradas pela tolerância no período
+  minutosNoturnos: number;
+  horasNoturnasReduzidas: number;
+  adicionalNoturno: number; // R$ do adicional noturno do período
+  minutosDevidos: number; // saldo negativo do período, em minutos
+  desconto: number; // R$ descontado do período
+  valorDias: number; // dias trabalhados × diária da jornada de cada dia
+}
+
+/**
+ * Totais de ponto de um conjunto de dias.
+ * Créditos de um dia compensam atrasos de outro: o desconto sai do saldo do período, não da soma dos dias.
+ */
+export const summarizePonto = (entries: PontoEntry[], schedules?: WorkSchedule[], categories?: PontoCategory[]): PontoSummary => {
+  let descontoBruto = 0;
+  const summary = entries.reduce<PontoSummary>((acc, entry) => {
+    const target = getScheduleForDate(entry.date, schedules, !!entry.holiday);
+    const d = calculateEntryDetails(entry, schedules, categories);
+    acc.diasTrabalhados += d.fracaoDia;
+    acc.valorDias += d.fracaoDia * target.schedule.dailyRate;
+    descontoBruto -= d.saldoMinutos * target.minuteRate;
+    acc.jornadaPrevista += d.jornadaPrevista;
+    acc.tempoRegistrado += d.tempoRegistrado;
+    acc.atrasos += d.atrasos;
+    acc.minutosDescontados += d.minutosDescontados;
+    acc.minutosAbonados += d.minutosAbonados;
+    d.ajustes.forEach(a => {
+      const subtotal = acc.porCategoria.find(c => c.categoryId === a.categoryId);
+      if (subtotal) subtotal.minutos += a.minutos;
+      else acc.porCategoria.push({ ...a });
+    });
+    acc.creditoPermanencia += d.creditoPermanencia;
+    acc.minutosAusencia += d.minutosAusencia;
+    acc.tempoConsiderado += d.tempoConsiderado;
+    acc.saldoMinutos += d.saldoMinutos;
+    acc.toleranciaMinutos += d.toleranciaMinutos;
+    acc.minutosNoturnos += d.minutosNoturnos;
+    acc.horasNoturnasReduzidas += d.horasNoturnasReduzidas;
+    acc.adicionalNoturno += d.adicionalNoturno;
+    return acc;
+  }, {
+    diasTrabalhados: 0, jornadaPrevista: 0, tempoRegistrado: 0, atrasos: 0, minutosDescontados: 0, minutosAbonados: 0, porCategoria: [],
+    creditoPermanencia: 0, minutosAusencia: 0, tempoConsiderado: 0, saldoMinutos: 0, toleranciaMinutos: 0,
+    minutosNoturnos: 0, horasNoturnasReduzidas: 0, adicionalNoturno: 0, minutosDevidos: 0, desconto: 0, valorDias: 0
+  });
+  summary.minutosDevidos = summary.saldoMinutos < 0 ? Math.abs(summary.saldoMinutos) : 0;
+  // Cada minuto vale o preço da jornada do seu dia; o saldo negativo do período vira desconto
+  summary.desconto = summary.minutosDevidos > 0 ? roundCurrency(Math.max(0, descontoBruto)) : 0;
+  summary.valorDias = roundCurrency(summary.valorDias);
+  summary.adicionalNoturno = roundCurrency(summary.adicionalNoturno);
+  return summary;
+};
+
+export interface StatsInput {
+  entries: WorkEntry[];
+  advances: AdvanceEntry[];
+  tools: ToolEntry[];
+  ponto: PontoEntry[];
+  schedules?: WorkSchedule[]; // versões da jornada do ponto (settings.workSchedules)
+  categories?: PontoCategory[]; // categorias de ajuste do ponto (settings.pontoCategories)
+}
+
+// Totais de registros já filtrados para o período desejado
+export const computeStats = ({ entries, advances, tools, ponto, schedules, categories }: StatsInput): MonthlyStats => {
+  const s: MonthlyStats = {
+    daysWorked: 0, daysMissed: 0, daysJustified: 0, grossTotal: 0, totalAdvances: 0, totalFromTools: 0, finalTotal: 0,
+    totalFromDays: 0, totalFromOvertime: 0, totalFromExtraServices: 0,
+    pontoMinutesOwed: 0,
+    pontoDiscountValue: 0,
+    pontoNightMinutes: 0,
+    pontoNightShiftValue: 0
+  };
+
+  entries.forEach(e => {
+    // Valor do dia vem da regra de pagamento gravada no registro
+    const value = getEntryValue(e);
+    if (e.status === WorkStatus.WORKED) { s.daysWorked += 1; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.HALF_DAY) { s.daysWorked += 0.5; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.SATURDAY_FULL) { s.daysWorked += 1; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.SUNDAY) { s.daysWorked += 1; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.MISSED && e.absenceId) { s.daysJustified! += 1; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.MISSED) { s.daysMissed += 1; s.totalFromDays += value; }
+    else if (e.status === WorkStatus.DAY_OFF || e.status === WorkStatus.HOLIDAY) s.totalFromDays += value;
+    else if (e.status === WorkStatus.EXTRA_SERVICE) s.totalFromExtraServices += value;
+    if (e.overtimeValue) s.totalFromOvertime += e.overtimeValue;
+  });
+
+  const pontoSummary = summarizePonto(ponto, schedules, categories);
+  s.pontoMinutesOwed = pontoSummary.minutosDevidos;
+  s.pontoDiscountValue = pontoSummary.desconto;
+  s.pontoNightMinutes = pontoSummary.horasNoturnasReduzidas;
+  s.pontoNightShiftValue = pontoSummary.adicionalNoturno;
+
+  s.grossTotal = roundCurrency(s.totalFromDays + s.totalFromOvertime + s.totalFromExtraServices);
+  s.totalAdvances = roundCurrency(advances.reduce((acc, curr) => acc + curr.amount, 0));
+  s.totalFromTools = roundCurrency(tools.reduce((acc, curr) => acc + curr.amount, 0));
+  s.finalTotal = roundCurrency((s.grossTotal + s.totalFromTools + s.pontoNightShiftValue) - s.totalAdvances - s.pontoDiscountValue);
+
+  return s;
+};
+
+// Registros cuja data está entre startDate e endDate (AAAA-MM-DD, inclusive)
+export const filterByPeriod = <T extends { date: string }>(list: T[], startDate: string, endDate: string): T[] =>
+  list.filter(item => item.date >= startDate && item.date <= endDate);
+
+export const calculatePeriodStats = (data: StatsInput, startDate: string, endDate: string): MonthlyStats =>
+  computeStats({
+    entries: filterByPeriod(data.entries, startDate, endDate),
+    advances: filterByPeriod(data.advances, startDate, endDate),
+    tools: filterByPeriod(data.tools, startDate, endDate),
+    ponto: filterByPeriod(data.ponto, startDate, endDate),
+    schedules: data.schedules,
+    categories: data.categories
+  });
@@ -0,0 +1,64 @@
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, startOfMonth, startOfWeek } from 'date-fns';
+import { AdvanceEntry, PontoEntry, ToolEntry, UserSettings, WorkEntry, WorkStatus } from '../types';
+import { calculateEntryDetails } from './calculations';
+import { getScheduleForDate } from './workSchedule';
+import { getHoliday, Holiday } from './holidays';
+
+// Grade do mês com o resumo de cada dia: registro diário, ponto, vales e ferramentas
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  inMonth: boolean; // dias da semana anterior/seguinte que completam a grade
+  work?: WorkEntry; // registro do dia (serviços extras ficam à parte)
+  extraServices: WorkEntry[];
+  ponto?: PontoEntry;
+  saldoMinutos: number | null; // saldo do banco de horas no dia (null = sem ponto)
+  advances: AdvanceEntry[];
+  tools: ToolEntry[];
+  holiday: Holiday | null;
+  missing: boolean; // dia útil com expediente previsto, já passado, sem registro diário nem ponto (feriados não contam)
+}
+
+export interface CalendarData {
+  workEntries: WorkEntry[];
+  pontoEntries: PontoEntry[];
+  advances: AdvanceEntry[];
+  tools: ToolEntry[];
+}
+
+const groupByDate = <T extends { date: string }>(list: T[]): Map<string, T[]> => {
+  const map = new Map<string, T[]>();
+  list.forEach(item => map.set(item.date, [...(map.get(item.date) || []), item]));
+  return map;
+};
+
+// Semanas completas (domingo a sábado) que cobrem o mês
+export const buildMonthCalendar = (month: Date, data: CalendarData, settings: UserSettings, today: string): CalendarDay[] => {
+  const work = groupByDate(data.workEntries);
+  const ponto = new Map(data.pontoEntries.map(e => [e.date, e]));
+  const advances = groupByDate(data.advances);
+  const tools = groupByDate(data.tools);
+
+  return eachDayOfInterval({ start: startOfWeek(startOfMonth(month)), end: endOfWeek(endOfMonth(month)) }).map(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    const dayWork = work.get(date) || [];
+    const record = dayWork.find(e => e.status !== WorkStatus.EXTRA_SERVICE);
+    const pontoEntry = ponto.get(date);
+    const weekday = day.getDay();
+    const holiday = getHoliday(date, settings);
+    const expected = weekday >= 1 && weekday <= 5 && getScheduleForDate(date, settings.workSchedules).day !== null && !holiday;
+
+    return {
+      date,
+      inMonth: isSameMonth(day, month),
+      work: record,
+      extraServices: dayWork.filter(e => e.status === WorkStatus.EXTRA_SERVICE),
+      ponto: pontoEntry,
+      saldoMinutos: pontoEntry ? calculateEntryDetails(pontoEntry, settings.workSchedules, settings.pontoCategories).saldoMinutos : null,
+      advances: advances.get(date) || [],
+      tools: tools.get(date) || [],
+      holiday,
+      missing: expected && date < today && !record && !pontoEntry
+    };
+  });
+};
@@ -0,0 +1,68 @@
+import { EmployerProfile, UserSettings } from '../types';
+import { StatsInput } from './calculations';
+
+// Vários empregadores/contratos: o principal fica nos campos do próprio UserSettings e os demais em settings.employers.
+// Registros sem employerId são do principal, então os dados de antes continuam com ele.
+
+export const MAIN_EMPLOYER_ID = 'principal';
+
+// Filtro dos relatórios que junta todos os empregadores
+export const ALL_EMPLOYERS = 'todos';
+
+// Perfil do empregador principal montado a partir das configurações
+const mainEmployer = (settings: UserSettings): EmployerProfile => ({
+  id: MAIN_EMPLOYER_ID,
+  name: settings.employerName || 'Empregador principal',
+  document: settings.employerDocument,
+  dailyRate: settings.dailyRate,
+  payRules: settings.payRules,
+  workSchedules: settings.workSchedules,
+  billingCycleStartDate: settings.billingCycleStartDate
+});
+
+export const getEmployers = (settings: UserSettings): EmployerProfile[] => [mainEmployer(settings), ...(settings.employers || [])];
+
+export const hasMultipleEmployers = (settings: UserSettings): boolean => (settings.employers || []).length > 0;
+
+export const getEmployerId = (record: { employerId?: string }): string => record.employerId || MAIN_EMPLOYER_ID;
+
+export const belongsToEmployer = (record: { employerId?: string }, employerId: string): boolean =>
+  employerId === ALL_EMPLOYERS || getEmployerId(record) === employerId;
+
+// employerId a gravar no registro: o principal fica sem o campo
+export const toEmployerField = (employerId: string): string | undefined =>
+  employerId === MAIN_EMPLOYER_ID ? undefined : employerId;
+
+// id do registro diário do dia: um por dia e empregador. O do principal continua sendo a própria data.
+export const getWorkEntryId = (date: string, employerId: string = MAIN_EMPLOYER_ID): string =>
+  employerId === MAIN_EMPLOYER_ID ? date : `${date}_${employerId}`;
+
+export const getEmployerName = (employerId: string, settings: UserSettings): string =>
+  getEmployers(settings).find(e => e.id === employerId)?.name ?? mainEmployer(settings).name;
+
+// Registros do empregador (ALL_EMPLOYERS = todos). O Controle de Ponto é do empregador principal.
+export const selectEmployerData = (data: StatsInput, employerId: string): StatsInput =>
+  employerId === ALL_EMPLOYERS ? data : {
+    ...data,
+    entries: data.entries.filter(e => belongsToEmployer(e, employerId)),
+    advances: data.advances.filter(a => belongsToEmployer(a, employerId)),
+    tools: data.tools.filter(t => belongsToEmployer(t, employerId)),
+    ponto: employerId === MAIN_EMPLOYER_ID ? data.ponto : []
+  };
+
+// Configurações vistas pelo empregador: diária, regras, jornada, ciclo e reajustes dele.
+// Empregador excluído cai no principal.
+export const getEmployerSettings = (settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): UserSettings => {
+  const profile = (settings.employers || []).find(e => e.id === employerId);
+  if (!profile) return settings;
+  return {
+    ...settings,
+    employerName: profile.name,
+    employerDocument: profile.document,
+    dailyRate: profile.dailyRate,
+    payRules: profile.payRules,
+    workSchedules: profile.workSchedules ?? settings.workSchedules,
+    billingCycleStartDate: profile.billingCycleStartDate ?? settings.billingCycleStartDate,
+    rateHistory: (settings.rateHistory || []).filter(v => v.employerId === profile.id)
+  };
+};
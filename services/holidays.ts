@@ -0,0 +1,98 @@
+import { addDays, format } from 'date-fns';
+import { CustomHoliday, UserSettings } from '../types';
+
+// Feriados calculados no aparelho, sem consulta externa: nacionais de data fixa, os móveis derivados da Páscoa
+// e os estaduais/municipais cadastrados pelo usuário
+
+// 'nacional': Lei 662/49 e seguintes; 'facultativo': ponto facultativo (Carnaval, Corpus Christi); 'local': cadastrado pelo usuário
+export type HolidayKind = 'nacional' | 'facultativo' | 'local';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  kind: HolidayKind;
+}
+
+const FIXED_HOLIDAYS: [string, string][] = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'], // Lei 14.759/2023
+  ['12-25', 'Natal']
+];
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano)
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// Feriado do usuário no ano: os recorrentes repetem o dia e o mês todo ano
+const customHolidayOn = (holiday: CustomHoliday, year: number): string | null => {
+  if (holiday.recurring) return `${year}-${holiday.date.slice(5)}`;
+  return holiday.date.startsWith(`${year}-`) ? holiday.date : null;
+};
+
+const cache = new Map<string, Holiday[]>();
+
+// Feriados do ano em ordem de data. optionalHolidays = false deixa de fora os pontos facultativos.
+export const getHolidays = (year: number, settings: Pick<UserSettings, 'customHolidays' | 'optionalHolidays'>): Holiday[] => {
+  const key = `${year}|${settings.optionalHolidays !== false}|${JSON.stringify(settings.customHolidays || [])}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const easter = getEasterSunday(year);
+  const fromEaster = (days: number) => format(addDays(easter, days), 'yyyy-MM-dd');
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name, kind: 'nacional' as HolidayKind })),
+    { date: fromEaster(-2), name: 'Sexta-feira Santa', kind: 'nacional' }
+  ];
+  if (settings.optionalHolidays !== false) {
+    holidays.push(
+      { date: fromEaster(-48), name: 'Carnaval (segunda-feira)', kind: 'facultativo' },
+      { date: fromEaster(-47), name: 'Carnaval', kind: 'facultativo' },
+      { date: fromEaster(60), name: 'Corpus Christi', kind: 'facultativo' }
+    );
+  }
+  (settings.customHolidays || []).forEach(custom => {
+    const date = customHolidayOn(custom, year);
+    if (date) holidays.push({ date, name: custom.name, kind: 'local' });
+  });
+
+  const sorted = holidays.sort((a, b) => a.date.localeCompare(b.date));
+  cache.set(key, sorted);
+  return sorted;
+};
+
+// Feriado na data (o primeiro, se dois caírem no mesmo dia)
+export const getHoliday = (date: string, settings: Pick<UserSettings, 'customHolidays' | 'optionalHolidays'>): Holiday | null =>
+  getHolidays(Number(date.slice(0, 4)), settings).find(h => h.date === date) ?? null;
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+  nacional: 'Nacional',
+  facultativo: 'Ponto facultativo',
+  local: 'Estadual/municipal'
+};
+
+// Adicional por trabalho em feriado (Lei 605/49 art. 9: pagamento em dobro, sem folga compensatória)
+export const DEFAULT_HOLIDAY_PREMIUM_PERCENT = 100;
+
+export const getHolidayPremiumPercent = (settings: UserSettings): number =>
+  settings.holidayPremiumPercent ?? DEFAULT_HOLIDAY_PREMIUM_PERCENT;
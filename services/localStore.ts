@@ -0,0 +1,162 @@
+import { StorageAdapter, StoredRecord, createIndexedDbAdapter, createLocalStorageAdapter, readLegacyLocalStorage } from './storageAdapter';
+
+// Cache em memória carregado uma vez na abertura do app.
+// Leituras são síncronas; gravações vão para o adaptador em segundo plano, em ordem.
+// Categorias com janela de datas ficam em memória só a partir de uma data; o período anterior é lido sob demanda.
+
+const MIGRATION_FLAG = 'mrt_migrated_from_localstorage';
+
+const lists = new Map<string, StoredRecord[]>();
+const values = new Map<string, any>();
+// Categorias carregadas em parte: data a partir da qual os registros estão em memória
+const loadedFrom = new Map<string, string>();
+let adapter: StorageAdapter | null = null;
+let writes: Promise<void> = Promise.resolve();
+
+const inMemoryWindow = (key: string, record: StoredRecord) => {
+  const from = loadedFrom.get(key);
+  return !from || !record.date || record.date >= from;
+};
+
+const persist = (write: (target: StorageAdapter) => Promise<void>) => {
+  const target = adapter;
+  if (!target) return;
+  writes = writes
+    .then(() => write(target))
+    .catch(err => console.error('Erro ao gravar dados locais:', err));
+};
+
+const openDefaultAdapter = async (): Promise<StorageAdapter> => {
+  try {
+    return await createIndexedDbAdapter();
+  } catch (err) {
+    console.error('IndexedDB indisponível, usando localStorage:', err);
+    return createLocalStorageAdapter();
+  }
+};
+
+/**
+ * Copia as chaves `mrt_*` do localStorage para o adaptador uma única vez.
+ * A chave antiga só é apagada depois de confirmado que todos os seus registros foram gravados.
+ */
+const migrateFromLocalStorage = async (target: StorageAdapter) => {
+  const current = await target.loadAll();
+  if (current.values[MIGRATION_FLAG]) return;
+
+  const legacy = readLegacyLocalStorage();
+  for (const [category, records] of Object.entries(legacy.lists)) {
+    const existing = new Set((current.lists[category] || []).map(r => r.id));
+    for (const record of records) {
+      if (record && record.id && !existing.has(record.id)) await target.putRecord(category, record);
+    }
+  }
+  for (const [key, value] of Object.entries(legacy.values)) {
+    if (!(key in current.values)) await target.setValue(key, value);
+  }
+
+  const migrated = await target.loadAll();
+  Object.entries(legacy.lists).forEach(([category, records]) => {
+    const saved = new Set((migrated.lists[category] || []).map(r => r.id));
+    if (records.every(r => r && r.id && saved.has(r.id))) localStorage.removeItem(category);
+  });
+  Object.keys(legacy.values).forEach(key => {
+    if (key in migrated.values) localStorage.removeItem(key);
+  });
+  await target.setValue(MIGRATION_FLAG, new Date().toISOString());
+};
+
+// since: categorias com janela e a data a partir da qual entram na memória
+export const initLocalStore = async (storage?: StorageAdapter, since: Record<string, string> = {}) => {
+  adapter = storage ?? await openDefaultAdapter();
+  if (adapter.name === 'indexeddb') await migrateFromLocalStorage(adapter);
+
+  const windows = Object.fromEntries(Object.entries(since).filter(([, date]) => date));
+  const data = await adapter.loadAll(windows);
+  lists.clear();
+  values.clear();
+  loadedFrom.clear();
+  Object.entries(data.lists).forEach(([key, records]) => lists.set(key, records));
+  Object.entries(data.values).forEach(([key, value]) => values.set(key, value));
+  Object.entries(windows).forEach(([key, date]) => loadedFrom.set(key, date));
+};
+
+// Registros da categoria anteriores ao que está em memória, lidos pelo índice de datas (a partir de startDate; vazio = todos)
+const readOlder = async (key: string, startDate: string): Promise<StoredRecord[]> => {
+  const from = loadedFrom.get(key);
+  if (!adapter || from === undefined || startDate >= from) return [];
+  await writes;
+  const known = new Set((lists.get(key) || []).map(r => r.id));
+  // Os da própria data de corte e os sem data já estão em memória, talvez com alterações mais novas
+  return (await adapter.getByDateRange(key, startDate, from)).filter(r => r.date && r.date < from && !known.has(r.id));
+};
+
+/**
+ * Traz para a memória os registros da categoria a partir da data (vazio = todos).
+ * Resolve com true se algum registro novo entrou, para a tela refazer o que calculou.
+ */
+export const ensureLoadedFrom = async (key: string, startDate: string): Promise<boolean> => {
+  const older = await readOlder(key, startDate);
+  const from = loadedFrom.get(key);
+  if (from === undefined || startDate >= from) return false;
+  const known = new Set((lists.get(key) || []).map(r => r.id));
+  const added = older.filter(r => !known.has(r.id));
+  lists.set(key, [...(lists.get(key) || []), ...added]);
+  if (startDate) loadedFrom.set(key, startDate);
+  else loadedFrom.delete(key);
+  return added.length > 0;
+};
+
+// Lista completa da categoria, inclusive o que está fora da memória (sincronização, backup, migrações)
+export const loadFullList = async <T>(key: string): Promise<T[]> => {
+  const older = await readOlder(key, '');
+  return [...(lists.get(key) || []), ...older] as T[];
+};
+
+// Resolve quando todas as gravações pendentes terminarem (ex: antes de recarregar a página)
+export const whenPersisted = (): Promise<void> => writes;
+
+// Registros em memória: nas categorias com janela, só a partir da data carregada
+export const getList = <T>(key: string): T[] => [...(lists.get(key) || [])] as T[];
+
+// Substitui a categoria inteira: records deve ser a lista completa (loadFullList), não só a que está em memória
+export const setList = (key: string, records: StoredRecord[]) => {
+  const copy = [...records];
+  lists.set(key, copy.filter(r => inMemoryWindow(key, r)));
+  persist(target => target.replaceList(key, copy));
+};
+
+export const putItem = (key: string, record: StoredRecord) => {
+  const list = [...(lists.get(key) || [])];
+  const index = list.findIndex(r => r.id === record.id);
+  if (index >= 0) list[index] = record; else list.push(record);
+  lists.set(key, list);
+  persist(target => target.putRecord(key, record));
+};
+
+export const deleteItem = (key: string, id: string) => {
+  lists.set(key, (lists.get(key) || []).filter(r => r.id !== id));
+  persist(target => target.deleteRecord(key, id));
+};
+
+export const getValue = <T>(key: string): T | undefined => values.get(key);
+
+export const setValue = (key: string, value: any) => {
+  values.set(key, value);
+  persist(target => target.setValue(key, value));
+};
+
+export const removeKey = (key: string) => {
+  lists.delete(key);
+  values.delete(key);
+  loadedFrom.delete(key);
+  persist(target => target.removeKey(key));
+};
+
+export const clearLocalStore = (): Promise<void> => {
+  lists.clear();
+  values.clear();
+  loadedFrom.clear();
+  persist(target => target.clear());
+  return writes;
+};
+
@@ -0,0 +1,103 @@
+import { Tombstone } from '../types';
+import { PendingMutation } from './syncService';
+
+type SyncRecord = { id: string; updatedAt?: string; [field: string]: any };
+
+export interface SyncConflict {
+  id: string; // `${category}:${recordId}`
+  category: string;
+  recordId: string;
+  date?: string;
+  local: SyncRecord | null; // null = apagado neste aparelho
+  remote: SyncRecord | null; // null = apagado em outro aparelho
+}
+
+export interface CategoryMerge {
+  category: string;
+  merged: SyncRecord[];
+  // Registros que só existem aqui e não estão na fila (ex: criados antes da sincronização por registro)
+  unsynced: SyncRecord[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+const isNewer = (a?: string, b?: string): boolean => (a || '') > (b || '');
+
+const sameContent = (a: SyncRecord | null, b: SyncRecord | null): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Une as marcas de exclusão dos dois lados, ficando com a exclusão mais recente de cada registro
+export const mergeTombstones = (local: Tombstone[], remote: Tombstone[]): Tombstone[] => {
+  const byId = new Map<string, Tombstone>();
+  [...local, ...remote].forEach(t => {
+    const current = byId.get(t.id);
+    if (!current || isNewer(t.deletedAt, current.deletedAt)) byId.set(t.id, t);
+  });
+  return Array.from(byId.values());
+};
+
+// Um registro está apagado se a exclusão for posterior (ou igual) à sua última alteração
+const isBuried = (record: SyncRecord | undefined, tombstone: Tombstone | undefined): boolean =>
+  !!record && !!tombstone && !isNewer(record.updatedAt, tombstone.deletedAt);
+
+/**
+ * Reconcilia os registros locais e da nuvem de uma categoria pelo id.
+ * Só há conflito quando o registro tem alteração local pendente E a nuvem mudou
+ * desde a versão em que essa alteração se baseou.
+ */
+export const mergeCategory = (
+  category: string,
+  localList: SyncRecord[],
+  remoteList: SyncRecord[],
+  tombstones: Tombstone[],
+  pending: PendingMutation[]
+): { result: CategoryMerge; conflicts: SyncConflict[] } => {
+  const local = new Map(localList.map(r => [r.id, r]));
+  const remote = new Map(remoteList.map(r => [r.id, r]));
+  const graves = new Map(tombstones.filter(t => t.category === category).map(t => [t.recordId, t]));
+  const pendingById = new Map(pending.filter(m => m.category === category && m.operation !== 'replace').map(m => [m.recordId, m]));
+
+  const merged: SyncRecord[] = [];
+  const unsynced: SyncRecord[] = [];
+  const conflicts: SyncConflict[] = [];
+  const ids = Array.from(new Set([...local.keys(), ...remote.keys(), ...pendingById.keys()]));
+
+  ids.forEach(id => {
+    const grave = graves.get(id);
+    const mine = isBuried(local.get(id), grave) && !pendingById.has(id) ? undefined : local.get(id);
+    const theirs = isBuried(remote.get(id), grave) ? undefined : remote.get(id);
+    const mutation = pendingById.get(id);
+
+    if (mutation) {
+      const remoteVersion = theirs?.updatedAt ?? (grave ? grave.deletedAt : undefined);
+      const remoteChanged = remoteVersion !== mutation.baseUpdatedAt && !!(theirs || grave);
+      const localVersion = mutation.operation === 'delete' ? null : (mine ?? null);
+      const remoteValue = theirs ?? null;
+      if (remoteChanged && !sameContent(localVersion, remoteValue)) {
+        conflicts.push({
+          id: `${category}:${id}`,
+          category,
+          recordId: id,
+          date: localVersion?.date ?? remoteValue?.date,
+          local: localVersion,
+          remote: remoteValue
+        });
+        return;
+      }
+      if (localVersion) merged.push(localVersion);
+      return;
+    }
+
+    if (mine && theirs) {
+      merged.push(isNewer(mine.updatedAt, theirs.updatedAt) ? mine : theirs);
+    } else if (theirs) {
+      merged.push(theirs);
+    } else if (mine) {
+      // Só chega aqui se não estiver enterrado: alterado (ou restaurado) depois da exclusão
+      merged.push(mine);
+      unsynced.push(mine);
+    }
+  });
+
+  return { result: { category, merged, unsynced }, conflicts };
+};
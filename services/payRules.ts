@@ -0,0 +1,97 @@
+import { PayRule, RateVersion, UserSettings, WorkEntry, WorkStatus } from '../types';
+import { getHoliday, getHolidayPremiumPercent } from './holidays';
+import { getEmployerId, MAIN_EMPLOYER_ID } from './employers';
+
+// Regras usadas quando o usuário não configurou outra (valores originais do app)
+export const DEFAULT_PAY_RULES: Record<WorkStatus, PayRule> = {
+  [WorkStatus.WORKED]: { type: 'multiplier', value: 1 },
+  [WorkStatus.HALF_DAY]: { type: 'multiplier', value: 0.5 },
+  [WorkStatus.SATURDAY_FULL]: { type: 'fixed', value: 125 },
+  [WorkStatus.SUNDAY]: { type: 'fixed', value: 150 },
+  [WorkStatus.MISSED]: { type: 'fixed', value: 0 },
+  [WorkStatus.DAY_OFF]: { type: 'fixed', value: 0 },
+  [WorkStatus.HOLIDAY]: { type: 'multiplier', value: 1 }, // feriado remunerado (Lei 605/49)
+  [WorkStatus.EXTRA_SERVICE]: { type: 'fixed', value: 0 } // valor digitado a cada serviço
+};
+
+// Status cujo valor vem de regra (serviço extra tem o valor informado no lançamento)
+export const CONFIGURABLE_STATUSES: WorkStatus[] = [
+  WorkStatus.WORKED,
+  WorkStatus.HALF_DAY,
+  WorkStatus.SATURDAY_FULL,
+  WorkStatus.SUNDAY,
+  WorkStatus.DAY_OFF,
+  WorkStatus.HOLIDAY,
+  WorkStatus.MISSED
+];
+
+// Status de dia trabalhado: em feriado recebem o adicional de feriado
+export const WORKING_STATUSES: WorkStatus[] = [
+  WorkStatus.WORKED,
+  WorkStatus.HALF_DAY,
+  WorkStatus.SATURDAY_FULL,
+  WorkStatus.SUNDAY
+];
+
+export const getPayRule = (status: WorkStatus, settings: UserSettings): PayRule =>
+  settings.payRules?.[status] ?? DEFAULT_PAY_RULES[status];
+
+export const applyPayRule = (rule: PayRule, dailyRate: number): number => {
+  if (rule.type === 'fixed') return rule.value;
+  if (rule.type === 'multiplier') return dailyRate * rule.value;
+  return (rule.hours || 0) * rule.value;
+};
+
+// Valor de um dia do status informado, pelas configurações atuais
+export const calculateDayValue = (status: WorkStatus, settings: UserSettings): number =>
+  applyPayRule(getPayRule(status, settings), settings.dailyRate);
+
+const sortRateVersions = (versions: RateVersion[]) =>
+  [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+// Versão da tabela de valores vigente na data para o empregador (null = valem as configurações)
+export const getRateVersion = (date: string, settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): RateVersion | null =>
+  sortRateVersions(settings.rateHistory || [])
+    .filter(v => v.effectiveFrom <= date && getEmployerId(v) === employerId)
+    .pop() ?? null;
+
+// Configurações com a diária e as regras em vigor na data
+export const getSettingsOn = (date: string, settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): UserSettings => {
+  const version = getRateVersion(date, settings, employerId);
+  return version
+    ? { ...settings, dailyRate: version.dailyRate, payRules: { ...settings.payRules, ...version.payRules } }
+    : settings;
+};
+
+export const getDailyRateOn = (date: string, settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): number =>
+  getSettingsOn(date, settings, employerId).dailyRate;
+
+// Grava um reajuste a partir de effectiveFrom, substituindo outro do mesmo empregador que comece no mesmo dia
+export const addRateVersion = (versions: RateVersion[] = [], version: Omit<RateVersion, 'id'>): RateVersion[] =>
+  sortRateVersions([
+    ...versions.filter(v => v.effectiveFrom !== version.effectiveFrom || getEmployerId(v) !== getEmployerId(version)),
+    { ...version, id: `${version.effectiveFrom}-${Date.now()}` }
+  ]);
+
+// Valor do dia na data, pela tabela de valores da época: trabalho em feriado recebe o adicional configurado
+export const calculateDayValueOn = (status: WorkStatus, date: string, settings: UserSettings, employerId: string = MAIN_EMPLOYER_ID): number => {
+  const value = calculateDayValue(status, getSettingsOn(date, settings, employerId));
+  return WORKING_STATUSES.includes(status) && getHoliday(date, settings)
+    ? Math.round(value * (1 + getHolidayPremiumPercent(settings) / 100) * 100) / 100
+    : value;
+};
+
+// Valor do dia de um registro salvo, sem horas extras.
+// Registros antigos sem valueSnapshot seguem a regra de antes: meio período = metade da diária.
+export const getEntryValue = (entry: WorkEntry): number => {
+  if (typeof entry.valueSnapshot === 'number') return entry.valueSnapshot;
+  if (entry.status === WorkStatus.MISSED || entry.status === WorkStatus.DAY_OFF) return 0;
+  if (entry.status === WorkStatus.HALF_DAY) return entry.dailyRateSnapshot / 2;
+  return entry.dailyRateSnapshot;
+};
+
+export const describePayRule = (rule: PayRule): string => {
+  if (rule.type === 'fixed') return `R$ ${rule.value.toFixed(2).replace('.', ',')} fixo`;
+  if (rule.type === 'multiplier') return `${rule.value}× a diária`;
+  return `${rule.hours || 0}h × R$ ${rule.value.toFixed(2).replace('.', ',')}`;
+};
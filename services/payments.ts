@@ -0,0 +1,55 @@
+import { CycleHistory, PaymentEntry, PaymentMethod } from '../types';
+import { roundCurrency } from './calculations';
+import { getEmployerId } from './employers';
+
+// Pagamentos recebidos e saldo em aberto entre ciclos.
+// O que sobra de um ciclo (a receber ou pago a mais) passa como saldo anterior para o ciclo seguinte do mesmo empregador.
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'Pix',
+  dinheiro: 'Dinheiro',
+  transferencia: 'Transferência',
+  cheque: 'Cheque',
+  outro: 'Outro'
+};
+
+export interface CycleBalance {
+  cycle: CycleHistory | null; // null = ciclo atual, ainda aberto
+  startDate: string;
+  endDate?: string;
+  carriedIn: number; // saldo do ciclo anterior: positivo = ainda a receber, negativo = pago a mais
+  total: number; // líquido do ciclo
+  paid: number;
+  balance: number; // carriedIn + total - paid
+  payments: PaymentEntry[];
+}
+
+const sumAmounts = (list: { amount: number }[]) => roundCurrency(list.reduce((acc, item) => acc + item.amount, 0));
+
+// Pagamentos do ciclo atual do empregador. Um pagamento de ciclo excluído do histórico volta para o atual.
+export const getOpenPayments = (payments: PaymentEntry[], cycles: CycleHistory[], employerId: string): PaymentEntry[] =>
+  payments.filter(p => getEmployerId(p) === employerId && !cycles.some(c => c.id === p.cycleId));
+
+// Extrato de um empregador: ciclos encerrados do mais antigo ao mais novo e, por último, o ciclo atual
+export const buildPaymentLedger = (
+  employerId: string,
+  cycles: CycleHistory[],
+  payments: PaymentEntry[],
+  current: { startDate: string; total: number }
+): CycleBalance[] => {
+  let carried = 0;
+  const row = (cycle: CycleHistory | null, startDate: string, endDate: string | undefined, total: number, list: PaymentEntry[]): CycleBalance => {
+    const paid = sumAmounts(list);
+    const balance = roundCurrency(carried + total - paid);
+    const result = { cycle, startDate, endDate, carriedIn: carried, total, paid, balance, payments: [...list].sort((a, b) => a.date.localeCompare(b.date)) };
+    carried = balance;
+    return result;
+  };
+
+  const rows = cycles
+    .filter(c => getEmployerId(c) === employerId)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.endDate.localeCompare(b.endDate))
+    .map(c => row(c, c.startDate, c.endDate, c.stats.finalTotal, payments.filter(p => p.cycleId === c.id)));
+  rows.push(row(null, current.startDate, undefined, current.total, getOpenPayments(payments, cycles, employerId)));
+  return rows;
+};
@@ -0,0 +1,33 @@
+import { PontoAdjustment, PontoCategory } from '../types';
+
+// Categorias iniciais. "Buscar filho" mantém o id usado na migração do antigo campo schoolMinutes.
+export const DEFAULT_PONTO_CATEGORIES: PontoCategory[] = [
+  { id: 'buscar-filho', name: 'Buscar filho', paid: false },
+  { id: 'medico', name: 'Médico', paid: true },
+  { id: 'banco', name: 'Banco', paid: false },
+  { id: 'particular', name: 'Assunto particular', paid: false },
+  { id: 'ausencia-autorizada', name: 'Ausência autorizada', paid: true }
+];
+
+export const getPontoCategories = (categories?: PontoCategory[]): PontoCategory[] =>
+  categories && categories.length > 0 ? categories : DEFAULT_PONTO_CATEGORIES;
+
+// Categoria apagada depois de usada continua descontando, com o id como nome
+export const getPontoCategory = (id: string, categories?: PontoCategory[]): PontoCategory =>
+  getPontoCategories(categories).find(c => c.id === id) ?? { id, name: id, paid: false };
+
+export const createPontoCategory = (categories: PontoCategory[], name: string, paid: boolean): PontoCategory[] => [
+  ...categories,
+  { id: Date.now().toString(), name: name.trim(), paid }
+];
+
+// Ajustes com minutos, somando lançamentos repetidos da mesma categoria
+export const normalizeAdjustments = (adjustments: PontoAdjustment[]): PontoAdjustment[] =>
+  adjustments.reduce<PontoAdjustment[]>((acc, { categoryId, minutes }) => {
+    const value = Math.max(0, Math.round(minutes || 0));
+    if (!categoryId || value === 0) return acc;
+    const existing = acc.find(a => a.categoryId === categoryId);
+    if (existing) existing.minutes += value;
+    else acc.push({ categoryId, minutes: value });
+    return acc;
+  }, []);
@@ -0,0 +1,65 @@
+import { format, parseISO, subDays } from 'date-fns';
+import { PontoEntry, PontoInterval, PontoMark } from '../types';
+
+// Batidas de ponto em tempo real. O horário da batida fica guardado à parte,
+// para que uma correção manual posterior não apague o que o relógio registrou.
+
+export const PONTO_MARKS: { mark: PontoMark; label: string }[] = [
+  { mark: 'start', label: 'Entrada' },
+  { mark: 'end', label: 'Saída' }
+];
+
+// "HH:MM" da batida (horário local do aparelho)
+export const punchTime = (timestamp: string): string => format(parseISO(timestamp), 'HH:mm');
+
+// Intervalo com entrada e ainda sem saída (só o último do dia pode estar aberto)
+export const getOpenInterval = (entry?: PontoEntry): PontoInterval | null => {
+  const last = entry?.intervals[entry.intervals.length - 1];
+  return last && last.start && !last.end ? last : null;
+};
+
+// Próxima batida do dia: fecha o intervalo aberto ou abre um novo
+export const getNextMark = (entry?: PontoEntry): PontoMark => (getOpenInterval(entry) ? 'end' : 'start');
+
+// Registra a batida no intervalo aberto, ou em um novo intervalo (com rótulo opcional)
+export const applyPunch = (intervals: PontoInterval[], timestamp: string, label?: string): PontoInterval[] => {
+  const time = punchTime(timestamp);
+  const last = intervals[intervals.length - 1];
+  if (last && last.start && !last.end) {
+    return [...intervals.slice(0, -1), { ...last, end: time, punches: { ...last.punches, end: timestamp } }];
+  }
+  const interval: PontoInterval = { start: time, end: '', punches: { start: timestamp } };
+  if (label?.trim()) interval.label = label.trim();
+  return [...intervals, interval];
+};
+
+// Marcação batida no relógio e depois alterada à mão
+export const isMarkEdited = (interval: PontoInterval, mark: PontoMark): boolean => {
+  const punch = interval.punches?.[mark];
+  return !!punch && punchTime(punch) !== interval[mark];
+};
+
+export const getEditedMarks = (entry: PontoEntry): { index: number; mark: PontoMark }[] =>
+  entry.intervals.flatMap((interval, index) =>
+    PONTO_MARKS.filter(({ mark }) => isMarkEdited(interval, mark)).map(({ mark }) => ({ index, mark }))
+  );
+
+// "08:00–12:00", com * nas marcações corrigidas e "…" no intervalo ainda aberto
+export const describeInterval = (interval: PontoInterval): string => {
+  const show = (mark: PontoMark) => (interval[mark] || '…') + (isMarkEdited(interval, mark) ? '*' : '');
+  return `${show('start')}–${show('end')}${interval.label ? ` (${interval.label})` : ''}`;
+};
+
+// Turno aberto há menos que isso continua recebendo batidas depois da meia-noite
+const OPEN_SHIFT_HOURS = 16;
+
+// Dia em que a batida entra: o de hoje, ou o de ontem se um turno noturno batido ontem ainda está aberto
+export const getPunchDate = (entries: PontoEntry[], now: Date): string => {
+  const today = format(now, 'yyyy-MM-dd');
+  if (entries.some(e => e.date === today)) return today;
+  const yesterday = entries.find(e => e.date === format(subDays(now, 1), 'yyyy-MM-dd'));
+  const open = getOpenInterval(yesterday);
+  if (!yesterday || !open?.punches?.start) return today;
+  const lastPunch = new Date(open.punches.start).getTime();
+  return now.getTime() - lastPunch < OPEN_SHIFT_HOURS * 60 * 60 * 1000 ? yesterday.date : today;
+};
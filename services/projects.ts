@@ -0,0 +1,67 @@
+import { ExpenseEntry, Project, ProjectStatus, ToolEntry, UserSettings, WorkEntry, WorkStatus } from '../types';
+import { computeStats, filterByPeriod, roundCurrency } from './calculations';
+
+// Cadastro de obras (settings.projects) e relatório por obra: dias, mão de obra, ferramentas e despesas
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  ativa: 'Em andamento',
+  pausada: 'Pausada',
+  concluida: 'Concluída'
+};
+
+export const getProjects = (settings: UserSettings): Project[] => settings.projects || [];
+
+// Obras oferecidas nos lançamentos: as não concluídas, mais a já gravada no registro em edição
+export const getSelectableProjects = (settings: UserSettings, currentId?: string): Project[] =>
+  getProjects(settings).filter(p => p.status !== 'concluida' || p.id === currentId);
+
+export const getProjectName = (projectId: string | undefined, settings: UserSettings): string =>
+  getProjects(settings).find(p => p.id === projectId)?.name ?? '';
+
+// Obra gravada no registro (undefined = sem obra)
+export const toProjectField = (projectId: string): string | undefined => projectId || undefined;
+
+export interface ProjectReportRow {
+  project: Project | null; // null = lançamentos sem obra
+  daysWorked: number; // meio período conta 0,5
+  extraServices: number;
+  labourValue: number; // dias + horas extras + serviços extras
+  toolsTotal: number;
+  expensesTotal: number;
+}
+
+interface ProjectReportInput {
+  entries: WorkEntry[];
+  tools: ToolEntry[];
+  expenses: ExpenseEntry[];
+}
+
+const sumAmounts = (list: { amount: number }[]) => roundCurrency(list.reduce((acc, item) => acc + item.amount, 0));
+
+// Uma linha por obra com lançamento no período, na ordem do cadastro. Obras sem nenhum lançamento ficam de fora.
+export const buildProjectReport = (data: ProjectReportInput, settings: UserSettings, startDate: string, endDate: string): ProjectReportRow[] => {
+  const entries = filterByPeriod(data.entries, startDate, endDate);
+  const tools = filterByPeriod(data.tools, startDate, endDate);
+  const expenses = filterByPeriod(data.expenses, startDate, endDate);
+  const known = new Set(getProjects(settings).map(p => p.id));
+
+  const rowFor = (project: Project | null): ProjectReportRow => {
+    // Obra excluída do cadastro conta como "sem obra"
+    const matches = (item: { projectId?: string }) =>
+      project ? item.projectId === project.id : !item.projectId || !known.has(item.projectId);
+    const projectEntries = entries.filter(matches);
+    const stats = computeStats({ entries: projectEntries, advances: [], tools: [], ponto: [] });
+    return {
+      project,
+      daysWorked: stats.daysWorked,
+      extraServices: projectEntries.filter(e => e.status === WorkStatus.EXTRA_SERVICE).length,
+      labourValue: stats.grossTotal,
+      toolsTotal: sumAmounts(tools.filter(matches)),
+      expensesTotal: sumAmounts(expenses.filter(matches))
+    };
+  };
+
+  return [...getProjects(settings), null]
+    .map(rowFor)
+    .filter(row => row.daysWorked > 0 || row.extraServices > 0 || row.labourValue > 0 || row.toolsTotal > 0 || row.expensesTotal > 0);
+};
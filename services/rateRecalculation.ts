@@ -0,0 +1,44 @@
+import { UserSettings, WorkEntry, WorkStatus } from '../types';
+import { calculateDayValue, calculateDayValueOn, getDailyRateOn, getEntryValue, getSettingsOn } from './payRules';
+import { ALL_EMPLOYERS, belongsToEmployer, getEmployerId, getEmployerSettings } from './employers';
+
+// Recalcula a diária e o valor gravados nos registros de um período pela tabela de valores atual.
+// Serviços extras (valor digitado) e horas extras não mudam.
+
+export interface SnapshotChange {
+  entry: WorkEntry;
+  updated: WorkEntry;
+  before: number; // valor do dia gravado
+  after: number; // valor do dia pela tabela atual
+}
+
+const cents = (value: number) => Math.round(value * 100);
+
+// Registro com a diária e o valor da tabela do empregador em vigor na data (null = serviço extra, não recalculado)
+export const recalculateEntry = (entry: WorkEntry, settings: UserSettings): WorkEntry | null => {
+  if (entry.status === WorkStatus.EXTRA_SERVICE) return null;
+  const employerId = getEmployerId(entry);
+  const employerSettings = getEmployerSettings(settings, employerId);
+  // Falta justificada: paga como dia trabalhado se o tipo era remunerado quando foi lançada
+  const value = entry.absenceId
+    ? (getEntryValue(entry) > 0 ? calculateDayValue(WorkStatus.WORKED, getSettingsOn(entry.date, employerSettings, employerId)) : 0)
+    : calculateDayValueOn(entry.status, entry.date, employerSettings, employerId);
+  return { ...entry, dailyRateSnapshot: getDailyRateOn(entry.date, employerSettings, employerId), valueSnapshot: value };
+};
+
+// Prévia: só os registros do período cujo valor ou diária gravados mudariam.
+// Cada registro usa a tabela do próprio empregador.
+export const planSnapshotRecalculation = (
+  entries: WorkEntry[],
+  settings: UserSettings,
+  startDate: string,
+  endDate: string,
+  employerId: string = ALL_EMPLOYERS
+): SnapshotChange[] =>
+  entries
+    .filter(e => e.date >= startDate && e.date <= endDate && belongsToEmployer(e, employerId))
+    .map(entry => ({ entry, updated: recalculateEntry(entry, settings) }))
+    .filter((c): c is { entry: WorkEntry; updated: WorkEntry } => c.updated !== null)
+    .map(({ entry, updated }) => ({ entry, updated, before: getEntryValue(entry), after: getEntryValue(updated) }))
+    .filter(c => cents(c.before) !== cents(c.after) || cents(c.entry.dailyRateSnapshot) !== cents(c.updated.dailyRateSnapshot))
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date));
@@ -0,0 +1,131 @@
+import { parseISO } from 'date-fns';
+import { PontoEntry, UserSettings, WorkEntry, WorkStatus } from '../types';
+import { calculateEntryDetails } from './calculations';
+import { calculateDayValueOn, getDailyRateOn } from './payRules';
+import { getHoliday } from './holidays';
+import { getScheduleForDate } from './workSchedule';
+import { MAIN_EMPLOYER_ID, getEmployerId, getEmployerSettings, getWorkEntryId } from './employers';
+
+// Conciliação entre o Registro Diário (WorkEntry) e o Controle de Ponto (PontoEntry), que descrevem os mesmos dias
+
+/**
+ * Status do registro diário sugerido pelas marcações do ponto.
+ * Dia inteiro quando os dois períodos previstos tiveram trabalho, meio período quando só um (domingo trabalhado
+ * é sempre "Domingo"); sem nenhuma marcação, feriado, falta (dia com expediente previsto) ou folga.
+ * null = dia em andamento (intervalo sem saída).
+ */
+export const suggestWorkStatus = (entry: PontoEntry, settings: UserSettings): WorkStatus | null => {
+  if (entry.intervals.some(i => !i.start || !i.end)) return null;
+  const details = calculateEntryDetails(entry, settings.workSchedules, settings.pontoCategories);
+  const weekday = parseISO(entry.date).getDay();
+
+  if (details.tempoRegistrado === 0) {
+    if (entry.holiday || getHoliday(entry.date, settings)) return WorkStatus.HOLIDAY;
+    return getScheduleForDate(entry.date, settings.workSchedules).day ? WorkStatus.MISSED : WorkStatus.DAY_OFF;
+  }
+  if (weekday === 0) return WorkStatus.SUNDAY;
+  if (details.fracaoDia < 1) return WorkStatus.HALF_DAY;
+  return weekday === 6 ? WorkStatus.SATURDAY_FULL : WorkStatus.WORKED;
+};
+
+// Status equivalentes na comparação: o que importa é se o dia foi inteiro, meio ou sem trabalho
+const STATUS_GROUP: Record<WorkStatus, string> = {
+  [WorkStatus.WORKED]: 'inteiro',
+  [WorkStatus.SATURDAY_FULL]: 'inteiro',
+  [WorkStatus.SUNDAY]: 'inteiro',
+  [WorkStatus.HALF_DAY]: 'meio',
+  [WorkStatus.MISSED]: 'sem-trabalho',
+  [WorkStatus.DAY_OFF]: 'sem-trabalho',
+  [WorkStatus.HOLIDAY]: 'sem-trabalho',
+  [WorkStatus.EXTRA_SERVICE]: 'servico'
+};
+
+export const isSameWorkGroup = (a: WorkStatus, b: WorkStatus): boolean => STATUS_GROUP[a] === STATUS_GROUP[b];
+
+// 'sem-registro': ponto sem dia no registro diário; 'sem-ponto': dia trabalhado no registro sem marcações;
+// 'divergente': os dois existem e contam dias diferentes (ex: "Falta" no registro e dia inteiro no ponto)
+export type ReconciliationIssueKind = 'sem-registro' | 'sem-ponto' | 'divergente';
+
+export interface ReconciliationIssue {
+  date: string;
+  kind: ReconciliationIssueKind;
+  work?: WorkEntry;
+  ponto?: PontoEntry;
+  suggested: WorkStatus | null; // status pelo ponto
+}
+
+/**
+ * Dias do período em que o registro diário e o ponto se contradizem, em ordem de data.
+ * Serviços extras não entram (não ocupam o dia) e só o registro do empregador principal é comparado (o ponto é dele). Dias sem ponto só são apontados a partir do primeiro ponto registrado,
+ * para quem começou a usar o Controle de Ponto depois do registro diário.
+ */
+export const reconcileWorkAndPonto = (
+  workEntries: WorkEntry[],
+  pontoEntries: PontoEntry[],
+  settings: UserSettings,
+  startDate: string,
+  endDate: string
+): ReconciliationIssue[] => {
+  const inPeriod = (date: string) => date >= startDate && date <= endDate;
+  const days = new Map(workEntries
+    .filter(e => e.status !== WorkStatus.EXTRA_SERVICE && getEmployerId(e) === MAIN_EMPLOYER_ID)
+    .map(e => [e.date, e]));
+  const firstPonto = pontoEntries.reduce((min, e) => (e.date < min ? e.date : min), '9999-12-31');
+  const issues: ReconciliationIssue[] = [];
+
+  pontoEntries.filter(e => inPeriod(e.date)).forEach(ponto => {
+    const suggested = suggestWorkStatus(ponto, settings);
+    if (!suggested) return;
+    const work = days.get(ponto.date);
+    if (!work) {
+      if (suggested !== WorkStatus.DAY_OFF) issues.push({ date: ponto.date, kind: 'sem-registro', ponto, suggested });
+    } else if (!isSameWorkGroup(work.status, suggested)) {
+      issues.push({ date: ponto.date, kind: 'divergente', work, ponto, suggested });
+    }
+  });
+
+  const pontoDates = new Set(pontoEntries.map(e => e.date));
+  days.forEach(work => {
+    if (!inPeriod(work.date) || work.date < firstPonto || pontoDates.has(work.date)) return;
+    if (STATUS_GROUP[work.status] === 'inteiro' || STATUS_GROUP[work.status] === 'meio') {
+      issues.push({ date: work.date, kind: 'sem-ponto', work, suggested: null });
+    }
+  });
+
+  return issues.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Registro diário do dia com o status do ponto. Fica marcado como automático e passa a acompanhar o ponto do dia.
+// Um registro já existente mantém empregador, obra e demais campos, e é recalculado pela tabela do empregador dele.
+export const buildWorkEntryFromPonto = (date: string, status: WorkStatus, settings: UserSettings, existing?: WorkEntry): WorkEntry => {
+  const employerId = getEmployerId(existing ?? {});
+  const employerSettings = getEmployerSettings(settings, employerId);
+  const { overtimeValue, ...kept } = existing ?? ({} as Partial<WorkEntry>);
+  const entry: WorkEntry = {
+    ...kept,
+    id: existing?.id ?? getWorkEntryId(date),
+    date,
+    status,
+    note: existing?.note || '',
+    dailyRateSnapshot: getDailyRateOn(date, employerSettings, employerId),
+    valueSnapshot: calculateDayValueOn(status, date, employerSettings, employerId),
+    fromPonto: true
+  };
+  if (overtimeValue && (status === WorkStatus.WORKED || status === WorkStatus.HALF_DAY)) {
+    entry.overtimeValue = overtimeValue;
+  }
+  return entry;
+};
+
+/**
+ * Registro diário a gravar depois de salvar um dia de ponto (opção de criar o registro pelo ponto).
+ * Cria o dia que ainda não existe e atualiza os criados automaticamente; registros feitos à mão e faltas
+ * justificadas não são alterados (a diferença aparece na conciliação). null = nada a gravar.
+ */
+export const syncWorkEntryFromPonto = (ponto: PontoEntry, settings: UserSettings, workEntries: WorkEntry[]): WorkEntry | null => {
+  const status = suggestWorkStatus(ponto, settings);
+  if (!status) return null;
+  const existing = workEntries.find(e => e.id === getWorkEntryId(ponto.date));
+  if (existing ? !existing.fromPonto || existing.status === status : status === WorkStatus.DAY_OFF) return null;
+  return buildWorkEntryFromPonto(ponto.date, status, settings, existing);
+};
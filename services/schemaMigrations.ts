@@ -0,0 +1,152 @@
+import { DataSnapshot, WorkStatus } from '../types';
+
+// Versão atual do formato dos dados. Incrementar junto com uma nova entrada em MIGRATIONS.
+export const CURRENT_SCHEMA_VERSION = 6;
+
+interface Migration {
+  version: number; // versão resultante após aplicar a migração
+  description: string;
+  // Deve ser idempotente: dados da nuvem sem versão passam por todas as migrações
+  migrate: (data: DataSnapshot) => DataSnapshot;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Pontos antigos sem horários de saída (manhã e tarde)',
+    migrate: (data) => ({
+      ...data,
+      pontoEntries: data.pontoEntries.map((p: any) => ({
+        ...p,
+        morningExit: p.morningExit ?? '12:00',
+        afternoonExit: p.afternoonExit ?? '17:00',
+        morningExitDelay: p.morningExitDelay ?? 0,
+        afternoonExitDelay: p.afternoonExitDelay ?? 0
+      }))
+    })
+  },
+  {
+    version: 2,
+    description: 'Valor do dia gravado no registro (antes era calculado: meio período = metade da diária)',
+    migrate: (data) => ({
+      ...data,
+      workEntries: data.workEntries.map((e: any) => {
+        if (typeof e.valueSnapshot === 'number') return e;
+        const unpaid = e.status === WorkStatus.MISSED || e.status === WorkStatus.DAY_OFF;
+        const rate = Number(e.dailyRateSnapshot) || 0;
+        return { ...e, valueSnapshot: unpaid ? 0 : e.status === WorkStatus.HALF_DAY ? rate / 2 : rate };
+      })
+    })
+  },
+  {
+    version: 3,
+    description: 'Ponto como lista de intervalos (antes: manhã e tarde em quatro campos fixos)',
+    migrate: (data) => ({
+      ...data,
+      pontoEntries: data.pontoEntries.map((p: any) => {
+        const {
+          morningArrival, morningExit, afternoonArrival, afternoonExit,
+          morningDelay, morningExitDelay, afternoonDelay, afternoonExitDelay,
+          punches, ...rest
+        } = p;
+        // A migração 1 recoloca os campos antigos em pontos já migrados vindos da nuvem: só os remove
+        if (Array.isArray(p.intervals)) return rest;
+        const toInterval = (start?: string, end?: string, startPunch?: string, endPunch?: string) => {
+          const interval: any = { start: start || '', end: end || '' };
+          if (startPunch || endPunch) {
+            interval.punches = {
+              ...(startPunch ? { start: startPunch } : {}),
+              ...(endPunch ? { end: endPunch } : {})
+            };
+          }
+          return interval;
+        };
+        const intervals = [];
+        if (morningArrival || morningExit || punches?.morningArrival || punches?.morningExit) {
+          intervals.push(toInterval(morningArrival, morningExit, punches?.morningArrival, punches?.morningExit));
+        }
+        if (afternoonArrival || afternoonExit || punches?.afternoonArrival || punches?.afternoonExit) {
+          intervals.push(toInterval(afternoonArrival, afternoonExit, punches?.afternoonArrival, punches?.afternoonExit));
+        }
+        return { ...rest, intervals };
+      })
+    })
+  },
+  {
+    version: 4,
+    description: 'Minutos de "buscar filho" viram um ajuste na categoria correspondente',
+    migrate: (data) => ({
+      ...data,
+      pontoEntries: data.pontoEntries.map((p: any) => {
+        const { schoolMinutes, ...rest } = p;
+        if (Array.isArray(p.adjustments)) return rest;
+        const minutes = Number(schoolMinutes) || 0;
+        return { ...rest, adjustments: minutes > 0 ? [{ categoryId: 'buscar-filho', minutes }] : [] };
+      })
+    })
+  },
+  {
+    version: 5,
+    description: 'Reajustes ligados ao empregador pelo id (antes: pelo nome)',
+    migrate: (data) => {
+      const settings: any = data.settings;
+      if (!Array.isArray(settings?.rateHistory)) return data;
+      const sameName = (a = '', b = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+      const rateHistory = settings.rateHistory.flatMap((v: any) => {
+        const { employerName, ...rest } = v;
+        if (!employerName) return [rest];
+        const employer = (settings.employers || []).find((e: any) => sameName(e.name, employerName));
+        if (employer) return [{ ...rest, employerId: employer.id }];
+        // Com o nome do principal valia para ele; sem empregador com esse nome não valia para ninguém
+        return sameName(employerName, settings.employerName) ? [rest] : [];
+      });
+      return { ...data, settings: { ...settings, rateHistory } };
+    }
+  },
+  {
+    version: 6,
+    description: 'Registro do dia por dia e empregador (antes o id era só a data, e o de um empregador substituía o de outro)',
+    migrate: (data) => ({
+      ...data,
+      // O do principal continua com a data como id; os dos demais empregadores passam a levar o empregador no id
+      workEntries: data.workEntries.map((e: any) =>
+        e.id === e.date && e.employerId && e.employerId !== 'principal' ? { ...e, id: `${e.date}_${e.employerId}` } : e
+      )
+    })
+  }
+];
+
+const asList = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+// Normaliza um objeto qualquer (backup, dados locais ou da nuvem) para o formato de DataSnapshot
+export const toSnapshot = (raw: any): DataSnapshot => ({
+  schemaVersion: typeof raw?.schemaVersion === 'number' ? raw.schemaVersion : 0,
+  workEntries: asList(raw?.workEntries),
+  advances: asList(raw?.advances),
+  expenses: asList(raw?.expenses),
+  tools: asList(raw?.tools),
+  cycleHistory: asList(raw?.cycleHistory),
+  pontoEntries: asList(raw?.pontoEntries),
+  timeBankArchives: asList(raw?.timeBankArchives),
+  timeBankTransactions: asList(raw?.timeBankTransactions),
+  absences: asList(raw?.absences),
+  payments: asList(raw?.payments),
+  settings: raw?.settings && typeof raw.settings === 'object' ? raw.settings : undefined,
+  exportedAt: raw?.exportedAt
+});
+
+export class SchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`Os dados estão na versão ${version}, mais nova que a suportada por este app (${CURRENT_SCHEMA_VERSION}). Atualize o aplicativo.`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// Aplica em ordem as migrações posteriores à versão dos dados
+export const migrateSnapshot = (snapshot: DataSnapshot): DataSnapshot => {
+  if (snapshot.schemaVersion > CURRENT_SCHEMA_VERSION) throw new SchemaVersionError(snapshot.schemaVersion);
+  return MIGRATIONS
+    .filter(m => m.version > snapshot.schemaVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((data, m) => ({ ...m.migrate(data), schemaVersion: m.version }), snapshot);
+};
@@ -0,0 +1,272 @@
+// Persistência local dos dados do app.
+// Listas de registros (com id) e valores avulsos (configurações, fila de sincronização) ficam separados.
+
+export interface StoredRecord {
+  id: string;
+  date?: string;
+  [field: string]: any;
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+  // since: categorias carregadas só a partir da data (os registros sem data vêm sempre)
+  loadAll(since?: Record<string, string>): Promise<{ lists: Record<string, StoredRecord[]>; values: Record<string, any> }>;
+  getByDateRange(category: string, startDate: string, endDate: string): Promise<StoredRecord[]>;
+  putRecord(category: string, record: StoredRecord): Promise<void>;
+  deleteRecord(category: string, id: string): Promise<void>;
+  replaceList(category: string, records: StoredRecord[]): Promise<void>;
+  setValue(key: string, value: any): Promise<void>;
+  removeKey(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'meu-registro-de-trabalho';
+const DB_VERSION = 2;
+const RECORDS = 'records';
+const VALUES = 'values';
+const LAST_DATE = '9999-12-31';
+
+interface RecordRow {
+  key: string; // `${category}:${id}`
+  category: string;
+  id: string;
+  date: string; // '' = registro sem data
+  data: StoredRecord;
+}
+
+const toRow = (category: string, record: StoredRecord): RecordRow => ({
+  key: `${category}:${record.id}`,
+  category,
+  id: record.id,
+  date: record.date || '',
+  data: record
+});
+
+const inWindow = (record: StoredRecord, since?: string) => !since || !record.date || record.date >= since;
+
+const inRange = (record: StoredRecord, startDate: string, endDate: string) =>
+  (record.date || '') >= startDate && (record.date || '') <= endDate;
+
+// Aplica a janela de datas a listas já lidas por inteiro (adaptadores sem índice)
+const applyWindow = (lists: Record<string, StoredRecord[]>, since: Record<string, string> = {}): Record<string, StoredRecord[]> =>
+  Object.fromEntries(Object.entries(lists).map(([category, records]) => [category, records.filter(r => inWindow(r, since[category]))]));
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Intervalos do índice de categoria que pulam as categorias informadas (em ordem)
+const categoryGaps = (skip: string[]): (IDBKeyRange | undefined)[] =>
+  skip.length === 0 ? [undefined] : [
+    IDBKeyRange.upperBound(skip[0], true),
+    ...skip.slice(1).map((upper, i) => IDBKeyRange.bound(skip[i], upper, true, true)),
+    IDBKeyRange.lowerBound(skip[skip.length - 1], true)
+  ];
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const records = db.objectStoreNames.contains(RECORDS)
+        ? request.transaction!.objectStore(RECORDS)
+        : db.createObjectStore(RECORDS, { keyPath: 'key' });
+      if (!records.indexNames.contains('category')) records.createIndex('category', 'category');
+      if (!records.indexNames.contains('date')) records.createIndex('date', 'date');
+      if (!records.indexNames.contains('category_date')) records.createIndex('category_date', ['category', 'date']);
+      // Linhas gravadas sem a data ficam fora dos índices por data: copia a data do próprio registro
+      if (event.oldVersion > 0) {
+        records.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (typeof cursor.value.date !== 'string') cursor.update(toRow(cursor.value.category, cursor.value.data));
+          cursor.continue();
+        };
+      }
+      if (!db.objectStoreNames.contains(VALUES)) {
+        db.createObjectStore(VALUES);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+
+  return {
+    name: 'indexeddb',
+
+    loadAll: async (since = {}) => {
+      const tx = db.transaction([RECORDS, VALUES], 'readonly');
+      const records = tx.objectStore(RECORDS);
+      const valueStore = tx.objectStore(VALUES);
+      // Categorias com janela vêm pelo índice de categoria e data, mais os registros sem data; as demais, inteiras
+      const windowed = Object.keys(since).sort();
+      const [keys, values, ...rowGroups] = await Promise.all([
+        promisify(valueStore.getAllKeys()),
+        promisify(valueStore.getAll()),
+        ...categoryGaps(windowed).map(range => promisify<RecordRow[]>(records.index('category').getAll(range))),
+        ...windowed.flatMap(category => [
+          promisify<RecordRow[]>(records.index('category_date').getAll(IDBKeyRange.bound([category, since[category]], [category, LAST_DATE]))),
+          promisify<RecordRow[]>(records.index('category_date').getAll(IDBKeyRange.only([category, ''])))
+        ])
+      ]);
+      const rows = (rowGroups as RecordRow[][]).flat();
+
+      const lists: Record<string, StoredRecord[]> = {};
+      rows.forEach(row => {
+        (lists[row.category] = lists[row.category] || []).push(row.data);
+      });
+      const valueMap: Record<string, any> = {};
+      keys.forEach((key, i) => { valueMap[String(key)] = values[i]; });
+      return { lists, values: valueMap };
+    },
+
+    getByDateRange: async (category, startDate, endDate) => {
+      const tx = db.transaction(RECORDS, 'readonly');
+      const range = IDBKeyRange.bound([category, startDate], [category, endDate]);
+      const rows = await promisify<RecordRow[]>(tx.objectStore(RECORDS).index('category_date').getAll(range));
+      return rows.map(r => r.data);
+    },
+
+    putRecord: async (category, record) => {
+      const tx = db.transaction(RECORDS, 'readwrite');
+      tx.objectStore(RECORDS).put(toRow(category, record));
+      await done(tx);
+    },
+
+    deleteRecord: async (category, id) => {
+      const tx = db.transaction(RECORDS, 'readwrite');
+      tx.objectStore(RECORDS).delete(`${category}:${id}`);
+      await done(tx);
+    },
+
+    replaceList: async (category, records) => {
+      const tx = db.transaction(RECORDS, 'readwrite');
+      const store = tx.objectStore(RECORDS);
+      // Apaga e regrava dentro do mesmo callback para a transação continuar ativa
+      store.index('category').getAllKeys(category).onsuccess = (event) => {
+        ((event.target as IDBRequest<IDBValidKey[]>).result).forEach(key => store.delete(key));
+        records.forEach(record => store.put(toRow(category, record)));
+      };
+      await done(tx);
+    },
+
+    setValue: async (key, value) => {
+      const tx = db.transaction(VALUES, 'readwrite');
+      tx.objectStore(VALUES).put(value, key);
+      await done(tx);
+    },
+
+    removeKey: async (key) => {
+      const tx = db.transaction([RECORDS, VALUES], 'readwrite');
+      tx.objectStore(VALUES).delete(key);
+      const records = tx.objectStore(RECORDS);
+      records.index('category').getAllKeys(key).onsuccess = (event) => {
+        ((event.target as IDBRequest<IDBValidKey[]>).result).forEach(k => records.delete(k));
+      };
+      await done(tx);
+    },
+
+    clear: async () => {
+      const tx = db.transaction([RECORDS, VALUES], 'readwrite');
+      tx.objectStore(RECORDS).clear();
+      tx.objectStore(VALUES).clear();
+      await done(tx);
+    }
+  };
+};
+
+// Implementação em memória, para testes
+export const createMemoryAdapter = (
+  initial: { lists?: Record<string, StoredRecord[]>; values?: Record<string, any> } = {}
+): StorageAdapter => {
+  const lists = new Map<string, Map<string, StoredRecord>>();
+  const values = new Map<string, any>(Object.entries(initial.values || {}));
+  Object.entries(initial.lists || {}).forEach(([category, records]) => {
+    lists.set(category, new Map(records.map(r => [r.id, r])));
+  });
+  const listOf = (category: string) => {
+    if (!lists.has(category)) lists.set(category, new Map());
+    return lists.get(category)!;
+  };
+
+  return {
+    name: 'memory',
+    loadAll: async (since) => ({
+      lists: applyWindow(Object.fromEntries(Array.from(lists.entries()).map(([category, records]) => [category, Array.from(records.values())])), since),
+      values: Object.fromEntries(values)
+    }),
+    getByDateRange: async (category, startDate, endDate) =>
+      Array.from(listOf(category).values()).filter(r => inRange(r, startDate, endDate)),
+    putRecord: async (category, record) => { listOf(category).set(record.id, record); },
+    deleteRecord: async (category, id) => { listOf(category).delete(id); },
+    replaceList: async (category, records) => { lists.set(category, new Map(records.map(r => [r.id, r]))); },
+    setValue: async (key, value) => { values.set(key, value); },
+    removeKey: async (key) => { values.delete(key); lists.delete(key); },
+    clear: async () => { lists.clear(); values.clear(); }
+  };
+};
+
+// Formato antigo (uma chave JSON por categoria). Usado só se o IndexedDB não abrir, para não perder dados.
+export const createLocalStorageAdapter = (prefix: string = 'mrt_'): StorageAdapter => {
+  const readList = (category: string): StoredRecord[] => {
+    try {
+      const data = localStorage.getItem(category);
+      const parsed = data ? JSON.parse(data) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch { return []; }
+  };
+  const writeList = (category: string, records: StoredRecord[]) => localStorage.setItem(category, JSON.stringify(records));
+
+  return {
+    name: 'localstorage',
+    loadAll: async (since) => {
+      const { lists, values } = readLegacyLocalStorage(prefix);
+      return { lists: applyWindow(lists, since), values };
+    },
+    getByDateRange: async (category, startDate, endDate) => readList(category).filter(r => inRange(r, startDate, endDate)),
+    putRecord: async (category, record) => {
+      const list = readList(category).filter(r => r.id !== record.id);
+      list.push(record);
+      writeList(category, list);
+    },
+    deleteRecord: async (category, id) => { writeList(category, readList(category).filter(r => r.id !== id)); },
+    replaceList: async (category, records) => { writeList(category, records); },
+    setValue: async (key, value) => {
+      localStorage.setItem(key, typeof value === 'string' ? value : JSON.stringify(value));
+    },
+    removeKey: async (key) => { localStorage.removeItem(key); },
+    clear: async () => {
+      Object.keys(localStorage).filter(k => k.startsWith(prefix)).forEach(k => localStorage.removeItem(k));
+    }
+  };
+};
+
+// Lê as chaves `mrt_*` do localStorage: arrays viram listas de registros, o resto vira valor avulso
+export const readLegacyLocalStorage = (prefix: string = 'mrt_') => {
+  const lists: Record<string, StoredRecord[]> = {};
+  const values: Record<string, any> = {};
+  Object.keys(localStorage).filter(k => k.startsWith(prefix)).forEach(key => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return;
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) lists[key] = parsed;
+      else values[key] = parsed;
+    } catch {
+      values[key] = raw;
+    }
+  });
+  return { lists, values };
+};
@@ -1,7 +1,16 @@
 
-import { WorkEntry, AdvanceEntry, UserSettings, WorkStatus, ExpenseEntry, ToolEntry, CycleHistory, MonthlyStats, PontoEntry } from '../types';
-import { format, subDays, startOfMonth, parseISO, isWithinInterval, startOfDay, endOfDay } from 'date-fns';
+import { WorkEntry, AdvanceEntry, UserSettings, WorkStatus, ExpenseEntry, ToolEntry, CycleHistory, MonthlyStats, PontoEntry, TimeBankArchive, TimeBankTransaction, Absence, PaymentEntry, Tombstone, DataSnapshot } from '../types';
+import { format, subDays, subMonths } from 'date-fns';
 import { supabase } from './supabaseClient';
+import { enqueueMutation, getOutbox, clearOutbox, flushOutbox, discardMutations } from './syncService';
+import { mergeCategory, mergeTombstones, CategoryMerge, SyncConflict, ConflictChoice } from './mergeService';
+import { initLocalStore, whenPersisted, getList, setList, putItem, deleteItem, getValue, setValue, removeKey, ensureLoadedFrom, loadFullList } from './localStore';
+import { calculateDayValue } from './payRules';
+import { calculatePeriodStats } from './calculations';
+import { ALL_EMPLOYERS, getEmployers, selectEmployerData } from './employers';
+import { buildAbsenceRecords, releaseAbsenceRecords } from './absences';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot, toSnapshot } from './schemaMigrations';
+import { BackupCategory, BackupFieldError, CategorySummary, BACKUP_CATEGORIES, parseBackup, summarizeCategory, sameRecordContent } from './backupService';
 
 const KEYS = {
   WORK_ENTRIES: 'mrt_work_entries',
@@ -11,122 +20,327 @@ const KEYS = {
   CYCLE_HISTORY: 'mrt_cycle_history',
   SETTINGS: 'mrt_settings',
   LAST_NOTIF: 'mrt_last_notification_date',
-  PONTO_ENTRIES: 'mrt_ponto_entries'
+  PONTO_ENTRIES: 'mrt_ponto_entries',
+  TIME_BANK_ARCHIVES: 'mrt_time_bank_archives',
+  TIME_BANK_TRANSACTIONS: 'mrt_time_bank_transactions',
+  ABSENCES: 'mrt_absences',
+  ABSENCE_PHOTOS: 'mrt_absence_photos', // só neste aparelho: não sincroniza nem vai para o backup
+  PAYMENTS: 'mrt_payments',
+  TOMBSTONES: 'mrt_tombstones',
+  SCHEMA_VERSION: 'mrt_schema_version'
 };
 
-export const clearLocalData = () => {
-  localStorage.removeItem(KEYS.WORK_ENTRIES);
-  localStorage.removeItem(KEYS.ADVANCES);
-  localStorage.removeItem(KEYS.EXPENSES);
-  localStorage.removeItem(KEYS.TOOLS);
-  localStorage.removeItem(KEYS.CYCLE_HISTORY);
-  localStorage.removeItem(KEYS.SETTINGS);
-  localStorage.removeItem(KEYS.PONTO_ENTRIES);
+// Categorias sincronizadas como listas de registros com id
+const RECORD_CATEGORIES = [KEYS.WORK_ENTRIES, KEYS.ADVANCES, KEYS.EXPENSES, KEYS.TOOLS, KEYS.CYCLE_HISTORY, KEYS.PONTO_ENTRIES, KEYS.TIME_BANK_ARCHIVES, KEYS.TIME_BANK_TRANSACTIONS, KEYS.ABSENCES, KEYS.PAYMENTS];
+
+// Registro diário e ponto crescem todo dia: na abertura só os dos últimos meses vão para a memória
+const DATED_CATEGORIES = [KEYS.WORK_ENTRIES, KEYS.PONTO_ENTRIES];
+const RECENT_MONTHS = 12;
+
+// Atualiza os dados gravados neste aparelho para o formato atual, se vierem de uma versão anterior do app
+const migrateLocalData = async () => {
+  const version = getValue<number>(KEYS.SCHEMA_VERSION) ?? 0;
+  if (version >= CURRENT_SCHEMA_VERSION) return;
+
+  const migrated = migrateSnapshot({
+    schemaVersion: version,
+    workEntries: await loadFullList(KEYS.WORK_ENTRIES),
+    advances: getList(KEYS.ADVANCES),
+    expenses: getList(KEYS.EXPENSES),
+    tools: getList(KEYS.TOOLS),
+    cycleHistory: getList(KEYS.CYCLE_HISTORY),
+    pontoEntries: await loadFullList(KEYS.PONTO_ENTRIES),
+    timeBankArchives: getList(KEYS.TIME_BANK_ARCHIVES),
+    timeBankTransactions: getList(KEYS.TIME_BANK_TRANSACTIONS),
+    absences: getList(KEYS.ABSENCES),
+    payments: getList(KEYS.PAYMENTS),
+    settings: getValue(KEYS.SETTINGS)
+  });
+  setList(KEYS.WORK_ENTRIES, migrated.workEntries);
+  setList(KEYS.ADVANCES, migrated.advances);
+  setList(KEYS.EXPENSES, migrated.expenses);
+  setList(KEYS.TOOLS, migrated.tools);
+  setList(KEYS.CYCLE_HISTORY, migrated.cycleHistory);
+  setList(KEYS.PONTO_ENTRIES, migrated.pontoEntries);
+  setList(KEYS.TIME_BANK_ARCHIVES, migrated.timeBankArchives);
+  setList(KEYS.TIME_BANK_TRANSACTIONS, migrated.timeBankTransactions);
+  setList(KEYS.ABSENCES, migrated.absences);
+  setList(KEYS.PAYMENTS, migrated.payments);
+  if (migrated.settings) setValue(KEYS.SETTINGS, migrated.settings);
+  setValue(KEYS.SCHEMA_VERSION, migrated.schemaVersion);
 };
 
-const syncKeyToSupabase = async (key: string, data: any): Promise<boolean> => {
-  const { data: { session } } = await supabase.auth.getSession();
-  if (!session?.user) return false; 
-  try {
-    const { error } = await supabase
-      .from('historico_ia')
-      .upsert(
-        { 
-          user_id: session.user.id, 
-          category: key, 
-          data: data,
-          updated_at: new Date().toISOString()
-        },
-        { onConflict: 'user_id, category' }
-      );
-    return !error;
-  } catch (err) {
-    return false;
+// Traz para a memória o registro diário e o ponto a partir da data, para telas que mostram períodos mais antigos.
+// Resolve com true se algum registro novo entrou.
+export const loadRecordsFrom = async (startDate: string): Promise<boolean> => {
+  const loaded = await Promise.all(DATED_CATEGORIES.map(key => ensureLoadedFrom(key, startDate)));
+  return loaded.some(Boolean);
+};
+
+// Abre o armazenamento local (IndexedDB) e carrega os dados. Deve terminar antes de renderizar o app.
+export const initStorage = async () => {
+  const recent = format(subMonths(new Date(), RECENT_MONTHS), 'yyyy-MM-dd');
+  await initLocalStore(undefined, Object.fromEntries(DATED_CATEGORIES.map(key => [key, recent])));
+  await migrateLocalData();
+  // Os saldos dos ciclos em aberto contam desde o início de cada ciclo, mesmo que seja mais antigo
+  const settings = getSettings();
+  const cycleStarts = getEmployers(settings).map(e => e.billingCycleStartDate || settings.billingCycleStartDate);
+  await loadRecordsFrom(cycleStarts.sort()[0]);
+};
+
+export const clearLocalData = (): Promise<void> => {
+  removeKey(KEYS.WORK_ENTRIES);
+  removeKey(KEYS.ADVANCES);
+  removeKey(KEYS.EXPENSES);
+  removeKey(KEYS.TOOLS);
+  removeKey(KEYS.CYCLE_HISTORY);
+  removeKey(KEYS.SETTINGS);
+  removeKey(KEYS.PONTO_ENTRIES);
+  removeKey(KEYS.TIME_BANK_ARCHIVES);
+  removeKey(KEYS.TIME_BANK_TRANSACTIONS);
+  removeKey(KEYS.ABSENCES);
+  removeKey(KEYS.ABSENCE_PHOTOS);
+  removeKey(KEYS.PAYMENTS);
+  removeKey(KEYS.TOMBSTONES);
+  clearOutbox();
+  return whenPersisted();
+};
+
+export const getTombstones = (): Tombstone[] => getList(KEYS.TOMBSTONES);
+
+// Grava a lista localmente e enfileira só o registro alterado para a nuvem
+const upsertRecord = <T extends { id: string; updatedAt?: string }>(key: string, list: T[], record: T, baseUpdatedAt?: string) => {
+  const index = list.findIndex(r => r.id === record.id);
+  const base = index >= 0 ? list[index].updatedAt : baseUpdatedAt;
+  const stamped = { ...record, updatedAt: new Date().toISOString() };
+  putItem(key, stamped);
+  enqueueMutation(key, record.id, index >= 0 ? 'update' : 'create', stamped, base);
+};
+
+const removeRecord = <T extends { id: string; updatedAt?: string }>(key: string, list: T[], id: string, baseUpdatedAt?: string) => {
+  const base = list.find(r => r.id === id)?.updatedAt ?? baseUpdatedAt;
+  deleteItem(key, id);
+  enqueueMutation(key, id, 'delete', undefined, base);
+  buryRecord(key, id);
+};
+
+// Lápide do registro apagado: sem ela a mesclagem traz de volta a cópia que outro aparelho ou a nuvem ainda têm
+const buryRecord = (key: string, id: string) => {
+  const tombstone: Tombstone = { id: `${key}:${id}`, category: key, recordId: id, deletedAt: new Date().toISOString() };
+  putItem(KEYS.TOMBSTONES, tombstone);
+  enqueueMutation(KEYS.TOMBSTONES, tombstone.id, 'update', tombstone);
+};
+
+// Substitui a categoria inteira. Nas listas, os registros que saem ganham lápide, como numa exclusão.
+// current: lista completa atual da categoria (loadFullList), quando parte dela pode estar fora da memória.
+const replaceCategory = (key: string, data: any, current: { id: string }[] = getList(key)) => {
+  if (Array.isArray(data)) {
+    const kept = new Set(data.map((r: { id: string }) => r.id));
+    const removed = current.filter(r => !kept.has(r.id));
+    setList(key, data);
+    removed.forEach(r => buryRecord(key, r.id));
+  } else {
+    setValue(key, data);
   }
+  enqueueMutation(key, '*', 'replace', data);
 };
 
-export const fetchAllFromSupabase = async (): Promise<boolean> => {
+const CATEGORY_LABELS: Record<string, string> = {
+  [KEYS.WORK_ENTRIES]: 'Registro diário',
+  [KEYS.ADVANCES]: 'Vale',
+  [KEYS.EXPENSES]: 'Despesa',
+  [KEYS.TOOLS]: 'Ferramenta',
+  [KEYS.CYCLE_HISTORY]: 'Ciclo encerrado',
+  [KEYS.PONTO_ENTRIES]: 'Ponto',
+  [KEYS.TIME_BANK_ARCHIVES]: 'Banco de horas encerrado',
+  [KEYS.TIME_BANK_TRANSACTIONS]: 'Movimento do banco de horas',
+  [KEYS.ABSENCES]: 'Ausência justificada',
+  [KEYS.PAYMENTS]: 'Pagamento recebido'
+};
+
+export const getCategoryLabel = (category: string): string => CATEGORY_LABELS[category] || category;
+
+export interface MergePlan {
+  categories: CategoryMerge[];
+  tombstones: Tombstone[];
+  settings: UserSettings | null; // configurações da nuvem a adotar (null = manter as locais)
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Baixa os dados da nuvem e os reconcilia com os locais registro a registro.
+ * Sem conflitos, o resultado já é gravado; com conflitos, nada é alterado até
+ * que o plano seja aplicado com as escolhas do usuário (applyMergePlan).
+ */
+export const fetchAllFromSupabase = async (): Promise<MergePlan | null> => {
   const { data: { session } } = await supabase.auth.getSession();
-  if (!session?.user) return false;
+  if (!session?.user) return null;
   try {
     const { data, error } = await supabase
       .from('historico_ia')
       .select('category, data')
       .eq('user_id', session.user.id);
     if (error) throw error;
-    if (data && data.length > 0) {
-      data.forEach(row => {
-        if (row.data) localStorage.setItem(row.category, JSON.stringify(row.data));
-      });
-      return true;
+
+    const remote = new Map<string, any>((data || []).map(row => [row.category, row.data]));
+    // A nuvem não guarda versão: as migrações são idempotentes e rodam sempre sobre o que vier de lá
+    const remoteData = migrateSnapshot(toSnapshot({
+      workEntries: remote.get(KEYS.WORK_ENTRIES),
+      advances: remote.get(KEYS.ADVANCES),
+      expenses: remote.get(KEYS.EXPENSES),
+      tools: remote.get(KEYS.TOOLS),
+      cycleHistory: remote.get(KEYS.CYCLE_HISTORY),
+      pontoEntries: remote.get(KEYS.PONTO_ENTRIES),
+      timeBankArchives: remote.get(KEYS.TIME_BANK_ARCHIVES),
+      timeBankTransactions: remote.get(KEYS.TIME_BANK_TRANSACTIONS),
+      absences: remote.get(KEYS.ABSENCES),
+      payments: remote.get(KEYS.PAYMENTS),
+      settings: remote.get(KEYS.SETTINGS)
+    }));
+    const remoteLists: Record<string, any[]> = {
+      [KEYS.WORK_ENTRIES]: remoteData.workEntries,
+      [KEYS.ADVANCES]: remoteData.advances,
+      [KEYS.EXPENSES]: remoteData.expenses,
+      [KEYS.TOOLS]: remoteData.tools,
+      [KEYS.CYCLE_HISTORY]: remoteData.cycleHistory,
+      [KEYS.PONTO_ENTRIES]: remoteData.pontoEntries,
+      [KEYS.TIME_BANK_ARCHIVES]: remoteData.timeBankArchives,
+      [KEYS.TIME_BANK_TRANSACTIONS]: remoteData.timeBankTransactions,
+      [KEYS.ABSENCES]: remoteData.absences,
+      [KEYS.PAYMENTS]: remoteData.payments
+    };
+    const pending = getOutbox();
+    const tombstones = mergeTombstones(getTombstones(), remote.get(KEYS.TOMBSTONES) || []);
+
+    const plan: MergePlan = { categories: [], tombstones, settings: null, conflicts: [] };
+    for (const key of RECORD_CATEGORIES) {
+      const { result, conflicts } = mergeCategory(key, await loadFullList(key), remoteLists[key], tombstones, pending);
+      plan.categories.push(result);
+      plan.conflicts.push(...conflicts);
+    }
+
+    if (remoteData.settings && !pending.some(m => m.category === KEYS.SETTINGS)) {
+      plan.settings = remoteData.settings as UserSettings;
     }
-    return true; 
+
+    if (plan.conflicts.length === 0) applyMergePlan(plan, {});
+    return plan;
   } catch (err) {
-    return false;
+    return null;
   }
 };
 
-export const getWorkEntries = (): WorkEntry[] => {
-  try {
-    const data = localStorage.getItem(KEYS.WORK_ENTRIES);
-    return data ? JSON.parse(data) : [];
-  } catch { return []; }
+export const applyMergePlan = (plan: MergePlan, choices: Record<string, ConflictChoice>) => {
+  setList(KEYS.TOMBSTONES, plan.tombstones);
+  plan.categories.forEach(({ category, merged, unsynced }) => {
+    setList(category, merged);
+    unsynced.forEach(r => enqueueMutation(category, r.id, 'create', r));
+  });
+  if (plan.settings) setValue(KEYS.SETTINGS, plan.settings);
+
+  // Alterações retidas cujo conteúdo já coincide com a nuvem não precisam mais ser enviadas
+  const conflictIds = new Set(plan.conflicts.map(c => c.id));
+  getOutbox()
+    .filter(m => m.conflict && !conflictIds.has(`${m.category}:${m.recordId}`))
+    .forEach(m => discardMutations(m.category, m.recordId));
+
+  plan.conflicts.forEach(c => {
+    discardMutations(c.category, c.recordId);
+    const list = getList<any>(c.category).filter(r => r.id !== c.recordId);
+    if (choices[c.id] !== 'local') {
+      if (c.remote) putItem(c.category, c.remote);
+    } else if (c.local) {
+      // Fica com a versão deste aparelho, reenviada por cima da versão atual da nuvem
+      upsertRecord(c.category, list, c.local, c.remote?.updatedAt);
+    } else {
+      removeRecord(c.category, list, c.recordId, c.remote?.updatedAt);
+    }
+  });
 };
 
-export const getAdvances = (): AdvanceEntry[] => {
-  try {
-    const data = localStorage.getItem(KEYS.ADVANCES);
-    return data ? JSON.parse(data) : [];
-  } catch { return []; }
+export const getWorkEntries = (): WorkEntry[] => getList(KEYS.WORK_ENTRIES);
+
+export const getAdvances = (): AdvanceEntry[] => getList(KEYS.ADVANCES);
+
+export const getExpenses = (): ExpenseEntry[] => getList(KEYS.EXPENSES);
+
+export const getTools = (): ToolEntry[] => getList(KEYS.TOOLS);
+
+export const getCycleHistory = (): CycleHistory[] => getList(KEYS.CYCLE_HISTORY);
+
+export const getPontoEntries = (): PontoEntry[] => getList(KEYS.PONTO_ENTRIES);
+
+export const savePontoEntry = (entry: PontoEntry) => {
+  upsertRecord(KEYS.PONTO_ENTRIES, getPontoEntries(), entry);
 };
 
-export const getExpenses = (): ExpenseEntry[] => {
-  try {
-    const data = localStorage.getItem(KEYS.EXPENSES);
-    return data ? JSON.parse(data) : [];
-  } catch { return []; }
+export const deletePontoEntry = (id: string) => {
+  removeRecord(KEYS.PONTO_ENTRIES, getPontoEntries(), id);
 };
 
-export const getTools = (): ToolEntry[] => {
-  try {
-    const data = localStorage.getItem(KEYS.TOOLS);
-    return data ? JSON.parse(data) : [];
-  } catch { return []; }
+export const getTimeBankArchives = (): TimeBankArchive[] => getList(KEYS.TIME_BANK_ARCHIVES);
+
+export const saveTimeBankArchive = (archive: TimeBankArchive) => {
+  upsertRecord(KEYS.TIME_BANK_ARCHIVES, getTimeBankArchives(), archive);
 };
 
-export const getCycleHistory = (): CycleHistory[] => {
-  try {
-    const data = localStorage.getItem(KEYS.CYCLE_HISTORY);
-    return data ? JSON.parse(data) : [];
-  } catch { return []; }
+export const deleteTimeBankArchive = (id: string) => {
+  removeRecord(KEYS.TIME_BANK_ARCHIVES, getTimeBankArchives(), id);
 };
 
-export const getPontoEntries = (): PontoEntry[] => {
-  try {
-    const data = localStorage.getItem(KEYS.PONTO_ENTRIES);
-    const parsed = data ? JSON.parse(data) : [];
-    return parsed.map((p: any) => ({
-      morningExit: '12:00',
-      afternoonExit: '17:00',
-      morningExitDelay: 0,
-      afternoonExitDelay: 0,
-      ...p
-    }));
-  } catch { return []; }
+export const getTimeBankTransactions = (): TimeBankTransaction[] => getList(KEYS.TIME_BANK_TRANSACTIONS);
+
+export const saveTimeBankTransaction = (transaction: TimeBankTransaction) => {
+  upsertRecord(KEYS.TIME_BANK_TRANSACTIONS, getTimeBankTransactions(), transaction);
 };
 
-export const savePontoEntry = (entry: PontoEntry) => {
-  const entries = getPontoEntries();
-  const index = entries.findIndex(e => e.id === entry.id);
-  if (index >= 0) entries[index] = entry; else entries.push(entry);
-  localStorage.setItem(KEYS.PONTO_ENTRIES, JSON.stringify(entries));
-  syncKeyToSupabase(KEYS.PONTO_ENTRIES, entries);
+export const deleteTimeBankTransaction = (id: string) => {
+  removeRecord(KEYS.TIME_BANK_TRANSACTIONS, getTimeBankTransactions(), id);
 };
 
-export const deletePontoEntry = (id: string) => {
-  const newEntries = getPontoEntries().filter(e => e.id !== id);
-  localStorage.setItem(KEYS.PONTO_ENTRIES, JSON.stringify(newEntries));
-  syncKeyToSupabase(KEYS.PONTO_ENTRIES, newEntries);
+export const getAbsences = (): Absence[] => getList(KEYS.ABSENCES);
+
+// Desfaz os lançamentos da ausência, menos os dias que serão regravados (apagar e recriar o mesmo id no mesmo instante o deixaria enterrado).
+// Os dias da ausência precisam estar em memória (loadAbsencePeriod).
+const releaseAbsence = (absenceId: string, keepWorkIds: string[] = [], keepPontoIds: string[] = []) => {
+  const release = releaseAbsenceRecords(absenceId, getSettings(), getWorkEntries(), getPontoEntries());
+  release.workIds.filter(id => !keepWorkIds.includes(id)).forEach(deleteWorkEntry);
+  release.pontoIds.filter(id => !keepPontoIds.includes(id)).forEach(deletePontoEntry);
+  release.ponto.filter(e => !keepPontoIds.includes(e.id)).forEach(savePontoEntry);
+};
+
+// Registros do período da ausência (e do período anterior dela, ao editar)
+const loadAbsencePeriod = (absence: Absence) => {
+  const previous = getAbsences().find(a => a.id === absence.id);
+  return loadRecordsFrom(previous && previous.startDate < absence.startDate ? previous.startDate : absence.startDate);
+};
+
+// Grava a ausência e lança os dias que ela cobre no registro diário (e no ponto, se pedido).
+// Ao editar, os dias que saíram do intervalo voltam ao que eram sem a ausência.
+export const saveAbsence = async (absence: Absence) => {
+  await loadAbsencePeriod(absence);
+  const { work, ponto } = buildAbsenceRecords(absence, getSettings(), getWorkEntries(), getPontoEntries());
+  releaseAbsence(absence.id, work.map(e => e.id), ponto.map(e => e.id));
+  upsertRecord(KEYS.ABSENCES, getAbsences(), absence);
+  work.forEach(saveWorkEntry);
+  ponto.forEach(savePontoEntry);
+};
+
+export const deleteAbsence = async (id: string) => {
+  const absence = getAbsences().find(a => a.id === id);
+  if (absence) await loadAbsencePeriod(absence);
+  releaseAbsence(id);
+  removeRecord(KEYS.ABSENCES, getAbsences(), id);
+  deleteItem(KEYS.ABSENCE_PHOTOS, id);
+};
+
+// Foto do documento (data URL), guardada só neste aparelho
+export const getAbsencePhoto = (absenceId: string): string | null =>
+  getList<{ id: string; dataUrl: string }>(KEYS.ABSENCE_PHOTOS).find(p => p.id === absenceId)?.dataUrl ?? null;
+
+export const saveAbsencePhoto = (absenceId: string, dataUrl: string | null) => {
+  if (dataUrl) putItem(KEYS.ABSENCE_PHOTOS, { id: absenceId, dataUrl });
+  else deleteItem(KEYS.ABSENCE_PHOTOS, absenceId);
 };
 
 export const getSettings = (): UserSettings => {
@@ -140,179 +354,176 @@ export const getSettings = (): UserSettings => {
     notificationTime: '18:00',
     billingCycleStartDate: '2024-12-16' // Valor que você mencionou como exemplo
   };
-  try {
-    const data = localStorage.getItem(KEYS.SETTINGS);
-    if (data) return { ...defaultSettings, ...JSON.parse(data) };
-  } catch {}
-  return defaultSettings;
+  const stored = getValue<Partial<UserSettings>>(KEYS.SETTINGS);
+  return stored ? { ...defaultSettings, ...stored } : defaultSettings;
 };
 
 export const saveWorkEntry = (entry: WorkEntry) => {
-  const entries = getWorkEntries();
-  const index = entries.findIndex(e => e.id === entry.id);
-  if (index >= 0) entries[index] = entry; else entries.push(entry);
-  localStorage.setItem(KEYS.WORK_ENTRIES, JSON.stringify(entries));
-  syncKeyToSupabase(KEYS.WORK_ENTRIES, entries);
+  upsertRecord(KEYS.WORK_ENTRIES, getWorkEntries(), entry);
 };
 
 export const deleteWorkEntry = (id: string) => {
-  const newEntries = getWorkEntries().filter(e => e.id !== id);
-  localStorage.setItem(KEYS.WORK_ENTRIES, JSON.stringify(newEntries));
-  syncKeyToSupabase(KEYS.WORK_ENTRIES, newEntries);
+  removeRecord(KEYS.WORK_ENTRIES, getWorkEntries(), id);
 };
 
 export const saveAdvance = (advance: AdvanceEntry) => {
-  const advances = getAdvances();
-  const index = advances.findIndex(a => a.id === advance.id);
-  if (index >= 0) advances[index] = advance; else advances.push(advance);
-  localStorage.setItem(KEYS.ADVANCES, JSON.stringify(advances));
-  syncKeyToSupabase(KEYS.ADVANCES, advances);
+  upsertRecord(KEYS.ADVANCES, getAdvances(), advance);
 };
 
 export const deleteAdvance = (id: string) => {
-  const newAdvances = getAdvances().filter(a => a.id !== id);
-  localStorage.setItem(KEYS.ADVANCES, JSON.stringify(newAdvances));
-  syncKeyToSupabase(KEYS.ADVANCES, newAdvances);
+  removeRecord(KEYS.ADVANCES, getAdvances(), id);
 };
 
 export const saveExpense = (expense: ExpenseEntry) => {
-  const expenses = getExpenses();
-  const index = expenses.findIndex(e => e.id === expense.id);
-  if (index >= 0) expenses[index] = expense; else expenses.push(expense);
-  localStorage.setItem(KEYS.EXPENSES, JSON.stringify(expenses));
-  syncKeyToSupabase(KEYS.EXPENSES, expenses);
+  upsertRecord(KEYS.EXPENSES, getExpenses(), expense);
 };
 
 export const deleteExpense = (id: string) => {
-  const newExpenses = getExpenses().filter(e => e.id !== id);
-  localStorage.setItem(KEYS.EXPENSES, JSON.stringify(newExpenses));
-  syncKeyToSupabase(KEYS.EXPENSES, newExpenses);
+  removeRecord(KEYS.EXPENSES, getExpenses(), id);
 };
 
 export const saveTool = (tool: ToolEntry) => {
-  const tools = getTools();
-  const index = tools.findIndex(t => t.id === tool.id);
-  if (index >= 0) tools[index] = tool; else tools.push(tool);
-  localStorage.setItem(KEYS.TOOLS, JSON.stringify(tools));
-  syncKeyToSupabase(KEYS.TOOLS, tools);
+  upsertRecord(KEYS.TOOLS, getTools(), tool);
 };
 
 export const deleteTool = (id: string) => {
-  const newTools = getTools().filter(t => t.id !== id);
-  localStorage.setItem(KEYS.TOOLS, JSON.stringify(newTools));
-  syncKeyToSupabase(KEYS.TOOLS, newTools);
+  removeRecord(KEYS.TOOLS, getTools(), id);
 };
 
 export const saveCycleHistory = (cycle: CycleHistory) => {
-  const history = getCycleHistory();
-  history.push(cycle);
-  localStorage.setItem(KEYS.CYCLE_HISTORY, JSON.stringify(history));
-  syncKeyToSupabase(KEYS.CYCLE_HISTORY, history);
+  upsertRecord(KEYS.CYCLE_HISTORY, getCycleHistory(), cycle);
 };
 
 export const deleteCycleHistory = (id: string) => {
-  const newHistory = getCycleHistory().filter(c => c.id !== id);
-  localStorage.setItem(KEYS.CYCLE_HISTORY, JSON.stringify(newHistory));
-  syncKeyToSupabase(KEYS.CYCLE_HISTORY, newHistory);
+  removeRecord(KEYS.CYCLE_HISTORY, getCycleHistory(), id);
 };
 
-export const saveSettings = (settings: UserSettings) => {
-  localStorage.setItem(KEYS.SETTINGS, JSON.stringify(settings));
-  syncKeyToSupabase(KEYS.SETTINGS, settings);
-};
-
-export const setLastNotificationDate = (dateStr: string) => localStorage.setItem(KEYS.LAST_NOTIF, dateStr);
-export const getLastNotificationDate = (): string | null => localStorage.getItem(KEYS.LAST_NOTIF);
-
-export const calculateStats = (startDate: string, endDate: string): MonthlyStats => {
-  const entries = getWorkEntries();
-  const advances = getAdvances();
-  const tools = getTools();
-  const ponto = getPontoEntries();
-
-  const start = startOfDay(parseISO(startDate));
-  const end = endOfDay(parseISO(endDate));
-
-  const fEntries = entries.filter(e => isWithinInterval(parseISO(e.date), { start, end }));
-  const fAdvances = advances.filter(a => isWithinInterval(parseISO(a.date), { start, end }));
-  const fTools = tools.filter(t => isWithinInterval(parseISO(t.date), { start, end }));
-  const fPonto = ponto.filter(p => isWithinInterval(parseISO(p.date), { start, end }));
+export const getPayments = (): PaymentEntry[] => getList(KEYS.PAYMENTS);
 
-  const s: MonthlyStats = {
-    daysWorked: 0, daysMissed: 0, grossTotal: 0, totalAdvances: 0, totalFromTools: 0, finalTotal: 0,
-    totalFromDays: 0, totalFromOvertime: 0, totalFromExtraServices: 0,
-    pontoMinutesOwed: 0,
-    pontoDiscountValue: 0
-  };
-
-  fEntries.forEach(e => {
-    if (e.status === WorkStatus.WORKED) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-    else if (e.status === WorkStatus.HALF_DAY) { s.daysWorked += 0.5; s.totalFromDays += (e.dailyRateSnapshot / 2); }
-    else if (e.status === WorkStatus.SATURDAY_FULL) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-    else if (e.status === WorkStatus.SUNDAY) { s.daysWorked += 1; s.totalFromDays += e.dailyRateSnapshot; }
-    else if (e.status === WorkStatus.MISSED) s.daysMissed += 1;
-    else if (e.status === WorkStatus.EXTRA_SERVICE) s.totalFromExtraServices += e.dailyRateSnapshot;
-    if (e.overtimeValue) s.totalFromOvertime += e.overtimeValue;
-  });
-
-  const totalDelayMinutes = fPonto.reduce((acc, curr) => acc + curr.totalDelay, 0);
-  const pontoMinutesOwed = totalDelayMinutes > 0 ? totalDelayMinutes : 0;
-  const pontoDiscountValue = totalDelayMinutes > 0 ? totalDelayMinutes * (75 / 450) : 0;
-
-  s.pontoMinutesOwed = pontoMinutesOwed;
-  s.pontoDiscountValue = pontoDiscountValue;
+export const savePayment = (payment: PaymentEntry) => {
+  upsertRecord(KEYS.PAYMENTS, getPayments(), payment);
+};
 
-  s.grossTotal = s.totalFromDays + s.totalFromOvertime + s.totalFromExtraServices;
-  s.totalAdvances = fAdvances.reduce((acc, curr) => acc + curr.amount, 0);
-  s.totalFromTools = fTools.reduce((acc, curr) => acc + curr.amount, 0);
-  s.finalTotal = (s.grossTotal + s.totalFromTools) - s.totalAdvances - pontoDiscountValue;
+export const deletePayment = (id: string) => {
+  removeRecord(KEYS.PAYMENTS, getPayments(), id);
+};
 
-  return s;
+export const saveSettings = (settings: UserSettings) => {
+  replaceCategory(KEYS.SETTINGS, settings);
 };
 
-export const exportAllData = (): string => {
-  return JSON.stringify({
-    workEntries: getWorkEntries(),
+export const setLastNotificationDate = (dateStr: string) => setValue(KEYS.LAST_NOTIF, dateStr);
+export const getLastNotificationDate = (): string | null => getValue<string>(KEYS.LAST_NOTIF) ?? null;
+
+export const calculateStats = (startDate: string, endDate: string, employerId: string = ALL_EMPLOYERS): MonthlyStats =>
+  calculatePeriodStats(
+    selectEmployerData(
+      { entries: getWorkEntries(), advances: getAdvances(), tools: getTools(), ponto: getPontoEntries(), schedules: getSettings().workSchedules, categories: getSettings().pontoCategories },
+      employerId
+    ),
+    startDate,
+    endDate
+  );
+
+export const exportAllData = async (): Promise<string> => {
+  const snapshot: DataSnapshot = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    workEntries: await loadFullList(KEYS.WORK_ENTRIES),
     advances: getAdvances(),
     expenses: getExpenses(),
     tools: getTools(),
     cycleHistory: getCycleHistory(),
-    pontoEntries: getPontoEntries(),
+    pontoEntries: await loadFullList(KEYS.PONTO_ENTRIES),
+    timeBankArchives: getTimeBankArchives(),
+    timeBankTransactions: getTimeBankTransactions(),
+    absences: getAbsences(),
+    payments: getPayments(),
     settings: getSettings(),
     exportedAt: new Date().toISOString()
-  });
+  };
+  return JSON.stringify(snapshot);
 };
 
-export const importAllData = async (jsonString: string): Promise<boolean> => {
-  try {
-    const data = JSON.parse(jsonString);
-    localStorage.setItem(KEYS.WORK_ENTRIES, JSON.stringify(data.workEntries || []));
-    localStorage.setItem(KEYS.ADVANCES, JSON.stringify(data.advances || []));
-    localStorage.setItem(KEYS.EXPENSES, JSON.stringify(data.expenses || []));
-    localStorage.setItem(KEYS.TOOLS, JSON.stringify(data.tools || []));
-    localStorage.setItem(KEYS.CYCLE_HISTORY, JSON.stringify(data.cycleHistory || []));
-    localStorage.setItem(KEYS.PONTO_ENTRIES, JSON.stringify(data.pontoEntries || []));
-    localStorage.setItem(KEYS.SETTINGS, JSON.stringify(data.settings || {}));
-    await Promise.all([
-      syncKeyToSupabase(KEYS.WORK_ENTRIES, data.workEntries),
-      syncKeyToSupabase(KEYS.ADVANCES, data.advances),
-      syncKeyToSupabase(KEYS.TOOLS, data.tools),
-      syncKeyToSupabase(KEYS.CYCLE_HISTORY, data.cycleHistory),
-      syncKeyToSupabase(KEYS.PONTO_ENTRIES, data.pontoEntries),
-      syncKeyToSupabase(KEYS.SETTINGS, data.settings)
-    ]);
-    return true;
-  } catch { return false; }
-};
-
-export const generateTestData = () => {
+const BACKUP_KEYS: Record<BackupCategory, string> = {
+  workEntries: KEYS.WORK_ENTRIES,
+  advances: KEYS.ADVANCES,
+  expenses: KEYS.EXPENSES,
+  tools: KEYS.TOOLS,
+  cycleHistory: KEYS.CYCLE_HISTORY,
+  pontoEntries: KEYS.PONTO_ENTRIES,
+  timeBankArchives: KEYS.TIME_BANK_ARCHIVES,
+  timeBankTransactions: KEYS.TIME_BANK_TRANSACTIONS,
+  absences: KEYS.ABSENCES,
+  payments: KEYS.PAYMENTS
+};
+
+// 'replace': as categorias do arquivo substituem as locais. 'merge': une por id, mantendo a versão mais recente.
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportPreview {
+  errors: BackupFieldError[];
+  exportedAt?: string;
+  schemaVersion: number;
+  hasSettings: boolean;
+  categories: ({ key: BackupCategory; label: string; inFile: boolean; localCount: number } & CategorySummary)[];
+}
+
+// Valida o arquivo e compara com os dados deste aparelho, sem gravar nada
+export const previewImport = async (jsonString: string): Promise<ImportPreview> => {
+  const { snapshot, present, hasSettings, errors } = parseBackup(jsonString);
+  const categories: ImportPreview['categories'] = [];
+  for (const { key, label } of BACKUP_CATEGORIES) {
+    const local = await loadFullList<any>(BACKUP_KEYS[key]);
+    const inFile = !!snapshot && present.includes(key);
+    categories.push({ key, label, inFile, localCount: local.length, ...summarizeCategory(key, inFile ? snapshot![key] : [], local) });
+  }
+  return { errors, exportedAt: snapshot?.exportedAt, schemaVersion: snapshot?.schemaVersion ?? 0, hasSettings, categories };
+};
+
+/**
+ * Restaura um backup já validado. Categorias ausentes no arquivo nunca são apagadas.
+ * Backups de versões anteriores passam pelas migrações; arquivos com erros são recusados.
+ */
+export const importAllData = async (jsonString: string, mode: ImportMode = 'replace'): Promise<boolean> => {
+  const { snapshot, present, hasSettings, errors } = parseBackup(jsonString);
+  if (!snapshot || errors.length > 0) return false;
+
+  for (const category of present) {
+    const key = BACKUP_KEYS[category];
+    const records: any[] = snapshot[category];
+    const local = await loadFullList<any>(key);
+    if (mode === 'replace') {
+      // Carimbo novo: um registro apagado depois do backup tem lápide mais recente que a data do arquivo,
+      // e a próxima sincronização o apagaria de novo
+      const restoredAt = new Date().toISOString();
+      replaceCategory(key, records.map(record => ({ ...record, updatedAt: restoredAt })), local);
+      continue;
+    }
+    records.forEach(record => {
+      const index = local.findIndex(r => r.id === record.id);
+      const existing = local[index];
+      if (existing && (sameRecordContent(existing, record) || (existing.updatedAt || '') >= (record.updatedAt || ''))) return;
+      upsertRecord(key, local, record);
+      if (index >= 0) local[index] = record; else local.push(record);
+    });
+  }
+  // Na mesclagem as configurações deste aparelho são mantidas
+  if (hasSettings && mode === 'replace') replaceCategory(KEYS.SETTINGS, snapshot.settings);
+
+  // Se estiver offline, as alterações ficam na fila e são enviadas depois
+  await flushOutbox();
+  await whenPersisted();
+  return true;
+};
+
+export const generateTestData = async (): Promise<void> => {
   const today = new Date();
   const settings = getSettings();
   const entries: WorkEntry[] = [];
   for (let i = 0; i < 20; i++) {
     const d = format(subDays(today, i), 'yyyy-MM-dd');
-    entries.push({ id: d, date: d, status: WorkStatus.WORKED, dailyRateSnapshot: settings.dailyRate });
+    entries.push({ id: d, date: d, status: WorkStatus.WORKED, dailyRateSnapshot: settings.dailyRate, valueSnapshot: calculateDayValue(WorkStatus.WORKED, settings) });
   }
-  localStorage.setItem(KEYS.WORK_ENTRIES, JSON.stringify(entries));
-  syncKeyToSupabase(KEYS.WORK_ENTRIES, entries);
+  replaceCategory(KEYS.WORK_ENTRIES, entries, await loadFullList(KEYS.WORK_ENTRIES));
+  return whenPersisted();
 };
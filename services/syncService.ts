@@ -0,0 +1,241 @@
+import { supabase } from './supabaseClient';
+import { getList, setList, removeKey } from './localStore';
+
+const OUTBOX_KEY = 'mrt_sync_outbox';
+const TABLE = 'historico_ia';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+
+export type SyncOperation = 'create' | 'update' | 'delete' | 'replace';
+
+// Uma alteração pendente de envio para a nuvem.
+// 'replace' substitui a categoria inteira (configurações, restauração de backup).
+export interface PendingMutation {
+  id: string;
+  category: string;
+  recordId: string;
+  operation: SyncOperation;
+  record?: any;
+  baseUpdatedAt?: string; // versão do registro sobre a qual a alteração foi feita
+  conflict?: boolean; // a nuvem mudou desde a versão base: aguarda resolução no próximo download
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+type OutboxListener = (pending: PendingMutation[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let flushing: Promise<boolean> | null = null;
+let flushAgain = false;
+// Alterações no lote que está sendo enviado agora: já podem ter chegado à nuvem, então não são fundidas com as novas
+const inFlight = new Set<string>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const getOutbox = (): PendingMutation[] => getList(OUTBOX_KEY);
+
+const saveOutbox = (outbox: PendingMutation[]) => {
+  setList(OUTBOX_KEY, outbox);
+  listeners.forEach(l => l(outbox));
+};
+
+export const clearOutbox = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  removeKey(OUTBOX_KEY);
+  listeners.forEach(l => l([]));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Aplica as alterações sobre o conteúdo de uma categoria (lista de registros por id ou objeto único).
+export const applyMutations = (data: any, mutations: PendingMutation[]): any => {
+  let result = data;
+  mutations.forEach(m => {
+    if (m.operation === 'replace') {
+      result = m.record;
+      return;
+    }
+    const list: any[] = Array.isArray(result) ? [...result] : [];
+    const index = list.findIndex(r => r.id === m.recordId);
+    if (m.operation === 'delete') {
+      if (index >= 0) list.splice(index, 1);
+    } else if (index >= 0) {
+      list[index] = m.record;
+    } else {
+      list.push(m.record);
+    }
+    result = list;
+  });
+  return result;
+};
+
+export const enqueueMutation = (category: string, recordId: string, operation: SyncOperation, record?: any, baseUpdatedAt?: string) => {
+  let outbox = getOutbox();
+
+  if (operation === 'replace') {
+    // Substituir a categoria torna qualquer alteração anterior nela irrelevante
+    outbox = outbox.filter(m => m.category !== category);
+  } else {
+    const sameRecord = (m: PendingMutation) => m.category === category && m.recordId === recordId && m.operation !== 'replace';
+    const previous = outbox.find(m => sameRecord(m) && !inFlight.has(m.id));
+    const sending = outbox.find(m => sameRecord(m) && inFlight.has(m.id));
+    if (!previous && sending) {
+      // A nova alteração vai depois, sobre a versão que o envio em andamento está gravando
+      if (sending.record?.updatedAt) baseUpdatedAt = sending.record.updatedAt;
+    } else if (previous) {
+      outbox = outbox.filter(m => m !== previous);
+      // Registro criado e apagado sem nunca chegar à nuvem: nada a enviar
+      if (previous.operation === 'create' && operation === 'delete') {
+        saveOutbox(outbox);
+        return;
+      }
+      if (previous.operation === 'create') operation = 'create';
+      // A base continua sendo a última versão que veio da nuvem
+      baseUpdatedAt = previous.baseUpdatedAt;
+    }
+  }
+
+  outbox.push({
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    category,
+    recordId,
+    operation,
+    record,
+    baseUpdatedAt,
+    createdAt: new Date().toISOString(),
+    attempts: 0
+  });
+  saveOutbox(outbox);
+  flushOutbox();
+};
+
+// Remove da fila as alterações de um registro (ex: conflito resolvido ficando com a versão da nuvem)
+export const discardMutations = (category: string, recordId: string) => {
+  const outbox = getOutbox();
+  const remaining = outbox.filter(m => !(m.category === category && m.recordId === recordId));
+  if (remaining.length !== outbox.length) saveOutbox(remaining);
+};
+
+const scheduleRetry = (outbox: PendingMutation[]) => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const times = outbox.filter(m => m.nextAttemptAt).map(m => new Date(m.nextAttemptAt!).getTime());
+  if (times.length === 0) return;
+  const delay = Math.max(0, Math.min(...times) - Date.now());
+  retryTimer = setTimeout(() => { retryTimer = null; flushOutbox(); }, delay);
+};
+
+// Outro aparelho alterou o registro depois da versão em que esta alteração se baseou
+const isStale = (remoteData: any, m: PendingMutation): boolean => {
+  if (m.operation === 'replace' || !Array.isArray(remoteData)) return false;
+  const remote = remoteData.find((r: any) => r.id === m.recordId);
+  if (!remote || remote.updatedAt === m.baseUpdatedAt) return false;
+  return JSON.stringify(remote) !== JSON.stringify(m.record);
+};
+
+// Envia as alterações de uma categoria e devolve as que ficaram retidas por conflito
+const pushCategory = async (userId: string, category: string, mutations: PendingMutation[]): Promise<PendingMutation[]> => {
+  const { data: row, error: readError } = await supabase
+    .from(TABLE)
+    .select('data')
+    .eq('user_id', userId)
+    .eq('category', category)
+    .maybeSingle();
+  if (readError) throw readError;
+
+  const remoteData = row?.data ?? [];
+  const held = mutations.filter(m => isStale(remoteData, m));
+  const ready = mutations.filter(m => !held.includes(m));
+  if (ready.length === 0) return held;
+
+  const { error } = await supabase
+    .from(TABLE)
+    .upsert(
+      {
+        user_id: userId,
+        category,
+        data: applyMutations(remoteData, ready),
+        updated_at: new Date().toISOString()
+      },
+      { onConflict: 'user_id, category' }
+    );
+  if (error) throw error;
+  return held;
+};
+
+const runFlush = async (): Promise<boolean> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return false;
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) return false;
+
+  const now = Date.now();
+  const due = getOutbox().filter(m => !m.conflict && (!m.nextAttemptAt || new Date(m.nextAttemptAt).getTime() <= now));
+  due.forEach(m => inFlight.add(m.id));
+  const categories = Array.from(new Set(due.map(m => m.category)));
+  const sent = new Set<string>();
+  const held = new Set<string>();
+  const failed = new Map<string, string>();
+
+  for (const category of categories) {
+    const mutations = due.filter(m => m.category === category);
+    try {
+      const conflicting = await pushCategory(session.user.id, category, mutations);
+      conflicting.forEach(m => held.add(m.id));
+      mutations.filter(m => !held.has(m.id)).forEach(m => sent.add(m.id));
+    } catch (err: any) {
+      mutations.forEach(m => failed.set(m.id, err?.message || String(err)));
+    }
+  }
+
+  // Relê a fila: novas alterações podem ter chegado durante o envio
+  const outbox = getOutbox()
+    .filter(m => !sent.has(m.id))
+    .map(m => {
+      if (held.has(m.id)) return { ...m, conflict: true };
+      if (!failed.has(m.id)) return m;
+      const attempts = m.attempts + 1;
+      const wait = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+      return { ...m, attempts, lastError: failed.get(m.id), nextAttemptAt: new Date(Date.now() + wait).toISOString() };
+    });
+  saveOutbox(outbox);
+  scheduleRetry(outbox);
+  return failed.size === 0;
+};
+
+// Envia as alterações pendentes. Chamadas simultâneas compartilham o mesmo envio.
+export const flushOutbox = (): Promise<boolean> => {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  flushing = runFlush()
+    .catch(() => false)
+    .finally(() => {
+      inFlight.clear();
+      flushing = null;
+      if (flushAgain) {
+        flushAgain = false;
+        flushOutbox();
+      }
+    });
+  return flushing;
+};
+
+// Reenvia imediatamente, ignorando a espera de backoff (conexão ou sessão voltou).
+export const retryOutboxNow = (): Promise<boolean> => {
+  const outbox = getOutbox();
+  if (outbox.some(m => m.nextAttemptAt)) {
+    saveOutbox(outbox.map(m => ({ ...m, nextAttemptAt: undefined })));
+  }
+  return flushOutbox();
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { retryOutboxNow(); });
+}
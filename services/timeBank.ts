@@ -0,0 +1,148 @@
+import { addMonths, format, parseISO } from 'date-fns';
+import { PontoCategory, PontoEntry, TimeBankPolicy, TimeBankTransaction, TimeBankTransactionType, WorkSchedule } from '../types';
+import { calculateEntryDetails, roundCurrency } from './calculations';
+import { getScheduleForDate } from './workSchedule';
+
+// Extrato do banco de horas: saldos diários do ponto, compensações, pagamentos e vencimentos,
+// com o saldo corrente após cada lançamento.
+
+// CLT art. 59 §1: hora extra paga com adicional de no mínimo 50%
+export const DEFAULT_TIME_BANK_POLICY: TimeBankPolicy = { expiryMonths: 0, expiryAction: 'zero', payoutPercent: 50 };
+
+export const getTimeBankPolicy = (policy?: TimeBankPolicy): TimeBankPolicy => ({ ...DEFAULT_TIME_BANK_POLICY, ...policy });
+
+export const TRANSACTION_LABELS: Record<TimeBankTransactionType, string> = {
+  compensation: 'Folga compensada',
+  payout: 'Pagamento de horas'
+};
+
+export type TimeBankLineKind = 'ponto' | TimeBankTransactionType | 'expiry';
+
+export interface TimeBankLedgerLine {
+  id: string; // id do ponto ou do movimento; vencimentos: `vencimento:${data do crédito}`
+  date: string;
+  kind: TimeBankLineKind;
+  descricao: string;
+  minutos: number; // positivo = entra no banco, negativo = sai
+  valor: number; // R$ pago (pagamentos e créditos vencidos pagos)
+  saldo: number; // saldo do banco após o lançamento
+}
+
+// Crédito ainda não compensado, pela data em que foi feito (os mais antigos são usados primeiro)
+export interface TimeBankCredit {
+  date: string;
+  expiresOn: string | null; // null = sem vencimento
+  minutos: number;
+}
+
+export interface TimeBankLedger {
+  lines: TimeBankLedgerLine[];
+  saldo: number;
+  creditos: TimeBankCredit[];
+  minutosVencidos: number;
+  minutosPagos: number; // pagamentos lançados e créditos vencidos pagos
+  valorPago: number;
+}
+
+interface LedgerOptions {
+  schedules?: WorkSchedule[];
+  categories?: PontoCategory[];
+  policy?: TimeBankPolicy;
+  until: string; // data até a qual os vencimentos são aplicados (normalmente hoje)
+}
+
+// Valor de um pagamento de horas: valor do minuto da jornada na data, com o adicional
+export const timeBankPayoutValue = (minutes: number, date: string, percent: number, schedules?: WorkSchedule[]): number =>
+  roundCurrency(minutes * getScheduleForDate(date, schedules).minuteRate * (1 + percent / 100));
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+/**
+ * Monta o extrato em ordem de data. Créditos são consumidos do mais antigo para o mais novo;
+ * saldo negativo fica como débito e é quitado pelos próximos créditos.
+ * Com prazo de vencimento, a sobra de cada crédito vence `expiryMonths` meses depois do dia em que foi feito.
+ */
+export const buildTimeBankLedger = (
+  entries: PontoEntry[],
+  transactions: TimeBankTransaction[],
+  { schedules, categories, policy, until }: LedgerOptions
+): TimeBankLedger => {
+  const { expiryMonths, expiryAction, payoutPercent } = getTimeBankPolicy(policy);
+  const expiresOn = (date: string) => (expiryMonths > 0 ? format(addMonths(parseISO(date), expiryMonths), 'yyyy-MM-dd') : null);
+
+  const events = [
+    ...entries.map(entry => {
+      const minutos = calculateEntryDetails(entry, schedules, categories).saldoMinutos;
+      return { id: entry.id, date: entry.date, kind: 'ponto' as TimeBankLineKind, minutos, valor: 0, descricao: 'Saldo do ponto' };
+    }).filter(e => e.minutos !== 0),
+    ...transactions.map(t => ({
+      id: t.id,
+      date: t.date,
+      kind: t.type as TimeBankLineKind,
+      minutos: -Math.abs(t.minutes),
+      valor: t.type === 'payout' ? t.value ?? 0 : 0,
+      descricao: [
+        TRANSACTION_LABELS[t.type],
+        t.type === 'payout' && t.percent ? `(+${t.percent}%)` : '',
+        t.note ? `· ${t.note}` : ''
+      ].filter(Boolean).join(' ')
+    }))
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.kind === 'ponto' ? 0 : 1) - (b.kind === 'ponto' ? 0 : 1));
+
+  const ledger: TimeBankLedger = { lines: [], saldo: 0, creditos: [], minutosVencidos: 0, minutosPagos: 0, valorPago: 0 };
+  let debito = 0;
+  const balance = () => ledger.creditos.reduce((sum, c) => sum + c.minutos, 0) - debito;
+
+  // Vence a sobra dos créditos cujo prazo terminou até a data (inclusive)
+  const expireUntil = (date: string) => {
+    while (ledger.creditos.length > 0 && ledger.creditos[0].expiresOn !== null && ledger.creditos[0].expiresOn <= date) {
+      const credit = ledger.creditos.shift()!;
+      const paid = expiryAction === 'payout';
+      const valor = paid ? timeBankPayoutValue(credit.minutos, credit.date, payoutPercent, schedules) : 0;
+      ledger.minutosVencidos += credit.minutos;
+      if (paid) {
+        ledger.minutosPagos += credit.minutos;
+        ledger.valorPago += valor;
+      }
+      ledger.lines.push({
+        id: `vencimento:${credit.date}`,
+        date: credit.expiresOn!,
+        kind: 'expiry',
+        descricao: `Crédito de ${formatDate(credit.date)} vencido${paid ? ` e pago (+${payoutPercent}%)` : ''}`,
+        minutos: -credit.minutos,
+        valor,
+        saldo: balance()
+      });
+    }
+  };
+
+  events.forEach(event => {
+    expireUntil(event.date);
+    if (event.minutos > 0) {
+      const quitado = Math.min(debito, event.minutos);
+      debito -= quitado;
+      if (event.minutos > quitado) {
+        ledger.creditos.push({ date: event.date, expiresOn: expiresOn(event.date), minutos: event.minutos - quitado });
+      }
+    } else {
+      let restante = -event.minutos;
+      while (restante > 0 && ledger.creditos.length > 0) {
+        const usado = Math.min(restante, ledger.creditos[0].minutos);
+        ledger.creditos[0].minutos -= usado;
+        restante -= usado;
+        if (ledger.creditos[0].minutos === 0) ledger.creditos.shift();
+      }
+      debito += restante;
+    }
+    if (event.kind === 'payout') {
+      ledger.minutosPagos += -event.minutos;
+      ledger.valorPago += event.valor;
+    }
+    ledger.lines.push({ ...event, saldo: balance() });
+  });
+  expireUntil(until);
+
+  ledger.saldo = balance();
+  ledger.valorPago = roundCurrency(ledger.valorPago);
+  return ledger;
+};
@@ -0,0 +1,128 @@
+import { DaySchedule, WorkSchedule, TolerancePolicy } from '../types';
+
+export const WEEKDAY_NAMES = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+export const WEEKDAY_SHORT = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const STANDARD_DAY: DaySchedule = {
+  morningStart: '08:00',
+  morningEnd: '12:00',
+  afternoonStart: '13:30',
+  afternoonEnd: '17:00'
+};
+
+// Jornada original do app (08:00-12:00 / 13:30-17:00 todos os dias, diária de R$ 75,00).
+// Vale para todos os registros anteriores à primeira jornada configurada.
+export const DEFAULT_WORK_SCHEDULE: WorkSchedule = {
+  id: 'default',
+  effectiveFrom: '0000-01-01',
+  dailyRate: 75,
+  days: { 0: STANDARD_DAY, 1: STANDARD_DAY, 2: STANDARD_DAY, 3: STANDARD_DAY, 4: STANDARD_DAY, 5: STANDARD_DAY, 6: STANDARD_DAY }
+};
+
+export const NO_TOLERANCE: TolerancePolicy = { mode: 'none', perMarkMinutes: 0, dailyMaxMinutes: 0 };
+
+// CLT art. 58 §1: até 5 minutos por marcação, limitado a 10 minutos no dia
+export const CLT_TOLERANCE: TolerancePolicy = { mode: 'dailyCap', perMarkMinutes: 5, dailyMaxMinutes: 10 };
+
+export const getTolerance = (schedule: WorkSchedule): TolerancePolicy => schedule.tolerance ?? NO_TOLERANCE;
+
+export const describeTolerance = (policy: TolerancePolicy): string => {
+  if (policy.mode === 'perMark') return `variações de até ${policy.perMarkMinutes} min por marcação são desconsideradas`;
+  if (policy.mode === 'dailyCap') {
+    return `variações de até ${policy.perMarkMinutes} min por marcação são desconsideradas, no limite de ${policy.dailyMaxMinutes} min no dia (acima do limite, todas são computadas) - CLT art. 58 §1`;
+  }
+  return 'sem tolerância, todo minuto de variação é computado';
+};
+
+// Jornada aplicada a uma data, com o valor do minuto já calculado
+export interface ScheduleInEffect {
+  schedule: WorkSchedule;
+  day: DaySchedule | null; // null = folga prevista
+  minuteRate: number;
+}
+
+export const parseTimeToMinutes = (timeStr: string): number => {
+  if (!timeStr) return 0;
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const DAY_MINUTES = 24 * 60;
+
+/**
+ * Converte horários em sequência para minutos contados do início do dia da jornada.
+ * Um horário menor que o anterior passou da meia-noite: 22:00, 02:00, 03:00, 05:00 → 1320, 1560, 1620, 1740.
+ * Horários vazios ficam null e não interrompem a sequência.
+ */
+export const unfoldTimes = (times: string[]): (number | null)[] => {
+  let last = -Infinity;
+  let offset = 0;
+  return times.map(time => {
+    if (!time) return null;
+    let minutes = parseTimeToMinutes(time) + offset;
+    while (minutes < last) {
+      minutes += DAY_MINUTES;
+      offset += DAY_MINUTES;
+    }
+    last = minutes;
+    return minutes;
+  });
+};
+
+const periodMinutes = (start: string, end: string): number => {
+  const [from, to] = unfoldTimes([start, end]);
+  return from !== null && to !== null ? to - from : 0;
+};
+
+export const dayScheduleMinutes = (day: DaySchedule | null): number =>
+  day ? periodMinutes(day.morningStart, day.morningEnd) + periodMinutes(day.afternoonStart, day.afternoonEnd) : 0;
+
+// Valor do minuto = diária ÷ jornada do dia mais longo da semana (dias curtos não encarecem o minuto)
+export const getMinuteRate = (schedule: WorkSchedule): number => {
+  const longest = Math.max(0, ...Object.values(schedule.days).map(dayScheduleMinutes));
+  return longest > 0 ? schedule.dailyRate / longest : 0;
+};
+
+const sortSchedules = (schedules: WorkSchedule[]) =>
+  [...schedules].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+// Versão da jornada vigente na data (a mais recente que começou até ela). Em feriado o dia é folga prevista.
+export const getScheduleForDate = (date: string, schedules: WorkSchedule[] = [], holiday = false): ScheduleInEffect => {
+  const schedule = sortSchedules(schedules).filter(s => s.effectiveFrom <= date).pop() ?? DEFAULT_WORK_SCHEDULE;
+  const weekday = new Date(date + 'T00:00:00').getDay();
+  return { schedule, day: holiday ? null : schedule.days[weekday] ?? null, minuteRate: getMinuteRate(schedule) };
+};
+
+// Grava uma nova versão a partir de effectiveFrom, substituindo outra que comece no mesmo dia
+export const addScheduleVersion = (schedules: WorkSchedule[] = [], schedule: Omit<WorkSchedule, 'id' | 'effectiveFrom'>, effectiveFrom: string): WorkSchedule[] =>
+  sortSchedules([
+    ...schedules.filter(s => s.effectiveFrom !== effectiveFrom),
+    { ...schedule, id: `${effectiveFrom}-${Date.now()}`, effectiveFrom }
+  ]);
+
+export const describeDaySchedule = (day: DaySchedule | null): string => {
+  if (!day) return 'Folga';
+  const parts = [
+    day.morningStart && day.morningEnd ? `${day.morningStart}-${day.morningEnd}` : '',
+    day.afternoonStart && day.afternoonEnd ? `${day.afternoonStart}-${day.afternoonEnd}` : ''
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : 'Folga';
+};
+
+// Resumo da semana agrupando dias iguais, ex: "Seg a Sex 08:00-12:00 / 13:30-17:00 | Sáb 08:00-12:00 | Dom Folga"
+export const describeWeek = (schedule: WorkSchedule): string => {
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const groups: { days: number[]; text: string }[] = [];
+  order.forEach(weekday => {
+    const text = describeDaySchedule(schedule.days[weekday] ?? null);
+    const last = groups[groups.length - 1];
+    if (last && last.text === text) last.days.push(weekday);
+    else groups.push({ days: [weekday], text });
+  });
+  return groups.map(g => {
+    const label = g.days.length > 1
+      ? `${WEEKDAY_SHORT[g.days[0]]} a ${WEEKDAY_SHORT[g.days[g.days.length - 1]]}`
+      : WEEKDAY_SHORT[g.days[0]];
+    return `${label} ${g.text}`;
+  }).join(' | ');
+};
@@ -8,6 +8,7 @@ export enum WorkStatus {
   EXTRA_SERVICE = 'EXTRA_SERVICE',
   SATURDAY_FULL = 'SATURDAY_FULL',
   SUNDAY = 'SUNDAY',
+  HOLIDAY = 'HOLIDAY', // feriado sem trabalho (remunerado conforme a regra de pagamento)
 }
 
 export interface WorkEntry {
@@ -18,6 +19,12 @@ export interface WorkEntry {
   dailyRateSnapshot: number; // Armazena o valor da diária OU o valor do serviço extra
   overtimeValue?: number; // Valor das horas extras
   serviceTitle?: string; // Nome do serviço extra (ex: "Instalação Elétrica")
+  valueSnapshot?: number; // Valor do dia pela regra de pagamento vigente ao salvar (sem horas extras)
+  absenceId?: string; // Falta justificada: dia lançado pela ausência (Absence) com esse id
+  fromPonto?: boolean; // Criado pelo Controle de Ponto: o status acompanha as marcações do dia até ser editado à mão
+  employerId?: string; // Empregador/contrato do dia (ausente = empregador principal)
+  projectId?: string; // Obra do dia ou do serviço extra
+  updatedAt?: string; // ISO timestamp da última alteração (sincronização)
 }
 
 export interface AdvanceEntry {
@@ -25,6 +32,8 @@ export interface AdvanceEntry {
   date: string; // ISO string YYYY-MM-DD
   amount: number;
   note?: string;
+  employerId?: string; // ausente = empregador principal
+  updatedAt?: string;
 }
 
 // FIX: Added ExpenseEntry type for the ExpensesTab component.
@@ -33,6 +42,8 @@ export interface ExpenseEntry {
   date: string; // ISO string YYYY-MM-DD
   amount: number;
   note?: string;
+  projectId?: string; // Obra da despesa
+  updatedAt?: string;
 }
 
 export interface ToolEntry {
@@ -41,6 +52,9 @@ export interface ToolEntry {
   name: string;
   amount: number;
   note?: string;
+  employerId?: string; // ausente = empregador principal
+  projectId?: string; // Obra em que a ferramenta foi usada
+  updatedAt?: string;
 }
 
 export interface CycleHistory {
@@ -50,22 +64,180 @@ export interface CycleHistory {
   stats: MonthlyStats;
   workerName: string;
   employerName: string;
+  employerId?: string; // ausente = empregador principal
+  updatedAt?: string;
+}
+
+export type PaymentMethod = 'pix' | 'dinheiro' | 'transferencia' | 'cheque' | 'outro';
+
+// Pagamento recebido do empregador. Sem cycleId = ciclo atual, ainda aberto; ao encerrar o ciclo ele passa a apontar para o encerrado.
+export interface PaymentEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  method: PaymentMethod;
+  cycleId?: string;
+  employerId?: string; // ausente = empregador principal
+  note?: string;
+  updatedAt?: string;
+}
+
+// Como um tipo de dia é pago:
+// 'fixed' = valor fixo em R$; 'multiplier' = fração/múltiplo da diária; 'hourly' = horas × valor da hora
+export type PayRuleType = 'fixed' | 'multiplier' | 'hourly';
+
+export interface PayRule {
+  type: PayRuleType;
+  value: number; // fixed: R$ do dia; multiplier: fator (ex: 0.5); hourly: R$ por hora
+  hours?: number; // hourly: horas pagas no dia
+}
+
+// Valores do registro diário a partir de uma data (reajuste). Antes da primeira versão valem a diária
+// e as regras das configurações; os status sem regra própria na versão seguem as regras das configurações.
+export interface RateVersion {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  dailyRate: number;
+  payRules?: Partial<Record<WorkStatus, PayRule>>;
+  employerId?: string; // ausente = empregador principal
+}
+
+// Empregador ou contrato adicional, com diária, regras, jornada e ciclo próprios.
+// O empregador principal continua nos campos do próprio UserSettings (employerName, dailyRate, payRules...).
+export interface EmployerProfile {
+  id: string;
+  name: string;
+  document?: string; // CNPJ ou CPF
+  dailyRate: number;
+  payRules?: Partial<Record<WorkStatus, PayRule>>; // ausente = regras padrão
+  workSchedules?: WorkSchedule[]; // ausente = mesma jornada do principal
+  billingCycleStartDate?: string;
+}
+
+// Horários previstos de um dia da semana. '' = sem expediente naquele período (ex: sábado só de manhã)
+export interface DaySchedule {
+  morningStart: string; // "HH:MM"
+  morningEnd: string;
+  afternoonStart: string;
+  afternoonEnd: string;
+}
+
+// Tolerância para variações no registro de ponto (CLT art. 58 §1)
+// 'perMark': ignora variações até perMarkMinutes em cada marcação
+// 'dailyCap': idem, desde que as variações do dia somem até dailyMaxMinutes; acima disso todas contam
+export type ToleranceMode = 'none' | 'perMark' | 'dailyCap';
+
+export interface TolerancePolicy {
+  mode: ToleranceMode;
+  perMarkMinutes: number;
+  dailyMaxMinutes: number;
+}
+
+// Jornada do Controle de Ponto. Cada alteração vira uma nova versão a partir de uma data,
+// para que os dias anteriores continuem calculados com a jornada da época.
+export interface WorkSchedule {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  dailyRate: number; // valor do dia de ponto (R$), base do valor do minuto
+  days: Record<number, DaySchedule | null>; // 0 = domingo ... 6 = sábado; null = folga
+  tolerance?: TolerancePolicy; // ausente = sem tolerância (todo minuto conta)
+  nightShiftPercent?: number; // adicional noturno em % sobre a hora noturna (CLT: 20); ausente = sem adicional
+}
+
+// Categoria de ajuste do ponto (ex: buscar filho, médico, banco).
+// paid = abonado: os minutos contam como trabalhados; senão são descontados do saldo.
+export interface PontoCategory {
+  id: string;
+  name: string;
+  paid: boolean;
+}
+
+// Acordo de banco de horas (CLT art. 59 §5: acordo individual de até 6 meses).
+// Créditos não compensados dentro do prazo vencem: são perdidos ('zero') ou pagos como hora extra ('payout').
+export interface TimeBankPolicy {
+  expiryMonths: number; // 0 = créditos não vencem
+  expiryAction: 'zero' | 'payout';
+  payoutPercent: number; // adicional sobre o valor da hora nos pagamentos (CLT: no mínimo 50)
+}
+
+// Tipo de ausência justificada (atestado médico, luto, casamento...).
+// paid: o dia é pago como dia inteiro; countsAgainstBalance: a jornada prevista do dia sai do banco de horas.
+export interface AbsenceType {
+  id: string;
+  name: string;
+  paid: boolean;
+  countsAgainstBalance: boolean;
+}
+
+// Ausência justificada em um intervalo de datas. A foto do documento fica só neste aparelho (não sincroniza).
+export interface Absence {
+  id: string;
+  typeId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  note?: string;
+  includePonto?: boolean; // lançada também no Controle de Ponto
+  employerId?: string; // ausente = empregador principal
+  updatedAt?: string;
+}
+
+// Modelo de semana para lançamento em lote (ex: "Seg–Sex dia inteiro, sábado meio período")
+export interface WorkTemplate {
+  id: string;
+  name: string;
+  days: Record<number, WorkStatus | null>; // 0 = domingo ... 6 = sábado; null = dia não lançado
+}
+
+// Obra/projeto em que o trabalho foi feito. Obras concluídas saem dos seletores, mas continuam nos relatórios.
+export type ProjectStatus = 'ativa' | 'pausada' | 'concluida';
+
+export interface Project {
+  id: string;
+  name: string;
+  client?: string;
+  address?: string;
+  status: ProjectStatus;
+}
+
+// Feriado estadual/municipal cadastrado pelo usuário. recurring = repete o dia e o mês todo ano
+export interface CustomHoliday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  recurring?: boolean;
 }
 
 export interface UserSettings {
   dailyRate: number;
   workerName: string;
   employerName: string;
+  workerCpf?: string; // identificação do trabalhador nos arquivos AFD/AEJ
+  employerDocument?: string; // CNPJ ou CPF do empregador (AFD/AEJ)
   currency: string;
   theme: 'light' | 'dark';
   notificationEnabled: boolean;
   notificationTime: string; // Format "HH:mm"
   billingCycleStartDate?: string; // Data de início do ciclo atual (reset do saldo)
+  timeBankStartDate?: string; // Início do banco de horas atual (dia seguinte ao último fechamento)
+  payRules?: Partial<Record<WorkStatus, PayRule>>; // Ausente = regra padrão do status
+  employers?: EmployerProfile[]; // Empregadores/contratos além do principal
+  projects?: Project[]; // Cadastro de obras
+  rateHistory?: RateVersion[]; // Reajustes com data de vigência (ausente = diária e regras acima para qualquer data)
+  workSchedules?: WorkSchedule[]; // Versões da jornada do ponto (ausente = jornada padrão)
+  pontoCategories?: PontoCategory[]; // Categorias de ajuste do ponto (ausente = categorias padrão)
+  timeBankPolicy?: TimeBankPolicy; // Ausente = créditos não vencem, pagamento com adicional de 50%
+  absenceTypes?: AbsenceType[]; // Tipos de ausência justificada (ausente = tipos padrão)
+  workTemplates?: WorkTemplate[]; // Modelos de semana do lançamento em lote (ausente = modelos padrão)
+  customHolidays?: CustomHoliday[]; // Feriados estaduais e municipais
+  optionalHolidays?: boolean; // Carnaval e Corpus Christi (pontos facultativos) contam como feriado (ausente = sim)
+  holidayPremiumPercent?: number; // Adicional sobre o valor do dia trabalhado em feriado (ausente = 100%, pagamento em dobro)
+  autoWorkEntryFromPonto?: boolean; // Ao salvar um dia de ponto, cria o registro diário com o status sugerido pelas marcações
 }
 
 export interface MonthlyStats {
   daysWorked: number;
   daysMissed: number;
+  daysJustified?: number; // faltas justificadas (fora de daysMissed)
   grossTotal: number;
   totalAdvances: number;
   totalFromTools: number;
@@ -76,20 +248,96 @@ export interface MonthlyStats {
   totalFromExtraServices: number;
   pontoMinutesOwed?: number;
   pontoDiscountValue?: number;
+  pontoNightMinutes?: number; // minutos noturnos em hora reduzida
+  pontoNightShiftValue?: number; // adicional noturno do ponto (R$)
+}
+
+export type PontoMark = 'start' | 'end';
+
+// Um trecho trabalhado do dia (entrada e saída). Turnos que passam da meia-noite continuam no dia em que começaram.
+export interface PontoInterval {
+  start: string; // "HH:MM" ('' = ainda sem marcação)
+  end: string;
+  label?: string; // ex: "Café", "Visita à obra"
+  punches?: Partial<Record<PontoMark, string>>; // batida real do "Bater ponto" (ISO), mantida mesmo após correção manual
+}
+
+// Minutos de um dia lançados em uma categoria de ajuste
+export interface PontoAdjustment {
+  categoryId: string;
+  minutes: number;
+}
+
+// Dia de ponto coberto por ausência justificada: cópia da regra do tipo no lançamento
+export interface PontoAbsence {
+  absenceId: string;
+  name: string;
+  countsAgainstBalance: boolean;
 }
 
 export interface PontoEntry {
   id: string;
   date: string; // ISO string YYYY-MM-DD
-  morningArrival: string; // "HH:MM" e.g., "08:05"
-  morningExit: string; // "HH:MM" e.g., "12:00"
-  afternoonArrival: string; // "HH:MM" e.g., "13:35"
-  afternoonExit: string; // "HH:MM" e.g., "17:00"
-  morningDelay: number; // minutos de atraso na entrada (positivo = devendo, negativo = adiantado)
-  morningExitDelay: number; // minutos de saída antecipada (positivo = devendo, negativo = extra)
-  afternoonDelay: number; // minutos de atraso no retorno (positivo = devendo, negativo = adiantado)
-  afternoonExitDelay: number; // minutos de saída antecipada (positivo = devendo, negativo = extra)
-  totalDelay: number; // soma dos 4 desvios + outros atrasos (ex: busca do filho)
-  valueEquivalent: number; // totalDelay * (75 / 450)
-  schoolMinutes?: number; // minutos extras gastos buscando o filho na escola
+  intervals: PontoInterval[]; // em ordem de horário
+  totalDelay: number; // atrasos + ajustes descontados - créditos - ajustes abonados, em minutos
+  valueEquivalent: number; // desconto do dia em R$ (descontoDia)
+  adjustments?: PontoAdjustment[]; // minutos por categoria (buscar filho, médico, ...)
+  absence?: PontoAbsence;
+  holiday?: string; // nome do feriado no dia, gravado no lançamento: a jornada do dia vira folga prevista
+  updatedAt?: string;
+}
+
+// Movimento lançado no banco de horas: folga compensada ou pagamento do saldo positivo pelo empregador
+export type TimeBankTransactionType = 'compensation' | 'payout';
+
+export interface TimeBankTransaction {
+  id: string;
+  date: string; // ISO string YYYY-MM-DD
+  type: TimeBankTransactionType;
+  minutes: number; // minutos retirados do banco
+  percent?: number; // payout: adicional aplicado sobre o valor da hora
+  value?: number; // payout: valor pago em R$, calculado ao lançar
+  note?: string;
+  updatedAt?: string;
+}
+
+// Banco de horas encerrado: cópia dos pontos do período como estavam no fechamento,
+// para conferência e reexportação mesmo que os registros sejam alterados depois
+export interface TimeBankArchive {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  closedAt: string; // ISO timestamp do fechamento
+  entries: PontoEntry[];
+  transactions?: TimeBankTransaction[]; // compensações e pagamentos do período
+  balanceMinutes: number; // saldo do banco no fechamento (negativo = devendo)
+  discountValue: number; // desconto em R$ do saldo devedor
+  workerName: string;
+  employerName: string;
+  updatedAt?: string;
+}
+
+// Marca de exclusão sincronizada, para que outro aparelho não "ressuscite" o registro apagado
+export interface Tombstone {
+  id: string; // `${category}:${recordId}`
+  category: string;
+  recordId: string;
+  deletedAt: string;
+}
+
+// Conjunto completo de dados do app, no formato do arquivo de backup
+export interface DataSnapshot {
+  schemaVersion: number;
+  workEntries: WorkEntry[];
+  advances: AdvanceEntry[];
+  expenses: ExpenseEntry[];
+  tools: ToolEntry[];
+  cycleHistory: CycleHistory[];
+  pontoEntries: PontoEntry[];
+  timeBankArchives: TimeBankArchive[];
+  timeBankTransactions: TimeBankTransaction[];
+  absences: Absence[];
+  payments: PaymentEntry[];
+  settings?: Partial<UserSettings>;
+  exportedAt?: string;
 }